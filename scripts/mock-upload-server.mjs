@@ -0,0 +1,186 @@
+// Local stand-in for the images API used to exercise upload progress, cancel
+// and retry behaviour. Run it with `npm run mock:api`, then start Vite with
+// API_PROXY_TARGET=http://localhost:8787 so `/api` requests land here.
+// Any email and password signs in, as an editor, so the upload page is reachable.
+//
+// Tunables (environment variables):
+//   MOCK_PORT        port to listen on (default 8787)
+//   MOCK_THROTTLE    max request body bytes per second (default 256 KB/s)
+//   MOCK_DROP_RATE   chance 0..1 that an upload connection is dropped midway (default 0.3)
+//   MOCK_FAIL_RATE   chance 0..1 that an upload answers 503 after the body arrives (default 0.1)
+import http from 'node:http';
+
+const PORT = Number(process.env.MOCK_PORT ?? 8787);
+const THROTTLE = Number(process.env.MOCK_THROTTLE ?? 256 * 1024);
+const DROP_RATE = Number(process.env.MOCK_DROP_RATE ?? 0.3);
+const FAIL_RATE = Number(process.env.MOCK_FAIL_RATE ?? 0.1);
+
+const categories = [
+  { _id: 'cat-nature', name: 'Nature' },
+  { _id: 'cat-city', name: 'City' },
+  { _id: 'cat-abstract', name: 'Abstract' },
+];
+
+const images = [];
+
+// Signed in as an editor: enough to reach /upload, which needs images:upload
+const mockUser = { id: 'user-mock', email: 'editor@example.com', name: 'Mock Editor', roles: ['editor'] };
+
+const base64Url = (value) => Buffer.from(JSON.stringify(value)).toString('base64url');
+
+// The frontend only reads a token's claims and never verifies the signature,
+// so an unsigned JWT carrying the user and an expiry is enough here
+const issueToken = (user) =>
+  [
+    base64Url({ alg: 'none', typ: 'JWT' }),
+    base64Url({ ...user, sub: user.id, exp: Math.floor(Date.now() / 1000) + 8 * 60 * 60 }),
+    'mock',
+  ].join('.');
+
+// Claims of a token issued above, or null
+const readToken = (authorization) => {
+  const payload = authorization?.replace(/^Bearer /, '').split('.')[1];
+  try {
+    return payload ? JSON.parse(Buffer.from(payload, 'base64url').toString()) : null;
+  } catch {
+    return null;
+  }
+};
+
+const readJson = (req) =>
+  new Promise((resolve) => {
+    let raw = '';
+    req.on('data', (chunk) => (raw += chunk));
+    req.on('end', () => {
+      try {
+        resolve(JSON.parse(raw || '{}'));
+      } catch {
+        resolve({});
+      }
+    });
+  });
+
+const send = (res, status, body, headers = {}) => {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  res.end(JSON.stringify(body));
+};
+
+const envelope = (status, message, data, extra = {}) => ({
+  success: status < 400,
+  status,
+  message,
+  data,
+  ...extra,
+});
+
+// Reads the request body no faster than THROTTLE bytes/s, optionally killing
+// the socket partway through to simulate a dropped connection.
+const readThrottled = (req, dropAt) =>
+  new Promise((resolve, reject) => {
+    let received = 0;
+    const startedAt = Date.now();
+
+    req.on('data', (chunk) => {
+      received += chunk.length;
+
+      if (dropAt !== null && received >= dropAt) {
+        console.log(`  dropping connection after ${received} bytes`);
+        req.socket.destroy();
+        reject(new Error('dropped'));
+        return;
+      }
+
+      const expectedMs = (received / THROTTLE) * 1000;
+      const aheadBy = expectedMs - (Date.now() - startedAt);
+      if (aheadBy > 0) {
+        req.pause();
+        setTimeout(() => req.resume(), aheadBy);
+      }
+    });
+    req.on('end', () => resolve(received));
+    req.on('error', reject);
+    req.on('aborted', () => reject(new Error('aborted by client')));
+  });
+
+const server = http.createServer(async (req, res) => {
+  const url = new URL(req.url, `http://localhost:${PORT}`);
+  const path = url.pathname.replace(/^\/api/, '');
+  console.log(`${req.method} ${path}`);
+
+  if (req.method === 'POST' && path === '/auth/login') {
+    const { email } = await readJson(req);
+    const user = typeof email === 'string' && email ? { ...mockUser, email } : mockUser;
+    send(res, 200, envelope(200, 'Logged in', { access_token: issueToken(user), user }));
+    return;
+  }
+
+  if (req.method === 'GET' && path === '/auth/me') {
+    const claims = readToken(req.headers.authorization);
+    if (!claims) {
+      send(res, 401, envelope(401, 'Unauthorized', null));
+      return;
+    }
+    send(res, 200, envelope(200, 'Current user', { ...mockUser, email: claims.email }));
+    return;
+  }
+
+  if (req.method === 'GET' && path === '/categories') {
+    send(res, 200, envelope(200, 'Categories fetched', categories));
+    return;
+  }
+
+  if (req.method === 'GET' && path === '/images') {
+    send(
+      res,
+      200,
+      envelope(200, 'Images fetched', images, {
+        pagination: {
+          currentPage: 1,
+          totalPages: 1,
+          totalRecords: images.length,
+          limit: images.length,
+          hasNextPage: false,
+          hasPrevPage: false,
+          nextPage: null,
+          prevPage: null,
+        },
+      })
+    );
+    return;
+  }
+
+  if (req.method === 'POST' && path === '/images/upload') {
+    const length = Number(req.headers['content-length'] ?? 0);
+    const dropAt = Math.random() < DROP_RATE && length > 0 ? Math.floor(length * Math.random()) : null;
+
+    try {
+      const received = await readThrottled(req, dropAt);
+      if (Math.random() < FAIL_RATE) {
+        send(res, 503, envelope(503, 'Service temporarily unavailable', null), { 'Retry-After': '2' });
+        return;
+      }
+
+      const image = {
+        _id: `img-${Date.now()}`,
+        title: 'Uploaded image',
+        category: categories[0],
+        imageUrl: 'https://picsum.photos/seed/mock/1920/1080',
+        publicId: `mock/${Date.now()}`,
+        createdAt: new Date().toISOString(),
+      };
+      images.unshift(image);
+      console.log(`  stored ${received} bytes`);
+      send(res, 201, envelope(201, 'Image uploaded successfully', image));
+    } catch (err) {
+      console.log(`  upload failed: ${err.message}`);
+    }
+    return;
+  }
+
+  send(res, 404, envelope(404, 'Not found', null));
+});
+
+server.listen(PORT, () => {
+  console.log(`Mock API listening on http://localhost:${PORT}/api`);
+  console.log(`  throttle ${THROTTLE} B/s, drop rate ${DROP_RATE}, fail rate ${FAIL_RATE}`);
+});
@@ -2,10 +2,14 @@ import { BrowserRouter, Routes, Route, Navigate } from 'react-router-dom';
 import { AuthProvider } from './contexts/AuthContext';
 import ProtectedRoute from './components/ProtectedRoute';
 import Login from './pages/Login';
+import ForgotPassword from './pages/ForgotPassword';
+import ResetPassword from './pages/ResetPassword';
 import Dashboard from './pages/Dashboard';
 import ImageUpload from './pages/ImageUpload';
 import ImageListing from './pages/ImageListing';
 import CategoryManagement from './pages/Categories';
+import TagManagement from './pages/Tags';
+import UserManagement from './pages/Users';
 
 function App() {
   return (
@@ -13,6 +17,8 @@ function App() {
       <AuthProvider>
         <Routes>
           <Route path="/login" element={<Login />} />
+          <Route path="/forgot-password" element={<ForgotPassword />} />
+          <Route path="/reset-password" element={<ResetPassword />} />
           <Route
             path="/dashboard"
             element={
@@ -24,13 +30,13 @@ function App() {
           <Route
             path="/upload"
             element={
-              <ProtectedRoute>
+              <ProtectedRoute permissions={['images:upload']}>
                 <ImageUpload />
               </ProtectedRoute>
             }
           />
           <Route
-            path="/images"
+            path="/images/:id?"
             element={
               <ProtectedRoute>
                 <ImageListing />
@@ -45,6 +51,22 @@ function App() {
               </ProtectedRoute>
             }
           />
+          <Route
+            path="/tags"
+            element={
+              <ProtectedRoute>
+                <TagManagement />
+              </ProtectedRoute>
+            }
+          />
+          <Route
+            path="/users"
+            element={
+              <ProtectedRoute permissions={['users:manage']}>
+                <UserManagement />
+              </ProtectedRoute>
+            }
+          />
           <Route path="/" element={<Navigate to="/dashboard" replace />} />
           <Route path="*" element={<Navigate to="/dashboard" replace />} />
         </Routes>
@@ -0,0 +1,105 @@
+import { ApiError, isRecord, request, send } from './client';
+import { AuthUser } from './types';
+import { isPermission, isRole } from '../lib/permissions';
+
+// Applies to resets and to passwords admins set for new users
+export const MIN_PASSWORD_LENGTH = 8;
+
+export interface Credentials {
+  email: string;
+  password: string;
+  // Lets the backend issue a longer-lived refresh token
+  rememberMe?: boolean;
+}
+
+export interface AuthTokens {
+  token: string;
+  // Only issued by backends that support POST /auth/refresh
+  refreshToken: string | null;
+  user: AuthUser | null;
+}
+
+// The password was right but a second factor is needed; `mfaToken` stands in
+// for the password when the code is submitted
+export interface MfaChallenge {
+  mfaToken: string;
+}
+
+export type LoginResult = ({ mfaRequired: false } & AuthTokens) | ({ mfaRequired: true } & MfaChallenge);
+
+export const authKeys = {
+  me: ['auth', 'me'] as const,
+};
+
+/**
+ * Normalises a user as the login response, GET /auth/me or the token's claims
+ * describe it: the id may come as `id`, `_id` or `sub`, and roles as a
+ * `roles` array or a single `role`. Unknown roles and permissions are dropped,
+ * so a user nobody gave a role ends up with no more than a viewer.
+ */
+export function toAuthUser(value: unknown): AuthUser | null {
+  if (!isRecord(value)) return null;
+  const id = value.id ?? value._id ?? value.sub;
+  if (typeof id !== 'string' || typeof value.email !== 'string') return null;
+
+  const roles = Array.isArray(value.roles) ? value.roles : [value.role];
+  const permissions = Array.isArray(value.permissions) ? value.permissions : [];
+  return {
+    id,
+    email: value.email,
+    name: typeof value.name === 'string' ? value.name : undefined,
+    roles: roles.filter(isRole),
+    permissions: permissions.filter(isPermission),
+  };
+}
+
+// Responses here aren't always enveloped; look inside `data` when they are
+const unwrap = (body: unknown) => (isRecord(body) && isRecord(body.data) ? body.data : body);
+
+const toTokens = (body: unknown): AuthTokens => {
+  const source = unwrap(body);
+  const token = isRecord(source) ? source.access_token ?? source.token : undefined;
+  if (typeof token !== 'string' || !token) {
+    throw new ApiError('invalid_response', { details: body });
+  }
+  const refreshToken = isRecord(source) ? source.refresh_token ?? source.refreshToken : undefined;
+  return {
+    token,
+    refreshToken: typeof refreshToken === 'string' && refreshToken ? refreshToken : null,
+    user: isRecord(source) ? toAuthUser(source.user) : null,
+  };
+};
+
+export async function login(credentials: Credentials): Promise<LoginResult> {
+  const body = await request({ method: 'post', url: '/auth/login', data: credentials });
+
+  const source = unwrap(body);
+  if (isRecord(source) && (source.mfa_required === true || source.mfaRequired === true)) {
+    const mfaToken = source.mfa_token ?? source.mfaToken;
+    if (typeof mfaToken !== 'string' || !mfaToken) throw new ApiError('invalid_response', { details: body });
+    return { mfaRequired: true, mfaToken };
+  }
+  return { mfaRequired: false, ...toTokens(body) };
+}
+
+export async function verifyMfa(mfaToken: string, code: string): Promise<AuthTokens> {
+  return toTokens(await request({ method: 'post', url: '/auth/mfa/verify', data: { mfaToken, code } }));
+}
+
+// Answers the same whether or not the email has an account
+export async function requestPasswordReset(email: string): Promise<void> {
+  await send({ method: 'post', url: '/auth/forgot-password', data: { email } });
+}
+
+export async function resetPassword(token: string, password: string): Promise<void> {
+  await send({ method: 'post', url: '/auth/reset-password', data: { token, password } });
+}
+
+export async function getCurrentUser(): Promise<AuthUser> {
+  const body = await request({ method: 'get', url: '/auth/me' });
+  const source = unwrap(body);
+  // Accept `{ user }` as well as the user itself
+  const user = toAuthUser(isRecord(source) && isRecord(source.user) ? source.user : source);
+  if (!user) throw new ApiError('invalid_response', { details: body });
+  return user;
+}
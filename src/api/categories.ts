@@ -0,0 +1,103 @@
+import { ApiError, isRecord, parseEnvelope, request, send } from './client';
+import { invalidateQueries, setQueryData } from './queryCache';
+import { imageKeys } from './images';
+import { Category, CategoryCover } from './types';
+import { CategoryPlacement, applyPlacements, slugify } from '../lib/categoryTree';
+
+export const categoryKeys = {
+  all: ['categories'] as const,
+};
+
+export interface CategoryInput {
+  name: string;
+  slug: string;
+  description: string;
+  parent: string | null;
+  // Image id; null clears it
+  coverImage?: string | null;
+}
+
+const toCover = (value: unknown): CategoryCover | null =>
+  isRecord(value) && typeof value._id === 'string' && typeof value.imageUrl === 'string'
+    ? {
+        _id: value._id,
+        imageUrl: value.imageUrl,
+        publicId: typeof value.publicId === 'string' ? value.publicId : '',
+        width: typeof value.width === 'number' ? value.width : undefined,
+      }
+    : null;
+
+/**
+ * Fills in what older backends don't send: no parent, the slug derived from
+ * the name, and the response's own order. `parent` may come populated, and
+ * an unpopulated cover (just an id) has nothing to show, so it counts as none.
+ */
+const toCategory = (value: unknown, index: number): Category | null => {
+  if (!isRecord(value) || typeof value._id !== 'string' || typeof value.name !== 'string') return null;
+  const parent = isRecord(value.parent) ? value.parent._id : value.parent;
+  return {
+    _id: value._id,
+    name: value.name,
+    slug: typeof value.slug === 'string' && value.slug ? value.slug : slugify(value.name),
+    description: typeof value.description === 'string' ? value.description : '',
+    parent: typeof parent === 'string' && parent ? parent : null,
+    order: typeof value.order === 'number' ? value.order : index,
+    coverImage: toCover(value.coverImage),
+    imageCount: typeof value.imageCount === 'number' ? value.imageCount : null,
+  };
+};
+
+export async function listCategories(): Promise<Category[]> {
+  const body = await request({ method: 'get', url: '/categories' });
+  // Some deployments still return the bare array
+  const data = Array.isArray(body) ? body : parseEnvelope(body).data;
+  const categories = Array.isArray(data) ? data.map(toCategory) : [null];
+  if (categories.some((cat) => cat === null)) throw new ApiError('invalid_response', { details: data });
+  return categories as Category[];
+}
+
+// New categories go last among their siblings
+export async function createCategory(input: CategoryInput & { order: number }): Promise<void> {
+  await send({ method: 'post', url: '/categories', data: input });
+  invalidateQueries(categoryKeys.all);
+}
+
+// Images embed their category's name, so edits and deletes reach them too
+export async function updateCategory(id: string, changes: Partial<CategoryInput>): Promise<void> {
+  await send({ method: 'put', url: `/categories/${id}`, data: changes });
+  invalidateQueries(categoryKeys.all);
+  invalidateQueries(imageKeys.all);
+}
+
+/**
+ * Saves drag-and-drop moves in one request. The tree updates straight away
+ * and is refetched either way, so a rejected move snaps back.
+ */
+export async function moveCategories(placements: CategoryPlacement[]): Promise<void> {
+  setQueryData<Category[]>(categoryKeys.all, (current) => current && applyPlacements(current, placements));
+  try {
+    await send({ method: 'put', url: '/categories/order', data: { items: placements } });
+  } finally {
+    invalidateQueries(categoryKeys.all);
+  }
+}
+
+// What happens to a deleted category's images. The backend refuses to delete
+// a category that still has images unless told one or the other.
+export type CategoryImageDisposition = { reassignTo: string } | { deleteImages: true };
+
+// Empty categories need no disposition
+export async function deleteCategory(id: string, disposition?: CategoryImageDisposition): Promise<void> {
+  const params =
+    disposition && ('reassignTo' in disposition ? { reassignTo: disposition.reassignTo } : { deleteImages: 'true' });
+  await send({ method: 'delete', url: `/categories/${id}`, params });
+  invalidateQueries(categoryKeys.all);
+  invalidateQueries(imageKeys.all);
+}
+
+// Moves `id`'s images and sub-categories into `into`, then deletes `id`
+export async function mergeCategory(id: string, into: string): Promise<void> {
+  await send({ method: 'post', url: `/categories/${id}/merge`, data: { into } });
+  invalidateQueries(categoryKeys.all);
+  invalidateQueries(imageKeys.all);
+}
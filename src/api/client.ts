@@ -0,0 +1,175 @@
+import axios, { AxiosRequestConfig } from 'axios';
+import axiosInstance from '../lib/axios';
+import { ApiEnvelope, Page, Pagination } from './types';
+
+export type ApiErrorKind = 'http' | 'network' | 'cancelled' | 'invalid_response' | 'unknown';
+
+const DEFAULT_MESSAGES: Record<ApiErrorKind, string> = {
+  http: 'The server could not complete the request',
+  network: 'Could not reach the server. Check your connection and try again.',
+  cancelled: 'The request was cancelled',
+  invalid_response: 'Unexpected response from server',
+  unknown: 'Something went wrong',
+};
+
+interface ApiErrorInit {
+  message?: string;
+  status?: number;
+  retryAfter?: number;
+  details?: unknown;
+}
+
+/**
+ * The one error type the API layer throws. `kind` says what went wrong;
+ * `message` is the backend's own wording when it sent one and a generic
+ * description otherwise, so it is always fit to show.
+ */
+export class ApiError extends Error {
+  readonly kind: ApiErrorKind;
+  readonly status?: number;
+  // Seconds to wait before trying again, from a 429 or lockout response
+  readonly retryAfter?: number;
+  // Whether `message` came from the backend rather than DEFAULT_MESSAGES
+  readonly fromServer: boolean;
+  // Raw response body or underlying error, for logging
+  readonly details?: unknown;
+
+  constructor(kind: ApiErrorKind, { message, status, retryAfter, details }: ApiErrorInit = {}) {
+    super(message || DEFAULT_MESSAGES[kind]);
+    this.name = 'ApiError';
+    this.kind = kind;
+    this.status = status;
+    this.retryAfter = retryAfter;
+    this.fromServer = !!message;
+    this.details = details;
+  }
+}
+
+// ---------------------------
+// Validation Helpers
+// ---------------------------
+export const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+export type Guard<T> = (value: unknown) => value is T;
+
+const isOptional = (value: unknown, type: 'string' | 'number' | 'boolean') =>
+  value === undefined || value === null || typeof value === type;
+
+const isPagination = (value: unknown): value is Pagination =>
+  isRecord(value) &&
+  typeof value.currentPage === 'number' &&
+  typeof value.totalPages === 'number' &&
+  typeof value.totalRecords === 'number' &&
+  typeof value.limit === 'number' &&
+  typeof value.hasNextPage === 'boolean';
+
+// Nest sends validation failures as a list of messages
+const messageOf = (body: unknown): string | undefined => {
+  if (!isRecord(body)) return undefined;
+  const { message } = body;
+  if (typeof message === 'string') return message;
+  if (Array.isArray(message) && message.every((m) => typeof m === 'string')) return message.join('. ');
+  return undefined;
+};
+
+const invalid = (details: unknown) => new ApiError('invalid_response', { details });
+
+// Retry-After is either delay-seconds or an HTTP date; some backends put a
+// `retryAfter` in seconds in the body instead
+const retryAfterOf = (header: unknown, body: unknown): number | undefined => {
+  const value = header ?? (isRecord(body) ? body.retryAfter : undefined);
+  if (typeof value === 'number') return value > 0 ? Math.ceil(value) : undefined;
+  if (typeof value !== 'string' || !value.trim()) return undefined;
+  const seconds = /^\d+$/.test(value.trim()) ? Number(value) : (Date.parse(value) - Date.now()) / 1000;
+  return Number.isFinite(seconds) && seconds > 0 ? Math.ceil(seconds) : undefined;
+};
+
+export function toApiError(err: unknown): ApiError {
+  if (err instanceof ApiError) return err;
+  if (axios.isCancel(err)) return new ApiError('cancelled', { details: err });
+  if (axios.isAxiosError(err)) {
+    if (!err.response) return new ApiError('network', { details: err });
+    const body = err.response.data;
+    return new ApiError('http', {
+      status: err.response.status,
+      message: messageOf(body),
+      retryAfter: retryAfterOf(err.response.headers?.['retry-after'], body),
+      details: body,
+    });
+  }
+  return new ApiError('unknown', { details: err });
+}
+
+// ---------------------------
+// Requests
+// ---------------------------
+// Raw response body; every failure comes out as an ApiError
+export async function request(config: AxiosRequestConfig): Promise<unknown> {
+  try {
+    const response = await axiosInstance.request(config);
+    return response.data;
+  } catch (err: unknown) {
+    throw toApiError(err);
+  }
+}
+
+/**
+ * Checks the `{ success, status, message, data, pagination }` wrapper. A body
+ * with `success: false` is a failure even on a 2xx status.
+ */
+export function parseEnvelope(body: unknown): ApiEnvelope<unknown> {
+  if (
+    !isRecord(body) ||
+    !isOptional(body.success, 'boolean') ||
+    !isOptional(body.status, 'number')
+  ) {
+    throw invalid(body);
+  }
+  if (body.success === false) {
+    throw new ApiError('http', {
+      status: typeof body.status === 'number' ? body.status : undefined,
+      message: messageOf(body),
+      details: body,
+    });
+  }
+  if (!('data' in body) || (body.pagination != null && !isPagination(body.pagination))) {
+    throw invalid(body);
+  }
+  return body as unknown as ApiEnvelope<unknown>;
+}
+
+export function expectItem<T>(value: unknown, guard: Guard<T>): T {
+  if (!guard(value)) throw invalid(value);
+  return value;
+}
+
+export function expectList<T>(value: unknown, guard: Guard<T>): T[] {
+  if (!Array.isArray(value) || !value.every(guard)) throw invalid(value);
+  return value;
+}
+
+export async function getItem<T>(url: string, guard: Guard<T>, params?: object): Promise<T> {
+  const { data } = parseEnvelope(await request({ method: 'get', url, params }));
+  return expectItem(data, guard);
+}
+
+export async function getPage<T>(url: string, guard: Guard<T>, params?: object): Promise<Page<T>> {
+  const { data, pagination } = parseEnvelope(await request({ method: 'get', url, params }));
+  return { items: expectList(data, guard), pagination: pagination ?? null };
+}
+
+// For writes whose response the caller doesn't need: only `success: false`
+// bodies are rejected, so an empty 204 is fine too.
+export async function send(config: AxiosRequestConfig): Promise<void> {
+  const body = await request(config);
+  if (isRecord(body) && body.success === false) parseEnvelope(body);
+}
+
+// ---------------------------
+// Guards Shared by the Endpoint Modules
+// ---------------------------
+export const hasStringFields =
+  <T>(...fields: string[]): Guard<T> =>
+  (value: unknown): value is T =>
+    isRecord(value) && fields.every((field) => typeof value[field] === 'string');
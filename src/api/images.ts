@@ -0,0 +1,107 @@
+import { Guard, getItem, getPage, hasStringFields, parseEnvelope, send, toApiError } from './client';
+import { invalidateQueries } from './queryCache';
+import { Image, Page } from './types';
+import { EditMetadata } from '../lib/imageEdits';
+import { HashedImage } from '../lib/imageHashing';
+import { Orientation } from '../lib/wallpaperProfiles';
+import { PaletteColor } from '../lib/colorPalette';
+import { UploadOptions, uploadFormData } from '../lib/uploadClient';
+
+export interface ImageListParams {
+  page?: number;
+  limit?: number;
+  // Category IDs; an image in any of them matches
+  category?: string[];
+  // An image must carry all of them
+  tags?: string[];
+  // "rrggbb"; matches images with a palette colour near it
+  color?: string;
+  search?: string;
+  sortBy?: 'createdAt' | 'title' | 'downloads';
+  order?: 'asc' | 'desc';
+  // YYYY-MM-DD, both inclusive
+  from?: string;
+  to?: string;
+  orientation?: Orientation;
+  minLongEdge?: number;
+  minShortEdge?: number;
+}
+
+export interface ImageUpdate extends EditMetadata {
+  title?: string;
+  // Category ID
+  category?: string;
+  tags?: string[];
+  description?: string;
+  palette?: PaletteColor[];
+}
+
+const isImage: Guard<Image> = hasStringFields<Image>('_id', 'title', 'imageUrl');
+const isHashedImage: Guard<HashedImage> = hasStringFields<HashedImage>('_id', 'title', 'imageUrl');
+
+// Drops unset filters so the backend applies its defaults. Keys are sorted
+// because this doubles as the cache key, where equivalent params must match.
+const toQuery = ({ category, tags, ...rest }: ImageListParams) => {
+  const query: Record<string, string> = {};
+  if (category && category.length > 0) query.category = category.join(',');
+  if (tags && tags.length > 0) query.tags = tags.join(',');
+  Object.entries(rest).forEach(([key, value]) => {
+    if (value !== undefined && value !== '') query[key] = String(value);
+  });
+  return Object.fromEntries(Object.entries(query).sort(([a], [b]) => a.localeCompare(b)));
+};
+
+// Cache keys for image reads. Writes invalidate `all`, which covers lists,
+// single images, fingerprints and tag counts alike.
+export const imageKeys = {
+  all: ['images'] as const,
+  list: (params: ImageListParams) => ['images', 'list', toQuery(params)] as const,
+  detail: (id: string) => ['images', 'detail', id] as const,
+  hashes: ['images', 'hashes'] as const,
+};
+
+export const listImages = (params: ImageListParams = {}): Promise<Page<Image>> =>
+  getPage('/images', isImage, toQuery(params));
+
+export const getImage = (id: string): Promise<Image> => getItem(`/images/${id}`, isImage);
+
+// Unpaginated fingerprints of every image, for duplicate detection
+export const listImageHashes = async (): Promise<HashedImage[]> =>
+  (await getPage('/images/hashes', isHashedImage)).items;
+
+export async function updateImage(id: string, changes: ImageUpdate): Promise<void> {
+  await send({ method: 'patch', url: `/images/${id}`, data: changes });
+  invalidateQueries(imageKeys.all);
+}
+
+export async function deleteImage(id: string): Promise<void> {
+  await send({ method: 'delete', url: `/images/${id}` });
+  invalidateQueries(imageKeys.all);
+}
+
+/**
+ * Counts a view or download towards the dashboard statistics. Files come
+ * straight from the CDN, so the backend only hears about them this way.
+ * Best effort: a lost event isn't worth an error, or a refetch of every list.
+ */
+export function recordImageEvent(id: string, type: 'view' | 'download'): void {
+  send({ method: 'post', url: `/images/${id}/events`, data: { type } }).catch((err: unknown) => {
+    console.error('Record image event error:', err);
+  });
+}
+
+/**
+ * Multipart upload with progress and transient-failure retries (see
+ * uploadFormData). Cancelling via `signal` rejects with a `cancelled` ApiError.
+ */
+export async function uploadImage(formData: FormData, options?: UploadOptions): Promise<void> {
+  let body: unknown;
+  try {
+    body = await uploadFormData('/images/upload', formData, options);
+  } catch (err: unknown) {
+    throw toApiError(err);
+  }
+  // Older backends answer with the bare image instead of an envelope
+  if (body && typeof body === 'object' && 'success' in body) parseEnvelope(body);
+  invalidateQueries(imageKeys.all);
+}
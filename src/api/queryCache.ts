@@ -0,0 +1,226 @@
+// Client-side cache for API reads. Entries are keyed by an array such as
+// ['images', 'list', params]; identical keys share one entry, one in-flight
+// request and one set of subscribers.
+
+export type QueryKey = readonly unknown[];
+
+export interface QueryOptions {
+  // How long data counts as fresh, in ms. Fresh data is served without a request.
+  staleTime?: number;
+}
+
+export interface QueryState<T> {
+  data?: T;
+  error?: unknown;
+  isFetching: boolean;
+  // Date.now() of the last successful fetch, 0 if never
+  updatedAt: number;
+}
+
+interface QueryEntry<T> {
+  key: QueryKey;
+  state: QueryState<T>;
+  staleTime: number;
+  invalidated: boolean;
+  // Logical time of the last invalidation, compared with request start times
+  invalidatedAt: number;
+  promise?: Promise<T>;
+  startedAt: number;
+  fetcher?: () => Promise<T>;
+  listeners: Set<() => void>;
+  lastUsed: number;
+}
+
+export const DEFAULT_STALE_TIME = 30 * 1000;
+// Unused entries are dropped after this long
+const GC_TIME = 5 * 60 * 1000;
+// Focus events closer together than this trigger one refetch
+const FOCUS_THROTTLE_MS = 5 * 1000;
+
+const entries = new Map<string, QueryEntry<unknown>>();
+let clock = 0;
+
+const hashKey = (key: QueryKey) => JSON.stringify(key);
+const noop = () => {};
+
+const matchesPrefix = (key: QueryKey, prefix: QueryKey) =>
+  prefix.every((part, i) => hashKey([part]) === hashKey([key[i]]));
+
+const collectGarbage = () => {
+  const cutoff = Date.now() - GC_TIME;
+  entries.forEach((entry, hash) => {
+    if (entry.listeners.size === 0 && !entry.promise && entry.lastUsed < cutoff) {
+      entries.delete(hash);
+    }
+  });
+};
+
+function getEntry<T>(key: QueryKey): QueryEntry<T> {
+  const hash = hashKey(key);
+  let entry = entries.get(hash) as QueryEntry<T> | undefined;
+  if (!entry) {
+    collectGarbage();
+    entry = {
+      key,
+      state: { isFetching: false, updatedAt: 0 },
+      staleTime: DEFAULT_STALE_TIME,
+      invalidated: false,
+      invalidatedAt: 0,
+      startedAt: 0,
+      listeners: new Set(),
+      lastUsed: Date.now(),
+    };
+    entries.set(hash, entry as QueryEntry<unknown>);
+  }
+  entry.lastUsed = Date.now();
+  return entry;
+}
+
+// State objects are replaced, never mutated, so subscribers can compare by identity
+const setState = <T>(entry: QueryEntry<T>, patch: Partial<QueryState<T>>) => {
+  entry.state = { ...entry.state, ...patch };
+  entry.listeners.forEach((listener) => listener());
+};
+
+const isStale = <T>(entry: QueryEntry<T>) =>
+  entry.state.updatedAt === 0 || entry.invalidated || Date.now() - entry.state.updatedAt > entry.staleTime;
+
+function runFetch<T>(entry: QueryEntry<T>): Promise<T> {
+  // Share the request in flight, unless it started before an invalidation
+  if (entry.promise && entry.startedAt > entry.invalidatedAt) return entry.promise;
+  if (!entry.fetcher) return Promise.reject(new Error('No fetcher registered for this query'));
+
+  const startedAt = ++clock;
+  const promise = entry.fetcher().then(
+    (data) => {
+      // A newer request for the same key owns the entry now
+      if (entry.promise === promise) {
+        entry.invalidated = entry.invalidatedAt > startedAt;
+        setState(entry, { data, error: undefined, updatedAt: Date.now() });
+      }
+      return data;
+    },
+    (error: unknown) => {
+      if (entry.promise === promise) setState(entry, { error });
+      throw error;
+    }
+  );
+  entry.promise = promise;
+  entry.startedAt = startedAt;
+  setState(entry, { isFetching: true });
+
+  const settle = () => {
+    if (entry.promise !== promise) return;
+    entry.promise = undefined;
+    setState(entry, { isFetching: false });
+  };
+  promise.then(settle, settle);
+  return promise;
+}
+
+/**
+ * Resolves with cached data while it is fresh; otherwise fetches, sharing
+ * any identical request already in flight.
+ */
+export function fetchQuery<T>(key: QueryKey, fetcher: () => Promise<T>, { staleTime }: QueryOptions = {}): Promise<T> {
+  const entry = getEntry<T>(key);
+  entry.fetcher = fetcher;
+  if (staleTime !== undefined) entry.staleTime = staleTime;
+  if (entry.state.data !== undefined && !isStale(entry)) {
+    return Promise.resolve(entry.state.data);
+  }
+  return runFetch(entry);
+}
+
+// Warms the cache; failures are left for whoever reads the key for real
+export function prefetchQuery<T>(key: QueryKey, fetcher: () => Promise<T>, options?: QueryOptions) {
+  fetchQuery(key, fetcher, options).catch(noop);
+}
+
+export function getQueryState<T>(key: QueryKey): QueryState<T> {
+  return getEntry<T>(key).state;
+}
+
+export function isQueryStale(key: QueryKey): boolean {
+  const entry = entries.get(hashKey(key));
+  return !entry || isStale(entry);
+}
+
+export function subscribeQuery(key: QueryKey, listener: () => void): () => void {
+  const entry = getEntry(key);
+  entry.listeners.add(listener);
+  return () => {
+    entry.listeners.delete(listener);
+    entry.lastUsed = Date.now();
+  };
+}
+
+// Forces a request even if the data is fresh
+export function refetchQuery<T>(key: QueryKey): Promise<T> {
+  const entry = getEntry<T>(key);
+  entry.invalidated = true;
+  entry.invalidatedAt = ++clock;
+  return runFetch(entry);
+}
+
+// For optimistic updates; the next fetch replaces whatever is written here
+export function setQueryData<T>(key: QueryKey, updater: (current: T | undefined) => T | undefined) {
+  const entry = getEntry<T>(key);
+  setState(entry, { data: updater(entry.state.data) });
+}
+
+/**
+ * Marks every entry under `prefix` as stale after a write. Entries someone is
+ * watching refetch straight away; the rest keep their data to show while the
+ * next read revalidates.
+ */
+export function invalidateQueries(prefix: QueryKey) {
+  entries.forEach((entry) => {
+    if (!matchesPrefix(entry.key, prefix)) return;
+    entry.invalidated = true;
+    entry.invalidatedAt = ++clock;
+    if (entry.listeners.size > 0 && entry.fetcher) runFetch(entry).catch(noop);
+  });
+}
+
+// Forgets all cached data, e.g. when the user signs out. Entries still
+// watched are emptied rather than dropped so their subscribers stay attached.
+export function clearQueries() {
+  entries.forEach((entry, hash) => {
+    if (entry.listeners.size === 0) {
+      entries.delete(hash);
+      return;
+    }
+    entry.invalidated = true;
+    entry.invalidatedAt = ++clock;
+    setState(entry, { data: undefined, error: undefined, updatedAt: 0 });
+  });
+}
+
+// ---------------------------
+// Refetch on Window Focus
+// ---------------------------
+const focusListeners = new Set<() => void>();
+let lastFocusAt = 0;
+
+// Calls `listener` when the tab regains focus; returns an unsubscribe function
+export function onWindowFocus(listener: () => void): () => void {
+  focusListeners.add(listener);
+  return () => {
+    focusListeners.delete(listener);
+  };
+}
+
+const handleFocus = () => {
+  if (document.visibilityState !== 'visible' || Date.now() - lastFocusAt < FOCUS_THROTTLE_MS) return;
+  lastFocusAt = Date.now();
+  entries.forEach((entry) => {
+    if (entry.listeners.size > 0 && entry.fetcher && isStale(entry)) runFetch(entry).catch(noop);
+  });
+  focusListeners.forEach((listener) => listener());
+};
+
+if (typeof window !== 'undefined') {
+  window.addEventListener('focus', handleFocus);
+  document.addEventListener('visibilitychange', handleFocus);
+}
@@ -0,0 +1,102 @@
+import { ApiError, isRecord, parseEnvelope, request } from './client';
+import {
+  ActivityEntry,
+  ActivityType,
+  CategoryShare,
+  GalleryStats,
+  PopularImage,
+  StatsInterval,
+  UploadBucket,
+} from './types';
+
+export interface StatsParams {
+  // YYYY-MM-DD, both inclusive
+  from: string;
+  to: string;
+  interval: StatsInterval;
+}
+
+// Stats sit under the image keys so any image write refreshes them as well
+export const statsKeys = {
+  all: ['images', 'stats'] as const,
+  range: ({ from, to, interval }: StatsParams) => ['images', 'stats', from, to, interval] as const,
+};
+
+const ACTIVITY_TYPES: ActivityType[] = ['upload', 'update', 'delete', 'download'];
+
+const count = (value: unknown) => (typeof value === 'number' && Number.isFinite(value) ? value : 0);
+
+const toUploadBucket = (value: unknown): UploadBucket | null =>
+  isRecord(value) && typeof value.date === 'string'
+    ? { date: value.date.slice(0, 10), count: count(value.count), bytes: count(value.bytes) }
+    : null;
+
+const toCategoryShare = (value: unknown): CategoryShare | null =>
+  isRecord(value) && (typeof value._id === 'string' || value._id == null)
+    ? {
+        _id: typeof value._id === 'string' ? value._id : null,
+        name: typeof value.name === 'string' && value.name ? value.name : 'Uncategorized',
+        count: count(value.count),
+        bytes: count(value.bytes),
+      }
+    : null;
+
+const toPopularImage = (value: unknown): PopularImage | null =>
+  isRecord(value) &&
+  typeof value._id === 'string' &&
+  typeof value.title === 'string' &&
+  typeof value.imageUrl === 'string'
+    ? {
+        _id: value._id,
+        title: value.title,
+        imageUrl: value.imageUrl,
+        publicId: typeof value.publicId === 'string' ? value.publicId : undefined,
+        width: typeof value.width === 'number' ? value.width : undefined,
+        downloads: count(value.downloads),
+        views: count(value.views),
+      }
+    : null;
+
+const toActivityEntry = (value: unknown): ActivityEntry | null => {
+  if (!isRecord(value) || typeof value.at !== 'string') return null;
+  const type = ACTIVITY_TYPES.find((known) => known === value.type);
+  if (!type) return null;
+  const { image, user } = value;
+  return {
+    type,
+    at: value.at,
+    image:
+      isRecord(image) && typeof image._id === 'string' && typeof image.title === 'string'
+        ? { _id: image._id, title: image.title }
+        : null,
+    userName: isRecord(user) && typeof user.name === 'string' ? user.name : null,
+  };
+};
+
+// Missing lists are empty; a list with a malformed entry is an invalid response
+function listOf<T>(value: unknown, toItem: (item: unknown) => T | null, body: unknown): T[] {
+  if (value == null) return [];
+  const items = Array.isArray(value) ? value.map(toItem) : [null];
+  if (items.some((item) => item === null)) throw new ApiError('invalid_response', { details: body });
+  return items as T[];
+}
+
+export async function getStats(params: StatsParams): Promise<GalleryStats> {
+  const { data } = parseEnvelope(await request({ method: 'get', url: '/stats', params }));
+  if (!isRecord(data) || typeof data.totalImages !== 'number') {
+    throw new ApiError('invalid_response', { details: data });
+  }
+
+  return {
+    totalImages: data.totalImages,
+    totalBytes: count(data.totalBytes),
+    uploads: listOf(data.uploads, toUploadBucket, data),
+    categories: listOf(data.categories, toCategoryShare, data).sort((a, b) => b.count - a.count),
+    downloads: count(data.downloads),
+    views: count(data.views),
+    topDownloaded: listOf(data.topDownloaded, toPopularImage, data),
+    topViewed: listOf(data.topViewed, toPopularImage, data),
+    // Entries of types this client doesn't know yet are skipped, not fatal
+    activity: (Array.isArray(data.activity) ? data.activity : []).flatMap((entry) => toActivityEntry(entry) ?? []),
+  };
+}
@@ -0,0 +1,42 @@
+import { ApiError, isRecord, parseEnvelope, request, send } from './client';
+import { invalidateQueries } from './queryCache';
+import { imageKeys } from './images';
+import { TagUsage } from './types';
+import { normalizeTag } from '../lib/tags';
+
+// Usage counts come from the images, so tags sit under the image keys and
+// every image write (upload, edit, delete) refreshes them too
+export const tagKeys = {
+  all: ['images', 'tags'] as const,
+};
+
+const toTagUsage = (value: unknown): TagUsage | null =>
+  isRecord(value) && typeof value.name === 'string'
+    ? { name: normalizeTag(value.name), count: typeof value.count === 'number' ? value.count : 0 }
+    : null;
+
+// Most used first, which is also the order suggestions are offered in
+export async function listTags(): Promise<TagUsage[]> {
+  const { data } = parseEnvelope(await request({ method: 'get', url: '/tags' }));
+  const tags = Array.isArray(data) ? data.map(toTagUsage) : [null];
+  if (tags.some((tag) => tag === null)) throw new ApiError('invalid_response', { details: data });
+  return (tags as TagUsage[]).sort((a, b) => b.count - a.count || a.name.localeCompare(b.name));
+}
+
+// Renaming onto a tag that already exists merges the two
+export async function renameTag(name: string, newName: string): Promise<void> {
+  await send({ method: 'put', url: `/tags/${encodeURIComponent(name)}`, data: { name: normalizeTag(newName) } });
+  invalidateQueries(imageKeys.all);
+}
+
+// Replaces each of `tags` with `into` on every image that has it
+export async function mergeTags(tags: string[], into: string): Promise<void> {
+  await send({ method: 'post', url: '/tags/merge', data: { tags, into: normalizeTag(into) } });
+  invalidateQueries(imageKeys.all);
+}
+
+// Removes the tag from every image; the images themselves stay
+export async function deleteTag(name: string): Promise<void> {
+  await send({ method: 'delete', url: `/tags/${encodeURIComponent(name)}` });
+  invalidateQueries(imageKeys.all);
+}
@@ -0,0 +1,169 @@
+import { EditMetadata } from '../lib/imageEdits';
+import { Orientation } from '../lib/wallpaperProfiles';
+import { PaletteColor } from '../lib/colorPalette';
+
+// ---------------------------
+// Domain Types
+// ---------------------------
+// The image shown on a category's card, picked from its own images
+export interface CategoryCover {
+  _id: string;
+  imageUrl: string;
+  publicId: string;
+  width?: number;
+}
+
+export interface Category {
+  _id: string;
+  name: string;
+  // URL-safe and unique, e.g. "snowy-mountains"
+  slug: string;
+  description: string;
+  // Null for top-level categories
+  parent: string | null;
+  // Position among its siblings
+  order: number;
+  coverImage: CategoryCover | null;
+  // Images filed directly under this category; null if the backend didn't say
+  imageCount: number | null;
+}
+
+// How images embed the category they belong to
+export type CategoryRef = Pick<Category, '_id' | 'name'>;
+
+export interface Image extends EditMetadata {
+  _id: string;
+  title: string;
+  category: CategoryRef;
+  imageUrl: string;
+  publicId: string;
+  width?: number;
+  height?: number;
+  orientation?: Orientation;
+  tags?: string[];
+  // Dominant colours, most dominant first; missing on images not yet backfilled
+  palette?: PaletteColor[];
+  description?: string;
+  downloads?: number;
+  bytes?: number;
+  createdAt?: string;
+}
+
+// A tag and how many images carry it
+export interface TagUsage {
+  name: string;
+  count: number;
+}
+
+export type Role = 'viewer' | 'editor' | 'admin';
+
+export type Permission =
+  | 'images:upload'
+  | 'images:edit'
+  | 'images:delete'
+  | 'categories:edit'
+  | 'categories:delete'
+  | 'tags:manage'
+  | 'users:manage';
+
+export interface AuthUser {
+  id: string;
+  email: string;
+  name?: string;
+  roles: Role[];
+  // Granted to this user directly, on top of what their roles allow
+  permissions: Permission[];
+}
+
+export type UserStatus = 'active' | 'invited' | 'disabled';
+
+// An account as admins manage it, as opposed to the signed-in AuthUser
+export interface User {
+  _id: string;
+  email: string;
+  name?: string;
+  roles: Role[];
+  status: UserStatus;
+  createdAt?: string;
+  // Null until the first sign-in
+  lastLoginAt: string | null;
+}
+
+// ---------------------------
+// Statistics
+// ---------------------------
+export type StatsInterval = 'day' | 'week';
+
+// One bar of the uploads chart; `date` is the first day of the bucket
+export interface UploadBucket {
+  date: string;
+  count: number;
+  bytes: number;
+}
+
+export interface CategoryShare {
+  // Null for images without a (surviving) category
+  _id: string | null;
+  name: string;
+  count: number;
+  bytes: number;
+}
+
+export interface PopularImage extends Pick<Image, '_id' | 'title' | 'imageUrl' | 'width'> {
+  publicId?: string;
+  downloads: number;
+  views: number;
+}
+
+export type ActivityType = 'upload' | 'update' | 'delete' | 'download';
+
+export interface ActivityEntry {
+  type: ActivityType;
+  at: string;
+  // Title as of the event, so deletions still read sensibly; null if unknown
+  image: { _id: string; title: string } | null;
+  userName: string | null;
+}
+
+export interface GalleryStats {
+  // The whole library, whatever the range
+  totalImages: number;
+  totalBytes: number;
+  // Within the requested range
+  uploads: UploadBucket[];
+  categories: CategoryShare[];
+  downloads: number;
+  views: number;
+  topDownloaded: PopularImage[];
+  topViewed: PopularImage[];
+  activity: ActivityEntry[];
+}
+
+// ---------------------------
+// Responses
+// ---------------------------
+export interface Pagination {
+  currentPage: number;
+  totalPages: number;
+  totalRecords: number;
+  limit: number;
+  hasNextPage: boolean;
+  hasPrevPage: boolean;
+  nextPage: number | null;
+  prevPage: number | null;
+}
+
+// Every JSON response except login is wrapped in this
+export interface ApiEnvelope<T> {
+  success?: boolean;
+  status?: number;
+  message?: string;
+  data: T;
+  pagination?: Pagination | null;
+}
+
+export interface Page<T> {
+  items: T[];
+  // Null when the endpoint returned everything in one go
+  pagination: Pagination | null;
+}
@@ -0,0 +1,71 @@
+import { ApiError, isRecord, parseEnvelope, request, send } from './client';
+import { invalidateQueries } from './queryCache';
+import { Role, User, UserStatus } from './types';
+import { isRole } from '../lib/permissions';
+
+export const userKeys = {
+  all: ['users'] as const,
+};
+
+export interface UserInvite {
+  email: string;
+  name?: string;
+  role: Role;
+  // Without one the backend emails an invitation to set it
+  password?: string;
+}
+
+export interface PasswordResetLink {
+  url: string;
+  // ISO date; null when the backend doesn't say
+  expiresAt: string | null;
+}
+
+const USER_STATUSES: readonly UserStatus[] = ['active', 'invited', 'disabled'];
+
+// Roles come as `roles` or `role`, and older records only carry `disabled`
+const toUser = (value: unknown): User | null => {
+  if (!isRecord(value) || typeof value._id !== 'string' || typeof value.email !== 'string') return null;
+  const roles = Array.isArray(value.roles) ? value.roles : [value.role];
+  const status = USER_STATUSES.find((s) => s === value.status) ?? (value.disabled === true ? 'disabled' : 'active');
+  return {
+    _id: value._id,
+    email: value.email,
+    name: typeof value.name === 'string' ? value.name : undefined,
+    roles: roles.filter(isRole),
+    status,
+    createdAt: typeof value.createdAt === 'string' ? value.createdAt : undefined,
+    lastLoginAt: typeof value.lastLoginAt === 'string' ? value.lastLoginAt : null,
+  };
+};
+
+export async function listUsers(): Promise<User[]> {
+  const { data } = parseEnvelope(await request({ method: 'get', url: '/users' }));
+  const users = Array.isArray(data) ? data.map(toUser) : [null];
+  if (users.some((user) => user === null)) throw new ApiError('invalid_response', { details: data });
+  return users as User[];
+}
+
+export async function inviteUser(invite: UserInvite): Promise<void> {
+  await send({ method: 'post', url: '/users', data: invite });
+  invalidateQueries(userKeys.all);
+}
+
+export async function changeUserRole(id: string, role: Role): Promise<void> {
+  await send({ method: 'patch', url: `/users/${id}`, data: { roles: [role] } });
+  invalidateQueries(userKeys.all);
+}
+
+// Disabled users can't sign in, and their refresh tokens stop working
+export async function setUserStatus(id: string, status: 'active' | 'disabled'): Promise<void> {
+  await send({ method: 'patch', url: `/users/${id}`, data: { status } });
+  invalidateQueries(userKeys.all);
+}
+
+// Issues a one-time link for an admin to pass on; earlier links stop working
+export async function createPasswordResetLink(id: string): Promise<PasswordResetLink> {
+  const { data } = parseEnvelope(await request({ method: 'post', url: `/users/${id}/password-reset` }));
+  const url = isRecord(data) ? data.resetUrl ?? data.url : undefined;
+  if (typeof url !== 'string' || !url) throw new ApiError('invalid_response', { details: data });
+  return { url, expiresAt: isRecord(data) && typeof data.expiresAt === 'string' ? data.expiresAt : null };
+}
@@ -0,0 +1,53 @@
+import { Link } from 'react-router-dom';
+import { Upload, Pencil, Trash2, Download, LucideIcon } from 'lucide-react';
+import { ActivityEntry, ActivityType } from '../api/types';
+
+interface ActivityFeedProps {
+  entries: ActivityEntry[];
+}
+
+const ACTIVITY_STYLES: Record<ActivityType, { icon: LucideIcon; verb: string; className: string }> = {
+  upload: { icon: Upload, verb: 'uploaded', className: 'bg-blue-100 text-blue-600' },
+  update: { icon: Pencil, verb: 'edited', className: 'bg-amber-100 text-amber-600' },
+  delete: { icon: Trash2, verb: 'deleted', className: 'bg-red-100 text-red-600' },
+  download: { icon: Download, verb: 'downloaded', className: 'bg-green-100 text-green-600' },
+};
+
+export default function ActivityFeed({ entries }: ActivityFeedProps) {
+  if (entries.length === 0) {
+    return <p className="py-8 text-center text-sm text-gray-500">No activity in this period</p>;
+  }
+
+  return (
+    <ul className="space-y-3">
+      {entries.map((entry, index) => {
+        const { icon: Icon, verb, className } = ACTIVITY_STYLES[entry.type];
+        return (
+          <li key={`${entry.at}-${index}`} className="flex items-start gap-3">
+            <span className={`w-8 h-8 rounded-full flex items-center justify-center flex-shrink-0 ${className}`}>
+              <Icon className="w-4 h-4" />
+            </span>
+            <div className="min-w-0 text-sm">
+              <p className="text-gray-700">
+                <span className="font-medium text-gray-900">{entry.userName ?? 'Someone'}</span> {verb}{' '}
+                {/* Deleted images have nothing left to link to */}
+                {entry.image && entry.type !== 'delete' ? (
+                  <Link
+                    to={`/images/${entry.image._id}`}
+                    state={{ backOnClose: true }}
+                    className="font-medium text-blue-600 hover:underline"
+                  >
+                    {entry.image.title}
+                  </Link>
+                ) : (
+                  <span className="font-medium text-gray-900">{entry.image?.title ?? 'an image'}</span>
+                )}
+              </p>
+              <p className="text-xs text-gray-500">{new Date(entry.at).toLocaleString()}</p>
+            </div>
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
@@ -0,0 +1,86 @@
+export interface BarDatum {
+  label: string;
+  value: number;
+  // Tooltip; defaults to "label: value"
+  title?: string;
+}
+
+interface BarChartProps {
+  data: BarDatum[];
+  // Accessible name for the whole chart
+  label: string;
+  formatValue?: (value: number) => string;
+}
+
+// Drawing units; the SVG scales to its container's width
+const WIDTH = 640;
+const HEIGHT = 220;
+const AXIS_WIDTH = 40;
+const LABEL_HEIGHT = 24;
+const GRID_LINES = 4;
+// More x-axis labels than this overlap, so only every nth bar gets one
+const MAX_LABELS = 8;
+
+// Smallest 1/2/5 × 10^n at or above `value`, so grid lines land on round numbers
+function niceCeiling(value: number): number {
+  if (value <= 0) return 1;
+  const magnitude = 10 ** Math.floor(Math.log10(value));
+  const step = [1, 2, 5, 10].find((candidate) => candidate * magnitude >= value) ?? 10;
+  return step * magnitude;
+}
+
+/**
+ * Vertical bar chart in plain SVG. Intended for a few dozen bars at most;
+ * each bar carries a native tooltip with its exact value.
+ */
+export default function BarChart({ data, label, formatValue = String }: BarChartProps) {
+  const peak = Math.max(0, ...data.map((datum) => datum.value));
+  // Whole-number steps only, so a chart of small counts doesn't show "0.5 uploads"
+  const gridStep = Math.max(1, niceCeiling(peak / GRID_LINES));
+  const max = Math.max(gridStep, Math.ceil(peak / gridStep) * gridStep);
+  const plotHeight = HEIGHT - LABEL_HEIGHT;
+  const slot = (WIDTH - AXIS_WIDTH) / Math.max(data.length, 1);
+  const barWidth = Math.max(slot * 0.7, 1);
+  const labelEvery = Math.ceil(data.length / MAX_LABELS);
+  const y = (value: number) => plotHeight - (value / max) * (plotHeight - 8);
+
+  const gridValues: number[] = [];
+  for (let value = 0; value <= max; value += gridStep) gridValues.push(value);
+
+  return (
+    <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto" role="img" aria-label={label}>
+      {gridValues.map((value) => (
+        <g key={value}>
+          <line x1={AXIS_WIDTH} x2={WIDTH} y1={y(value)} y2={y(value)} className="stroke-gray-200" strokeWidth={1} />
+          <text x={AXIS_WIDTH - 6} y={y(value)} textAnchor="end" dominantBaseline="middle" className="fill-gray-400 text-[11px]">
+            {formatValue(value)}
+          </text>
+        </g>
+      ))}
+
+      {data.map((datum, index) => {
+        const x = AXIS_WIDTH + index * slot + (slot - barWidth) / 2;
+        const top = y(datum.value);
+        return (
+          <g key={`${datum.label}-${index}`}>
+            <rect
+              x={x}
+              y={top}
+              width={barWidth}
+              height={Math.max(plotHeight - top, 0)}
+              rx={Math.min(3, barWidth / 2)}
+              className="fill-blue-500 hover:fill-blue-700 transition-colors"
+            >
+              <title>{datum.title ?? `${datum.label}: ${formatValue(datum.value)}`}</title>
+            </rect>
+            {index % labelEvery === 0 && (
+              <text x={x + barWidth / 2} y={HEIGHT - 6} textAnchor="middle" className="fill-gray-500 text-[11px]">
+                {datum.label}
+              </text>
+            )}
+          </g>
+        );
+      })}
+    </svg>
+  );
+}
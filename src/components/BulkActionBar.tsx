@@ -0,0 +1,221 @@
+import { useState } from 'react';
+import { Loader2, Trash2, FolderInput, Tags, Palette, Download, X } from 'lucide-react';
+import TagInput from './TagInput';
+import CategoryOptions from './CategoryOptions';
+import { BulkProgress } from '../lib/bulkActions';
+import { Category } from '../api/types';
+
+export interface BulkBusyState extends BulkProgress {
+  label: string;
+}
+
+interface BulkActionBarProps {
+  selectedCount: number;
+  pageCount: number;
+  pageSelected: boolean;
+  totalMatching: number;
+  allMatching: boolean;
+  categories: Category[];
+  busy: BulkBusyState | null;
+  onSelectPage: () => void;
+  onDeselectPage: () => void;
+  onSelectAllMatching: () => void;
+  onClear: () => void;
+  // Each of these is left out when the user may not do it
+  onDelete?: () => void;
+  onMove?: (categoryId: string) => void;
+  onTags?: (add: string[], remove: string[]) => void;
+  // (Re)extracts the colour palette, e.g. for images uploaded before palettes existed
+  onPalette?: () => void;
+  onDownload: () => void;
+}
+
+export default function BulkActionBar({
+  selectedCount,
+  pageCount,
+  pageSelected,
+  totalMatching,
+  allMatching,
+  categories,
+  busy,
+  onSelectPage,
+  onDeselectPage,
+  onSelectAllMatching,
+  onClear,
+  onDelete,
+  onMove,
+  onTags,
+  onPalette,
+  onDownload,
+}: BulkActionBarProps) {
+  const [confirmingDelete, setConfirmingDelete] = useState(false);
+  const [showTags, setShowTags] = useState(false);
+  const [tagsToAdd, setTagsToAdd] = useState<string[]>([]);
+  const [tagsToRemove, setTagsToRemove] = useState<string[]>([]);
+
+  const count = allMatching ? totalMatching : selectedCount;
+  const disabled = count === 0 || busy !== null;
+
+  const applyTags = () => {
+    onTags?.(tagsToAdd, tagsToRemove);
+    setShowTags(false);
+    setTagsToAdd([]);
+    setTagsToRemove([]);
+  };
+
+  return (
+    <div className="sticky top-0 z-40 mb-4 bg-white rounded-lg shadow-md p-4">
+      <div className="flex flex-wrap items-center gap-3">
+        <label className="flex items-center gap-2 text-sm font-medium text-gray-700">
+          <input
+            type="checkbox"
+            checked={pageSelected}
+            onChange={() => (pageSelected ? onDeselectPage() : onSelectPage())}
+            disabled={pageCount === 0 || busy !== null}
+            className="w-4 h-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+          />
+          {count} selected
+        </label>
+
+        {pageSelected && !allMatching && totalMatching > selectedCount && (
+          <button
+            onClick={onSelectAllMatching}
+            disabled={busy !== null}
+            className="text-sm text-blue-600 hover:text-blue-500 hover:underline disabled:opacity-50"
+          >
+            Select all {totalMatching} matching images
+          </button>
+        )}
+
+        {count > 0 && (
+          <button
+            onClick={onClear}
+            disabled={busy !== null}
+            className="text-sm text-gray-500 hover:text-gray-700 disabled:opacity-50"
+          >
+            Clear
+          </button>
+        )}
+
+        <div className="flex flex-wrap items-center gap-2 ml-auto">
+          {busy ? (
+            <span className="flex items-center gap-2 text-sm text-gray-600">
+              <Loader2 className="w-4 h-4 animate-spin text-blue-600" />
+              {busy.label} {busy.done}/{busy.total}
+            </span>
+          ) : confirmingDelete ? (
+            <>
+              <span className="text-sm text-gray-700">
+                Delete {count} image{count === 1 ? '' : 's'}? This cannot be undone.
+              </span>
+              <button
+                onClick={() => {
+                  setConfirmingDelete(false);
+                  onDelete?.();
+                }}
+                className="px-3 py-1.5 text-sm font-medium text-white bg-red-600 rounded-lg hover:bg-red-700"
+              >
+                Delete
+              </button>
+              <button
+                onClick={() => setConfirmingDelete(false)}
+                className="px-3 py-1.5 text-sm font-medium text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200"
+              >
+                Cancel
+              </button>
+            </>
+          ) : (
+            <>
+              {onMove && (
+                <div className="flex items-center gap-1">
+                  <FolderInput className="w-4 h-4 text-gray-500" />
+                  <select
+                    value=""
+                    onChange={(e) => e.target.value && onMove(e.target.value)}
+                    disabled={disabled}
+                    className="px-2 py-1.5 text-sm border border-gray-300 rounded-lg bg-white disabled:opacity-50"
+                  >
+                    <option value="">Move to...</option>
+                    <CategoryOptions categories={categories} />
+                  </select>
+                </div>
+              )}
+
+              {onTags && (
+                <button
+                  onClick={() => setShowTags((open) => !open)}
+                  disabled={disabled}
+                  className="flex items-center gap-1 px-3 py-1.5 text-sm font-medium text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 disabled:opacity-50"
+                >
+                  <Tags className="w-4 h-4" />
+                  Tags
+                </button>
+              )}
+
+              {onPalette && (
+                <button
+                  onClick={onPalette}
+                  disabled={disabled}
+                  className="flex items-center gap-1 px-3 py-1.5 text-sm font-medium text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 disabled:opacity-50"
+                  title="Extract dominant colours"
+                >
+                  <Palette className="w-4 h-4" />
+                  Colours
+                </button>
+              )}
+
+              <button
+                onClick={onDownload}
+                disabled={disabled}
+                className="flex items-center gap-1 px-3 py-1.5 text-sm font-medium text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 disabled:opacity-50"
+              >
+                <Download className="w-4 h-4" />
+                ZIP
+              </button>
+
+              {onDelete && (
+                <button
+                  onClick={() => setConfirmingDelete(true)}
+                  disabled={disabled}
+                  className="flex items-center gap-1 px-3 py-1.5 text-sm font-medium text-red-600 border border-red-200 rounded-lg hover:bg-red-50 disabled:opacity-50"
+                >
+                  <Trash2 className="w-4 h-4" />
+                  Delete
+                </button>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+
+      {showTags && !busy && (
+        <div className="mt-4 pt-4 border-t grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Add tags</label>
+            <TagInput value={tagsToAdd} onChange={setTagsToAdd} />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Remove tags</label>
+            <TagInput value={tagsToRemove} onChange={setTagsToRemove} />
+          </div>
+          <div className="md:col-span-2 flex justify-end gap-2">
+            <button
+              onClick={() => setShowTags(false)}
+              className="flex items-center gap-1 px-3 py-1.5 text-sm font-medium text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200"
+            >
+              <X className="w-4 h-4" />
+              Cancel
+            </button>
+            <button
+              onClick={applyTags}
+              disabled={tagsToAdd.length === 0 && tagsToRemove.length === 0}
+              className="px-3 py-1.5 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 disabled:opacity-50"
+            >
+              Apply to {count} image{count === 1 ? '' : 's'}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,58 @@
+import { CheckCircle, AlertCircle, X } from 'lucide-react';
+import { BulkResult } from '../lib/bulkActions';
+
+interface BulkResultReportProps<T extends { _id: string; title: string }> {
+  result: BulkResult<T>;
+  onSelectFailed: (items: T[]) => void;
+  onDismiss: () => void;
+}
+
+export default function BulkResultReport<T extends { _id: string; title: string }>({
+  result,
+  onSelectFailed,
+  onDismiss,
+}: BulkResultReportProps<T>) {
+  const total = result.succeeded.length + result.failed.length;
+  const ok = result.failed.length === 0;
+
+  return (
+    <div
+      className={`mb-4 p-4 rounded-lg border ${
+        ok ? 'bg-green-50 border-green-200' : 'bg-red-50 border-red-200'
+      }`}
+    >
+      <div className="flex items-start gap-2">
+        {ok ? (
+          <CheckCircle className="w-5 h-5 text-green-600 flex-shrink-0 mt-0.5" />
+        ) : (
+          <AlertCircle className="w-5 h-5 text-red-600 flex-shrink-0 mt-0.5" />
+        )}
+        <p className={`text-sm font-medium flex-1 ${ok ? 'text-green-800' : 'text-red-800'}`}>
+          {result.action} {result.succeeded.length} of {total} image{total === 1 ? '' : 's'}
+          {!ok && ` · ${result.failed.length} failed`}
+        </p>
+        <button onClick={onDismiss} className="text-gray-400 hover:text-gray-600" title="Dismiss">
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      {!ok && (
+        <>
+          <ul className="mt-3 ml-7 space-y-1 max-h-40 overflow-y-auto">
+            {result.failed.map(({ item, error }) => (
+              <li key={item._id} className="text-sm text-red-700">
+                <span className="font-medium">{item.title}</span>: {error}
+              </li>
+            ))}
+          </ul>
+          <button
+            onClick={() => onSelectFailed(result.failed.map((failure) => failure.item))}
+            className="mt-3 ml-7 text-sm text-blue-600 hover:text-blue-500 hover:underline"
+          >
+            Select failed images to try again
+          </button>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,275 @@
+import { useState, useMemo, FormEvent } from 'react';
+import { Loader2, X, AlertCircle, Check, ImageOff } from 'lucide-react';
+import CategoryOptions from './CategoryOptions';
+import ResponsiveImage from './ResponsiveImage';
+import { CategoryInput, createCategory, moveCategories, updateCategory } from '../api/categories';
+import { ImageListParams, imageKeys, listImages } from '../api/images';
+import { Category } from '../api/types';
+import { useQuery } from '../hooks/useQuery';
+import { getErrorMessage } from '../lib/errors';
+import { SLUG_PATTERN, descendantIds, placeCategory, slugify } from '../lib/categoryTree';
+
+interface CategoryFormModalProps {
+  // Null when creating
+  category: Category | null;
+  categories: Category[];
+  // Preselected parent for a new category
+  defaultParent?: string | null;
+  onClose: () => void;
+}
+
+// Enough to choose from without paging through the whole category
+const COVER_CHOICES = 24;
+
+const inputClass =
+  'w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-shadow';
+
+export default function CategoryFormModal({ category, categories, defaultParent = null, onClose }: CategoryFormModalProps) {
+  const editing = category !== null;
+  const [name, setName] = useState(category?.name ?? '');
+  const [slug, setSlug] = useState(category?.slug ?? '');
+  // A new category's slug follows its name until edited by hand
+  const [slugEdited, setSlugEdited] = useState(editing);
+  const [description, setDescription] = useState(category?.description ?? '');
+  const [parent, setParent] = useState<string | null>(category ? category.parent : defaultParent);
+  const [coverId, setCoverId] = useState<string | null>(category?.coverImage?._id ?? null);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  // A category can't move under itself or anything below it
+  const unavailableParents = useMemo(
+    () => (category ? new Set([category._id, ...descendantIds(categories, category._id)]) : undefined),
+    [categories, category]
+  );
+
+  // Covers come from the category's own images, so there is nothing to pick until it exists
+  const coverParams: ImageListParams = {
+    category: category ? [category._id] : [],
+    limit: COVER_CHOICES,
+    sortBy: 'createdAt',
+    order: 'desc',
+  };
+  const coverQuery = useQuery(imageKeys.list(coverParams), () => listImages(coverParams), { enabled: editing });
+  const coverChoices = coverQuery.data?.items ?? [];
+
+  const handleNameChange = (value: string) => {
+    setName(value);
+    if (!slugEdited) setSlug(slugify(value));
+  };
+
+  const validate = (): string => {
+    if (!name.trim()) return 'Category name is required';
+    if (!SLUG_PATTERN.test(slug)) return 'Slugs use lowercase letters, numbers and single hyphens, e.g. "snowy-peaks"';
+    if (categories.some((cat) => cat.slug === slug && cat._id !== category?._id)) {
+      return 'Another category already uses this slug';
+    }
+    return '';
+  };
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    const problem = validate();
+    if (problem) {
+      setError(problem);
+      return;
+    }
+
+    setSaving(true);
+    setError('');
+
+    const input: CategoryInput = { name: name.trim(), slug, description: description.trim(), parent };
+
+    try {
+      if (!category) {
+        const siblings = categories.filter((cat) => cat.parent === parent);
+        await createCategory({ ...input, order: Math.max(-1, ...siblings.map((cat) => cat.order)) + 1 });
+      } else {
+        // A new parent goes through the move endpoint so both sibling lists are renumbered
+        await updateCategory(category._id, { ...input, parent: category.parent, coverImage: coverId });
+        if (parent !== category.parent) {
+          await moveCategories(placeCategory(categories, category._id, parent, Infinity));
+        }
+      }
+      onClose();
+    } catch (err: unknown) {
+      console.error('Save category error:', err);
+      setError(getErrorMessage(err, 'Failed to save category'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <form
+        onSubmit={handleSubmit}
+        className="bg-white rounded-lg shadow-xl max-w-lg w-full p-6 max-h-[90vh] overflow-y-auto"
+      >
+        <div className="flex items-center justify-between mb-6">
+          <h2 className="text-xl font-bold text-gray-900">{editing ? 'Edit Category' : 'Create New Category'}</h2>
+          <button
+            type="button"
+            onClick={onClose}
+            disabled={saving}
+            className="p-1 text-gray-400 hover:text-gray-600 transition-colors disabled:opacity-50"
+          >
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        {error && (
+          <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg flex items-start gap-2">
+            <AlertCircle className="w-5 h-5 text-red-600 flex-shrink-0 mt-0.5" />
+            <p className="text-sm text-red-600">{error}</p>
+          </div>
+        )}
+
+        <div className="space-y-4 mb-6">
+          <div>
+            <label htmlFor="category-name" className="block text-sm font-medium text-gray-700 mb-2">
+              Category Name <span className="text-red-500">*</span>
+            </label>
+            <input
+              id="category-name"
+              type="text"
+              value={name}
+              onChange={(e) => handleNameChange(e.target.value)}
+              placeholder="e.g., Nature, Architecture, People"
+              className={inputClass}
+              disabled={saving}
+              autoFocus
+            />
+          </div>
+
+          <div>
+            <label htmlFor="category-slug" className="block text-sm font-medium text-gray-700 mb-2">
+              URL Slug <span className="text-red-500">*</span>
+            </label>
+            <input
+              id="category-slug"
+              type="text"
+              value={slug}
+              onChange={(e) => {
+                setSlug(e.target.value);
+                setSlugEdited(true);
+              }}
+              placeholder="e.g., snowy-peaks"
+              className={`${inputClass} font-mono text-sm`}
+              disabled={saving}
+            />
+          </div>
+
+          <div>
+            <label htmlFor="category-parent" className="block text-sm font-medium text-gray-700 mb-2">
+              Parent Category
+            </label>
+            <select
+              id="category-parent"
+              value={parent ?? ''}
+              onChange={(e) => setParent(e.target.value || null)}
+              className={`${inputClass} bg-white`}
+              disabled={saving}
+            >
+              <option value="">None (top level)</option>
+              <CategoryOptions categories={categories} exclude={unavailableParents} />
+            </select>
+          </div>
+
+          <div>
+            <label htmlFor="category-description" className="block text-sm font-medium text-gray-700 mb-2">
+              Description
+            </label>
+            <textarea
+              id="category-description"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              rows={3}
+              className={`${inputClass} resize-none`}
+              disabled={saving}
+            />
+          </div>
+
+          {editing && (
+            <div>
+              <span className="block text-sm font-medium text-gray-700 mb-2">Cover Image</span>
+              {coverQuery.isLoading ? (
+                <div className="flex justify-center py-6">
+                  <Loader2 className="w-6 h-6 text-blue-600 animate-spin" />
+                </div>
+              ) : coverQuery.error ? (
+                <p className="text-sm text-red-600">{getErrorMessage(coverQuery.error, 'Failed to load images')}</p>
+              ) : coverChoices.length === 0 ? (
+                <p className="text-sm text-gray-500">Add images to this category to pick a cover.</p>
+              ) : (
+                <div className="grid grid-cols-4 sm:grid-cols-6 gap-2">
+                  <button
+                    type="button"
+                    onClick={() => setCoverId(null)}
+                    className={`aspect-square rounded-lg border-2 flex items-center justify-center text-gray-400 ${
+                      coverId === null ? 'border-blue-600' : 'border-gray-200 hover:border-gray-300'
+                    }`}
+                    title="No cover"
+                  >
+                    <ImageOff className="w-5 h-5" />
+                  </button>
+                  {coverChoices.map((image) => (
+                    <button
+                      key={image._id}
+                      type="button"
+                      onClick={() => setCoverId(image._id)}
+                      className={`relative aspect-square rounded-lg border-2 overflow-hidden ${
+                        coverId === image._id ? 'border-blue-600' : 'border-transparent hover:border-gray-300'
+                      }`}
+                      title={image.title}
+                    >
+                      <ResponsiveImage
+                        src={image.imageUrl}
+                        publicId={image.publicId}
+                        originalWidth={image.width}
+                        alt={image.title}
+                        sizes="80px"
+                        className="w-full h-full object-cover"
+                      />
+                      {coverId === image._id && (
+                        <span className="absolute top-1 right-1 w-5 h-5 bg-blue-600 rounded-full flex items-center justify-center">
+                          <Check className="w-3 h-3 text-white" />
+                        </span>
+                      )}
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+
+        <div className="flex gap-3 justify-end">
+          <button
+            type="button"
+            onClick={onClose}
+            disabled={saving}
+            className="px-5 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 disabled:opacity-50 transition-colors font-medium"
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={saving || !name.trim()}
+            className="px-5 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center gap-2 font-medium"
+          >
+            {saving ? (
+              <>
+                <Loader2 className="w-4 h-4 animate-spin" />
+                Saving...
+              </>
+            ) : editing ? (
+              'Update'
+            ) : (
+              'Create'
+            )}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,29 @@
+import { useMemo } from 'react';
+import { Category } from '../api/types';
+import { buildCategoryTree, flattenCategoryTree } from '../lib/categoryTree';
+
+interface CategoryOptionsProps {
+  categories: Category[];
+  // Left out of the list, e.g. a category and its subtree when picking its parent
+  exclude?: ReadonlySet<string>;
+}
+
+// Native selects can't nest, so depth is shown by indenting with spaces
+const INDENT = '    ';
+
+// The <option>s for a category <select>, in tree order
+export default function CategoryOptions({ categories, exclude }: CategoryOptionsProps) {
+  const rows = useMemo(() => flattenCategoryTree(buildCategoryTree(categories)), [categories]);
+  return (
+    <>
+      {rows
+        .filter(({ category }) => !exclude?.has(category._id))
+        .map(({ category, depth }) => (
+          <option key={category._id} value={category._id}>
+            {INDENT.repeat(depth)}
+            {category.name}
+          </option>
+        ))}
+    </>
+  );
+}
@@ -0,0 +1,215 @@
+import { useState, useMemo } from 'react';
+import { Loader2, Trash2, Merge, AlertCircle, ArrowRight } from 'lucide-react';
+import CategoryOptions from './CategoryOptions';
+import { useAuth } from '../contexts/AuthContext';
+import { CategoryImageDisposition, deleteCategory, mergeCategory } from '../api/categories';
+import { Category } from '../api/types';
+import { getErrorMessage } from '../lib/errors';
+import { descendantIds } from '../lib/categoryTree';
+
+interface CategoryRemovalModalProps {
+  category: Category;
+  // Merging deletes `category` too, after moving everything into the target
+  mode: 'delete' | 'merge';
+  categories: Category[];
+  onClose: () => void;
+}
+
+const plural = (count: number, one: string, many = `${one}s`) => `${count} ${count === 1 ? one : many}`;
+
+/**
+ * Confirms deleting or merging a category. A category that has images must
+ * say where they go first, and the dialog previews what will move.
+ */
+export default function CategoryRemovalModal({ category, mode, categories, onClose }: CategoryRemovalModalProps) {
+  const { can } = useAuth();
+  const merging = mode === 'merge';
+  const [targetId, setTargetId] = useState('');
+  const [deleteImages, setDeleteImages] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState('');
+
+  // An unknown count is treated as non-empty, so images are never dropped silently
+  const hasImages = category.imageCount !== 0;
+  const children = categories.filter((cat) => cat.parent === category._id);
+  const parent = categories.find((cat) => cat._id === category.parent);
+  const target = categories.find((cat) => cat._id === targetId);
+
+  // Merging into its own subtree would leave that subtree without a root
+  const unavailableTargets = useMemo(
+    () => (merging ? new Set([category._id, ...descendantIds(categories, category._id)]) : new Set([category._id])),
+    [categories, category, merging]
+  );
+
+  const needsTarget = merging || (hasImages && !deleteImages);
+  const ready = !needsTarget || target !== undefined;
+
+  const imagesPhrase =
+    category.imageCount === null ? 'Any images in this category' : plural(category.imageCount, 'image');
+
+  const handleConfirm = async () => {
+    if (!ready) return;
+    setBusy(true);
+    setError('');
+
+    try {
+      if (merging) {
+        await mergeCategory(category._id, targetId);
+      } else {
+        const disposition: CategoryImageDisposition | undefined = !hasImages
+          ? undefined
+          : deleteImages
+          ? { deleteImages: true }
+          : { reassignTo: targetId };
+        await deleteCategory(category._id, disposition);
+      }
+      onClose();
+    } catch (err: unknown) {
+      console.error(merging ? 'Merge category error:' : 'Delete category error:', err);
+      setError(getErrorMessage(err, merging ? 'Failed to merge category' : 'Failed to delete category'));
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg shadow-xl max-w-md w-full p-6">
+        <div className="flex items-start mb-4">
+          <div
+            className={`w-12 h-12 rounded-full flex items-center justify-center mr-4 flex-shrink-0 ${
+              merging ? 'bg-blue-100' : 'bg-red-100'
+            }`}
+          >
+            {merging ? <Merge className="w-6 h-6 text-blue-600" /> : <Trash2 className="w-6 h-6 text-red-600" />}
+          </div>
+          <div>
+            <h2 className="text-xl font-bold text-gray-900 mb-2">{merging ? 'Merge Category' : 'Delete Category'}</h2>
+            <p className="text-gray-600">
+              {merging ? 'Combine ' : 'Are you sure you want to delete the category '}
+              <strong className="text-gray-900">"{category.name}"</strong>
+              {merging ? ' into another category. It is deleted afterwards.' : '?'}
+            </p>
+          </div>
+        </div>
+
+        {error && (
+          <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg flex items-start gap-2">
+            <AlertCircle className="w-5 h-5 text-red-600 flex-shrink-0 mt-0.5" />
+            <p className="text-sm text-red-600">{error}</p>
+          </div>
+        )}
+
+        {merging ? (
+          <div>
+            <label htmlFor="merge-target" className="block text-sm font-medium text-gray-700 mb-2">
+              Merge into
+            </label>
+            <select
+              id="merge-target"
+              value={targetId}
+              onChange={(e) => setTargetId(e.target.value)}
+              disabled={busy}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 bg-white"
+            >
+              <option value="">Select Category</option>
+              <CategoryOptions categories={categories} exclude={unavailableTargets} />
+            </select>
+          </div>
+        ) : (
+          hasImages && (
+            <fieldset className="space-y-3" disabled={busy}>
+              <label className="flex items-start gap-3">
+                <input
+                  type="radio"
+                  name="disposition"
+                  checked={!deleteImages}
+                  onChange={() => setDeleteImages(false)}
+                  className="mt-2.5 text-blue-600 focus:ring-blue-500"
+                />
+                <div className="flex-1">
+                  <span className="block text-sm font-medium text-gray-700 mb-1">Move its images to</span>
+                  <select
+                    value={targetId}
+                    onChange={(e) => {
+                      setTargetId(e.target.value);
+                      setDeleteImages(false);
+                    }}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 bg-white"
+                  >
+                    <option value="">Select Category</option>
+                    <CategoryOptions categories={categories} exclude={unavailableTargets} />
+                  </select>
+                </div>
+              </label>
+              {can('images:delete') && (
+                <label className="flex items-center gap-3">
+                  <input
+                    type="radio"
+                    name="disposition"
+                    checked={deleteImages}
+                    onChange={() => setDeleteImages(true)}
+                    className="text-red-600 focus:ring-red-500"
+                  />
+                  <span className="text-sm font-medium text-gray-700">Delete its images too</span>
+                </label>
+              )}
+            </fieldset>
+          )
+        )}
+
+        {/* What will happen, spelled out */}
+        <ul className="mt-4 p-3 bg-gray-50 rounded-lg text-sm text-gray-700 space-y-1">
+          {hasImages && (
+            <li className="flex items-center gap-1.5 flex-wrap">
+              {deleteImages && !merging ? (
+                <span className="text-red-600">{imagesPhrase} will be permanently deleted.</span>
+              ) : (
+                <>
+                  {imagesPhrase} will move
+                  <ArrowRight className="w-4 h-4 text-gray-400" />
+                  <strong>{target ? target.name : '…'}</strong>
+                </>
+              )}
+            </li>
+          )}
+          {!hasImages && <li>This category has no images.</li>}
+          {children.length > 0 && (
+            <li>
+              {plural(children.length, 'sub-category', 'sub-categories')} will move under{' '}
+              <strong>{merging ? (target ? target.name : '…') : parent ? parent.name : 'the top level'}</strong>.
+            </li>
+          )}
+          {!merging && deleteImages && <li className="text-red-600">This action cannot be undone.</li>}
+        </ul>
+
+        <div className="flex gap-3 justify-end mt-6">
+          <button
+            onClick={onClose}
+            disabled={busy}
+            className="px-5 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 disabled:opacity-50 transition-colors font-medium"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleConfirm}
+            disabled={busy || !ready}
+            className={`px-5 py-2 text-white rounded-lg disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center gap-2 font-medium ${
+              merging ? 'bg-blue-600 hover:bg-blue-700' : 'bg-red-600 hover:bg-red-700'
+            }`}
+          >
+            {busy ? (
+              <>
+                <Loader2 className="w-4 h-4 animate-spin" />
+                {merging ? 'Merging...' : 'Deleting...'}
+              </>
+            ) : merging ? (
+              'Merge'
+            ) : (
+              'Delete'
+            )}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,92 @@
+import { useState } from 'react';
+import { Palette, X } from 'lucide-react';
+import { PRESET_COLORS } from '../lib/colorPalette';
+
+interface ColorFilterProps {
+  // "#rrggbb", or '' for any colour
+  value: string;
+  onChange: (hex: string) => void;
+}
+
+const DEFAULT_CUSTOM = '#3b82f6';
+
+export default function ColorFilter({ value, onChange }: ColorFilterProps) {
+  const [open, setOpen] = useState(false);
+  // The native picker fires on every drag step, so it only applies on request
+  const [custom, setCustom] = useState(value || DEFAULT_CUSTOM);
+
+  const pick = (hex: string) => {
+    onChange(hex);
+    setOpen(false);
+  };
+
+  return (
+    <div className="relative">
+      <div className="inline-flex items-center rounded-lg bg-white shadow-sm border border-gray-300">
+        <button
+          onClick={() => {
+            setCustom(value || DEFAULT_CUSTOM);
+            setOpen((shown) => !shown);
+          }}
+          className="flex items-center gap-2 px-3 py-2 text-sm text-gray-700 hover:bg-gray-50 rounded-lg"
+          aria-expanded={open}
+        >
+          {value ? (
+            <span className="w-4 h-4 rounded-full border border-black/10" style={{ backgroundColor: value }} />
+          ) : (
+            <Palette className="w-4 h-4 text-gray-500" />
+          )}
+          {value ? <span className="font-mono">{value}</span> : 'Any colour'}
+        </button>
+        {value && (
+          <button
+            onClick={() => onChange('')}
+            className="pr-2 text-gray-400 hover:text-gray-600"
+            title="Any colour"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        )}
+      </div>
+
+      {open && (
+        <>
+          {/* Clicking anywhere else closes the picker */}
+          <div className="fixed inset-0 z-10" onClick={() => setOpen(false)} />
+          <div className="absolute z-20 mt-2 w-64 p-3 bg-white rounded-lg shadow-lg border border-gray-200">
+            <div className="grid grid-cols-6 gap-2 mb-3">
+              {PRESET_COLORS.map((preset) => (
+                <button
+                  key={preset.hex}
+                  onClick={() => pick(preset.hex)}
+                  className={`w-8 h-8 rounded-full border border-black/10 hover:scale-110 transition-transform ${
+                    value === preset.hex ? 'ring-2 ring-offset-1 ring-blue-500' : ''
+                  }`}
+                  style={{ backgroundColor: preset.hex }}
+                  title={preset.label}
+                  aria-label={preset.label}
+                />
+              ))}
+            </div>
+            <div className="flex items-center gap-2 pt-3 border-t border-gray-100">
+              <input
+                type="color"
+                value={custom}
+                onChange={(e) => setCustom(e.target.value)}
+                className="w-10 h-8 p-0 border border-gray-300 rounded cursor-pointer"
+                aria-label="Custom colour"
+              />
+              <span className="flex-1 text-sm font-mono text-gray-600">{custom}</span>
+              <button
+                onClick={() => pick(custom)}
+                className="px-3 py-1.5 text-sm font-medium text-blue-700 bg-blue-100 rounded-lg hover:bg-blue-200"
+              >
+                Apply
+              </button>
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,71 @@
+export interface DonutSlice {
+  label: string;
+  value: number;
+  // Any CSS colour
+  color: string;
+}
+
+interface DonutChartProps {
+  slices: DonutSlice[];
+  // Accessible name for the whole chart
+  label: string;
+  // Shown in the hole, e.g. the total
+  centerLabel?: string;
+}
+
+const SIZE = 160;
+const STROKE = 28;
+const RADIUS = (SIZE - STROKE) / 2;
+const CIRCUMFERENCE = 2 * Math.PI * RADIUS;
+
+/**
+ * Donut chart in plain SVG. Each slice is a dashed circle stroke whose dash
+ * covers its share of the circumference; the legend is left to the caller.
+ */
+export default function DonutChart({ slices, label, centerLabel }: DonutChartProps) {
+  const total = slices.reduce((sum, slice) => sum + slice.value, 0);
+  let start = 0;
+  const arcs = slices.map((slice) => {
+    const length = total > 0 ? (slice.value / total) * CIRCUMFERENCE : 0;
+    const arc = { slice, length, start };
+    start += length;
+    return arc;
+  });
+
+  return (
+    <svg viewBox={`0 0 ${SIZE} ${SIZE}`} className="w-full h-auto" role="img" aria-label={label}>
+      <circle cx={SIZE / 2} cy={SIZE / 2} r={RADIUS} fill="none" strokeWidth={STROKE} className="stroke-gray-100" />
+      {/* Starts at twelve o'clock and runs clockwise */}
+      <g transform={`rotate(-90 ${SIZE / 2} ${SIZE / 2})`}>
+        {arcs
+          .filter(({ length }) => length > 0)
+          .map(({ slice, length, start }, index) => (
+            <circle
+              key={`${slice.label}-${index}`}
+              cx={SIZE / 2}
+              cy={SIZE / 2}
+              r={RADIUS}
+              fill="none"
+              stroke={slice.color}
+              strokeWidth={STROKE}
+              strokeDasharray={`${length} ${CIRCUMFERENCE - length}`}
+              strokeDashoffset={-start}
+            >
+              <title>{`${slice.label}: ${slice.value} (${Math.round((slice.value / total) * 100)}%)`}</title>
+            </circle>
+          ))}
+      </g>
+      {centerLabel && (
+        <text
+          x={SIZE / 2}
+          y={SIZE / 2}
+          textAnchor="middle"
+          dominantBaseline="middle"
+          className="fill-gray-900 text-[20px] font-bold"
+        >
+          {centerLabel}
+        </text>
+      )}
+    </svg>
+  );
+}
@@ -0,0 +1,183 @@
+import { useState, useMemo } from 'react';
+import { X, Loader2, AlertCircle, Copy, Trash2, CheckCircle } from 'lucide-react';
+import { deleteImage, imageKeys, listImageHashes } from '../api/images';
+import { setQueryData } from '../api/queryCache';
+import { useQuery } from '../hooks/useQuery';
+import { useAuth } from '../contexts/AuthContext';
+import ResponsiveImage from './ResponsiveImage';
+import { getErrorMessage } from '../lib/errors';
+import {
+  HashedImage,
+  SIMILARITY_THRESHOLDS,
+  groupBySimilarity,
+  hammingDistance,
+} from '../lib/imageHashing';
+
+interface DuplicateFinderProps {
+  onClose: () => void;
+  onDeleted: (id: string) => void;
+}
+
+type Sensitivity = keyof typeof SIMILARITY_THRESHOLDS;
+
+const NO_IMAGES: HashedImage[] = [];
+
+const sensitivityLabels: Record<Sensitivity, string> = {
+  strict: 'Near identical',
+  similar: 'Similar',
+  loose: 'Loosely similar',
+};
+
+export default function DuplicateFinder({ onClose, onDeleted }: DuplicateFinderProps) {
+  const canDelete = useAuth().can('images:delete');
+  const hashesQuery = useQuery(imageKeys.hashes, listImageHashes);
+  const images = hashesQuery.data ?? NO_IMAGES;
+  const loading = hashesQuery.isLoading;
+  const [actionError, setActionError] = useState('');
+  const error =
+    actionError || (hashesQuery.error ? getErrorMessage(hashesQuery.error, 'Failed to load image fingerprints') : '');
+  const [sensitivity, setSensitivity] = useState<Sensitivity>('similar');
+  const [confirmingId, setConfirmingId] = useState<string | null>(null);
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+
+  const groups = useMemo(
+    () => groupBySimilarity(images, SIMILARITY_THRESHOLDS[sensitivity]),
+    [images, sensitivity]
+  );
+  const unhashedCount = images.filter((img) => !img.perceptualHash && !img.contentHash).length;
+
+  const handleDelete = async (image: HashedImage) => {
+    setDeletingId(image._id);
+    try {
+      await deleteImage(image._id);
+      // Drop it now rather than waiting for the refetch the delete triggers
+      setQueryData<HashedImage[]>(imageKeys.hashes, (prev) => prev?.filter((img) => img._id !== image._id));
+      onDeleted(image._id);
+    } catch (err: unknown) {
+      setActionError(getErrorMessage(err, 'Failed to delete image'));
+    } finally {
+      setDeletingId(null);
+      setConfirmingId(null);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg shadow-xl max-w-4xl w-full max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between p-6 border-b">
+          <div>
+            <h2 className="text-xl font-bold text-gray-900 flex items-center gap-2">
+              <Copy className="w-5 h-5 text-blue-600" />
+              Find Duplicates
+            </h2>
+            <p className="text-sm text-gray-500 mt-1">
+              Images grouped by visual similarity across your whole collection
+            </p>
+          </div>
+          <button onClick={onClose} className="p-1 text-gray-400 hover:text-gray-600 transition-colors">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="px-6 pt-4 flex flex-wrap items-center gap-2">
+          {(Object.keys(SIMILARITY_THRESHOLDS) as Sensitivity[]).map((key) => (
+            <button
+              key={key}
+              onClick={() => setSensitivity(key)}
+              className={`px-3 py-1.5 text-sm font-medium rounded-lg transition-colors ${
+                sensitivity === key ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+              }`}
+            >
+              {sensitivityLabels[key]}
+            </button>
+          ))}
+          {!loading && unhashedCount > 0 && (
+            <span className="text-xs text-gray-500 ml-auto">
+              {unhashedCount} image{unhashedCount === 1 ? ' has' : 's have'} no fingerprint yet
+            </span>
+          )}
+        </div>
+
+        <div className="p-6 overflow-y-auto flex-1">
+          {error && (
+            <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg flex items-start gap-2">
+              <AlertCircle className="w-5 h-5 text-red-600 flex-shrink-0 mt-0.5" />
+              <p className="text-sm text-red-600">{error}</p>
+            </div>
+          )}
+
+          {loading ? (
+            <div className="flex justify-center items-center py-16">
+              <Loader2 className="w-10 h-10 text-blue-600 animate-spin" />
+            </div>
+          ) : groups.length === 0 ? (
+            <div className="text-center py-16">
+              <CheckCircle className="w-12 h-12 text-green-500 mx-auto mb-4" />
+              <p className="text-gray-600">No duplicates found at this sensitivity</p>
+            </div>
+          ) : (
+            <div className="space-y-6">
+              <p className="text-sm text-gray-600">
+                {groups.length} group{groups.length === 1 ? '' : 's'} of likely duplicates
+              </p>
+              {groups.map((group) => (
+                <div key={group[0]._id} className="p-4 border border-gray-200 rounded-lg">
+                  <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 gap-4">
+                    {group.map((image, index) => (
+                      <div key={image._id} className="space-y-2">
+                        <ResponsiveImage
+                          src={image.imageUrl}
+                          sizes="240px"
+                          alt={image.title}
+                          className="w-full h-32 object-cover rounded-lg"
+                        />
+                        <p className="text-sm font-medium text-gray-900 truncate">{image.title}</p>
+                        <p className="text-xs text-gray-500">
+                          {image.createdAt && new Date(image.createdAt).toLocaleDateString()}
+                          {index > 0 && group[0].perceptualHash && image.perceptualHash && (
+                            <>
+                              {' · '}
+                              {hammingDistance(group[0].perceptualHash, image.perceptualHash)} bits apart
+                            </>
+                          )}
+                        </p>
+                        {canDelete &&
+                          (confirmingId === image._id ? (
+                            <div className="flex gap-2">
+                              <button
+                                onClick={() => handleDelete(image)}
+                                disabled={deletingId !== null}
+                                className="flex-1 px-2 py-1 text-xs font-medium text-white bg-red-600 rounded hover:bg-red-700 disabled:opacity-50 flex items-center justify-center gap-1"
+                              >
+                                {deletingId === image._id && <Loader2 className="w-3 h-3 animate-spin" />}
+                                Confirm
+                              </button>
+                              <button
+                                onClick={() => setConfirmingId(null)}
+                                disabled={deletingId !== null}
+                                className="px-2 py-1 text-xs font-medium text-gray-700 bg-gray-100 rounded hover:bg-gray-200 disabled:opacity-50"
+                              >
+                                Keep
+                              </button>
+                            </div>
+                          ) : (
+                            <button
+                              onClick={() => setConfirmingId(image._id)}
+                              className="w-full px-2 py-1 text-xs font-medium text-red-600 border border-red-200 rounded hover:bg-red-50 flex items-center justify-center gap-1"
+                            >
+                              <Trash2 className="w-3 h-3" />
+                              Delete
+                            </button>
+                          ))}
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,111 @@
+import { Copy } from 'lucide-react';
+import { DuplicateMatch, HashedImage } from '../lib/imageHashing';
+import { DuplicateResolution } from '../hooks/useUploadQueue';
+
+export interface DuplicateCandidate extends HashedImage {
+  // Another file in the same upload batch rather than an existing gallery image
+  fromQueue?: boolean;
+}
+
+interface DuplicateWarningProps {
+  preview: string;
+  matches: DuplicateMatch<DuplicateCandidate>[];
+  resolution: DuplicateResolution | null;
+  disabled: boolean;
+  onResolve: (resolution: DuplicateResolution | null) => void;
+  onSkip: () => void;
+}
+
+const describeMatch = (match: DuplicateMatch<DuplicateCandidate>) =>
+  match.exact ? 'Identical file' : `${Math.round((1 - match.distance / 64) * 100)}% similar`;
+
+export default function DuplicateWarning({
+  preview,
+  matches,
+  resolution,
+  disabled,
+  onResolve,
+  onSkip,
+}: DuplicateWarningProps) {
+  if (resolution) {
+    const replaced =
+      resolution.action === 'replace'
+        ? matches.find((match) => match.image._id === resolution.imageId)
+        : null;
+    return (
+      <p className="text-xs text-gray-600 flex items-center gap-1">
+        <Copy className="w-3.5 h-3.5 flex-shrink-0" />
+        {replaced ? `Will replace "${replaced.image.title}"` : 'Uploading despite possible duplicate'}
+        {!disabled && (
+          <button
+            type="button"
+            onClick={() => onResolve(null)}
+            className="ml-1 text-blue-600 hover:text-blue-500 hover:underline"
+          >
+            Change
+          </button>
+        )}
+      </p>
+    );
+  }
+
+  return (
+    <div className="p-3 bg-yellow-50 border border-yellow-200 rounded-lg">
+      <p className="text-xs font-medium text-yellow-800 flex items-center gap-1 mb-2">
+        <Copy className="w-3.5 h-3.5 flex-shrink-0" />
+        Looks like {matches.length === 1 ? 'an image' : `${matches.length} images`} already in your
+        collection
+      </p>
+
+      <div className="space-y-2">
+        {matches.slice(0, 3).map((match) => (
+          <div key={match.image._id} className="flex items-center gap-3">
+            <img src={preview} alt="New upload" className="w-14 h-14 object-cover rounded" />
+            <span className="text-xs text-gray-400">vs</span>
+            <img
+              src={match.image.imageUrl}
+              alt={match.image.title}
+              className="w-14 h-14 object-cover rounded"
+            />
+            <div className="flex-1 min-w-0">
+              <p className="text-xs font-medium text-gray-900 truncate">{match.image.title}</p>
+              <p className="text-xs text-gray-500">
+                {describeMatch(match)}
+                {match.image.fromQueue && ' · in this upload'}
+              </p>
+            </div>
+            {!match.image.fromQueue && (
+              <button
+                type="button"
+                onClick={() => onResolve({ action: 'replace', imageId: match.image._id })}
+                disabled={disabled}
+                className="px-2.5 py-1 text-xs font-medium text-blue-700 bg-blue-100 rounded hover:bg-blue-200 disabled:opacity-50"
+              >
+                Replace
+              </button>
+            )}
+          </div>
+        ))}
+      </div>
+
+      <div className="flex gap-2 mt-3">
+        <button
+          type="button"
+          onClick={onSkip}
+          disabled={disabled}
+          className="px-3 py-1 text-xs font-medium text-gray-700 bg-white border border-gray-300 rounded hover:bg-gray-50 disabled:opacity-50"
+        >
+          Skip
+        </button>
+        <button
+          type="button"
+          onClick={() => onResolve({ action: 'keep' })}
+          disabled={disabled}
+          className="px-3 py-1 text-xs font-medium text-yellow-800 bg-yellow-100 rounded hover:bg-yellow-200 disabled:opacity-50"
+        >
+          Upload anyway
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,137 @@
+import { useState, FormEvent } from 'react';
+import { X, Save } from 'lucide-react';
+import TagInput from './TagInput';
+import CategoryOptions from './CategoryOptions';
+import { Category, CategoryRef } from '../api/types';
+
+export interface ImageChanges {
+  title: string;
+  category: string;
+  tags: string[];
+  description: string;
+}
+
+interface ImageEditDrawerProps {
+  image: {
+    title: string;
+    imageUrl: string;
+    category?: CategoryRef | null;
+    tags?: string[];
+    description?: string;
+  };
+  categories: Category[];
+  onSave: (changes: ImageChanges) => void;
+  onClose: () => void;
+}
+
+export default function ImageEditDrawer({ image, categories, onSave, onClose }: ImageEditDrawerProps) {
+  const [title, setTitle] = useState(image.title);
+  const [category, setCategory] = useState(image.category?._id ?? '');
+  const [tags, setTags] = useState<string[]>(image.tags ?? []);
+  const [description, setDescription] = useState(image.description ?? '');
+  const [error, setError] = useState('');
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    if (!title.trim()) {
+      setError('Title is required');
+      return;
+    }
+    onSave({ title: title.trim(), category, tags, description: description.trim() });
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex justify-end">
+      <div className="absolute inset-0 bg-black bg-opacity-50" onClick={onClose} />
+
+      <form
+        onSubmit={handleSubmit}
+        className="relative w-full max-w-md h-full bg-white shadow-xl flex flex-col"
+      >
+        <div className="flex items-center justify-between p-6 border-b">
+          <h2 className="text-xl font-bold text-gray-900">Edit Image</h2>
+          <button
+            type="button"
+            onClick={onClose}
+            className="p-1 text-gray-400 hover:text-gray-600 transition-colors"
+          >
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-5">
+          <img src={image.imageUrl} alt={image.title} className="w-full h-48 object-cover rounded-lg" />
+
+          <div>
+            <label htmlFor="edit-title" className="block text-sm font-medium text-gray-700 mb-2">
+              Title <span className="text-red-500">*</span>
+            </label>
+            <input
+              id="edit-title"
+              type="text"
+              value={title}
+              onChange={(e) => {
+                setTitle(e.target.value);
+                setError('');
+              }}
+              className="block w-full px-3 py-2.5 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
+              autoFocus
+            />
+            {error && <p className="text-sm text-red-600 mt-1">{error}</p>}
+          </div>
+
+          <div>
+            <label htmlFor="edit-category" className="block text-sm font-medium text-gray-700 mb-2">
+              Category
+            </label>
+            <select
+              id="edit-category"
+              value={category}
+              onChange={(e) => setCategory(e.target.value)}
+              className="block w-full px-3 py-2.5 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 bg-white"
+            >
+              <option value="">Select Category</option>
+              <CategoryOptions categories={categories} />
+            </select>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Tags</label>
+            <TagInput value={tags} onChange={setTags} placeholder="Type a tag and press Enter" />
+          </div>
+
+          <div>
+            <label htmlFor="edit-description" className="block text-sm font-medium text-gray-700 mb-2">
+              Description
+            </label>
+            <textarea
+              id="edit-description"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              rows={4}
+              className="block w-full px-3 py-2.5 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
+              placeholder="Where was it taken, what's in it..."
+            />
+          </div>
+        </div>
+
+        <div className="flex gap-3 justify-end p-6 border-t">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-5 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors font-medium"
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            className="px-5 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors flex items-center gap-2 font-medium"
+          >
+            <Save className="w-4 h-4" />
+            Save
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,489 @@
+import { useState, useEffect, useRef, PointerEvent } from 'react';
+import {
+  X,
+  Loader2,
+  AlertCircle,
+  Crop,
+  Crosshair,
+  RotateCw,
+  RotateCcw,
+  FlipHorizontal,
+  FlipVertical,
+  Undo2,
+} from 'lucide-react';
+import {
+  ASPECT_PRESETS,
+  CropRect,
+  EditMode,
+  ImageEdits,
+  Point,
+  EMPTY_EDITS,
+  FULL_CROP,
+  centeredCrop,
+  clamp,
+  drawEditedImage,
+  flipPoint,
+  flipRect,
+  rotatePointClockwise,
+  rotateRectClockwise,
+} from '../lib/imageEdits';
+
+interface ImageEditorProps {
+  src: string;
+  title: string;
+  initialEdits?: ImageEdits | null;
+  initialMode?: EditMode;
+  // Baking needs the original pixels, which only local files can provide
+  allowBake?: boolean;
+  onSave: (edits: ImageEdits, mode: EditMode) => Promise<void> | void;
+  onClose: () => void;
+}
+
+type Tool = 'crop' | 'focal';
+type Corner = 'nw' | 'ne' | 'sw' | 'se';
+
+interface DragState {
+  action: 'move' | 'resize';
+  start: Point;
+  startRect: CropRect;
+  anchor: Point;
+}
+
+const DISPLAY_MAX_SIZE = 1200;
+const PREVIEW_MAX_SIZE = 240;
+const MIN_CROP = 0.03;
+
+const corners: Corner[] = ['nw', 'ne', 'sw', 'se'];
+
+const cornerClasses: Record<Corner, string> = {
+  nw: '-top-1.5 -left-1.5 cursor-nwse-resize',
+  ne: '-top-1.5 -right-1.5 cursor-nesw-resize',
+  sw: '-bottom-1.5 -left-1.5 cursor-nesw-resize',
+  se: '-bottom-1.5 -right-1.5 cursor-nwse-resize',
+};
+
+// The corner opposite the one being dragged stays fixed while resizing.
+const anchorFor = (corner: Corner, rect: CropRect): Point => ({
+  x: corner.includes('w') ? rect.x + rect.width : rect.x,
+  y: corner.includes('n') ? rect.y + rect.height : rect.y,
+});
+
+// Rect spanning from `anchor` towards `point`, locked to `ratio` (width/height
+// in normalised units) when given, and kept inside the image.
+function rectFromAnchor(anchor: Point, point: Point, ratio: number | null): CropRect {
+  const dirX = point.x >= anchor.x ? 1 : -1;
+  const dirY = point.y >= anchor.y ? 1 : -1;
+  const maxWidth = dirX > 0 ? 1 - anchor.x : anchor.x;
+  const maxHeight = dirY > 0 ? 1 - anchor.y : anchor.y;
+  let width = Math.abs(point.x - anchor.x);
+  let height = Math.abs(point.y - anchor.y);
+
+  if (ratio) {
+    if (width / Math.max(height, 1e-6) > ratio) height = width / ratio;
+    else width = height * ratio;
+    if (width > maxWidth) {
+      width = maxWidth;
+      height = width / ratio;
+    }
+    if (height > maxHeight) {
+      height = maxHeight;
+      width = height * ratio;
+    }
+  } else {
+    width = Math.min(width, maxWidth);
+    height = Math.min(height, maxHeight);
+  }
+
+  width = Math.max(width, MIN_CROP);
+  height = Math.max(height, MIN_CROP);
+
+  return {
+    x: clamp(dirX > 0 ? anchor.x : anchor.x - width, 0, 1 - width),
+    y: clamp(dirY > 0 ? anchor.y : anchor.y - height, 0, 1 - height),
+    width,
+    height,
+  };
+}
+
+export default function ImageEditor({
+  src,
+  title,
+  initialEdits,
+  initialMode = 'metadata',
+  allowBake = false,
+  onSave,
+  onClose,
+}: ImageEditorProps) {
+  const [image, setImage] = useState<HTMLImageElement | null>(null);
+  const [loadError, setLoadError] = useState('');
+  const [edits, setEdits] = useState<ImageEdits>(initialEdits ?? EMPTY_EDITS);
+  const [mode, setMode] = useState<EditMode>(allowBake ? initialMode : 'metadata');
+  const [tool, setTool] = useState<Tool>('crop');
+  const [presetId, setPresetId] = useState('free');
+  const [saving, setSaving] = useState(false);
+  const [saveError, setSaveError] = useState('');
+  const [baseCanvas, setBaseCanvas] = useState<HTMLCanvasElement | null>(null);
+
+  const displayRef = useRef<HTMLCanvasElement>(null);
+  const previewRef = useRef<HTMLCanvasElement>(null);
+  const overlayRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<DragState | null>(null);
+
+  const crop = edits.crop ?? FULL_CROP;
+  const preset = ASPECT_PRESETS.find((p) => p.id === presetId) ?? ASPECT_PRESETS[0];
+  // Ratio in normalised units: a 16:9 crop of a 9:16 image is much wider than it is tall
+  const normalisedRatio =
+    preset.ratio && baseCanvas ? preset.ratio * (baseCanvas.height / baseCanvas.width) : null;
+
+  // ---------------------------
+  // Load the image
+  // ---------------------------
+  useEffect(() => {
+    const img = new Image();
+    img.onload = () => setImage(img);
+    img.onerror = () => setLoadError('Failed to load image');
+    img.src = src;
+  }, [src]);
+
+  // ---------------------------
+  // Rotated/flipped full image, rebuilt only when the orientation changes
+  // ---------------------------
+  useEffect(() => {
+    if (!image) return;
+    const orientationOnly: ImageEdits = {
+      ...EMPTY_EDITS,
+      rotation: edits.rotation,
+      flipHorizontal: edits.flipHorizontal,
+      flipVertical: edits.flipVertical,
+    };
+    setBaseCanvas(drawEditedImage(image, orientationOnly, DISPLAY_MAX_SIZE));
+  }, [image, edits.rotation, edits.flipHorizontal, edits.flipVertical]);
+
+  useEffect(() => {
+    const canvas = displayRef.current;
+    if (!canvas || !baseCanvas) return;
+    canvas.width = baseCanvas.width;
+    canvas.height = baseCanvas.height;
+    canvas.getContext('2d')?.drawImage(baseCanvas, 0, 0);
+  }, [baseCanvas]);
+
+  // ---------------------------
+  // Live preview of the cropped result
+  // ---------------------------
+  useEffect(() => {
+    const canvas = previewRef.current;
+    if (!canvas || !baseCanvas) return;
+    const sx = crop.x * baseCanvas.width;
+    const sy = crop.y * baseCanvas.height;
+    const sw = Math.max(1, crop.width * baseCanvas.width);
+    const sh = Math.max(1, crop.height * baseCanvas.height);
+    const scale = PREVIEW_MAX_SIZE / Math.max(sw, sh);
+    canvas.width = Math.round(sw * scale);
+    canvas.height = Math.round(sh * scale);
+    canvas.getContext('2d')?.drawImage(baseCanvas, sx, sy, sw, sh, 0, 0, canvas.width, canvas.height);
+  }, [baseCanvas, crop.x, crop.y, crop.width, crop.height]);
+
+  // ---------------------------
+  // Transform handlers
+  // ---------------------------
+  const rotateClockwise = (current: ImageEdits): ImageEdits => ({
+    rotation: ((current.rotation + 90) % 360) as ImageEdits['rotation'],
+    // Rotating a flipped image swaps which axis the flip applies to
+    flipHorizontal: current.flipVertical,
+    flipVertical: current.flipHorizontal,
+    crop: current.crop ? rotateRectClockwise(current.crop) : null,
+    focalPoint: current.focalPoint ? rotatePointClockwise(current.focalPoint) : null,
+  });
+
+  const handleRotate = (turns: number) => {
+    setEdits((current) => {
+      let next = current;
+      for (let i = 0; i < turns; i++) next = rotateClockwise(next);
+      return next;
+    });
+    setPresetId('free');
+  };
+
+  const handleFlip = (horizontal: boolean) => {
+    setEdits((current) => ({
+      ...current,
+      flipHorizontal: horizontal ? !current.flipHorizontal : current.flipHorizontal,
+      flipVertical: horizontal ? current.flipVertical : !current.flipVertical,
+      crop: current.crop ? flipRect(current.crop, horizontal) : null,
+      focalPoint: current.focalPoint ? flipPoint(current.focalPoint, horizontal) : null,
+    }));
+  };
+
+  const handlePreset = (id: string) => {
+    setPresetId(id);
+    setTool('crop');
+    const next = ASPECT_PRESETS.find((p) => p.id === id);
+    if (next?.ratio && baseCanvas) {
+      setEdits((current) => ({
+        ...current,
+        crop: centeredCrop(next.ratio!, baseCanvas.width, baseCanvas.height),
+      }));
+    }
+  };
+
+  // ---------------------------
+  // Pointer interaction on the overlay
+  // ---------------------------
+  const toPoint = (e: PointerEvent): Point => {
+    const bounds = overlayRef.current!.getBoundingClientRect();
+    return {
+      x: clamp((e.clientX - bounds.left) / bounds.width),
+      y: clamp((e.clientY - bounds.top) / bounds.height),
+    };
+  };
+
+  const handlePointerDown = (e: PointerEvent<HTMLDivElement>) => {
+    const point = toPoint(e);
+
+    if (tool === 'focal') {
+      setEdits((current) => ({ ...current, focalPoint: point }));
+      return;
+    }
+
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const corner = (e.target as HTMLElement).dataset.corner as Corner | undefined;
+    const inside =
+      point.x >= crop.x && point.x <= crop.x + crop.width && point.y >= crop.y && point.y <= crop.y + crop.height;
+
+    if (corner) {
+      dragRef.current = { action: 'resize', start: point, startRect: crop, anchor: anchorFor(corner, crop) };
+    } else if (inside && edits.crop) {
+      dragRef.current = { action: 'move', start: point, startRect: crop, anchor: point };
+    } else {
+      // Start a brand new selection from this point
+      dragRef.current = { action: 'resize', start: point, startRect: crop, anchor: point };
+    }
+  };
+
+  const handlePointerMove = (e: PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    const point = toPoint(e);
+
+    if (drag.action === 'move') {
+      const { startRect } = drag;
+      setEdits((current) => ({
+        ...current,
+        crop: {
+          ...startRect,
+          x: clamp(startRect.x + point.x - drag.start.x, 0, 1 - startRect.width),
+          y: clamp(startRect.y + point.y - drag.start.y, 0, 1 - startRect.height),
+        },
+      }));
+    } else {
+      setEdits((current) => ({ ...current, crop: rectFromAnchor(drag.anchor, point, normalisedRatio) }));
+    }
+  };
+
+  const handlePointerUp = () => {
+    dragRef.current = null;
+  };
+
+  const handleReset = () => {
+    setEdits(EMPTY_EDITS);
+    setPresetId('free');
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    setSaveError('');
+    try {
+      const isFullCrop =
+        edits.crop && edits.crop.width >= 0.999 && edits.crop.height >= 0.999;
+      await onSave(isFullCrop ? { ...edits, crop: null } : edits, mode);
+    } catch (err: unknown) {
+      setSaveError(err instanceof Error ? err.message : 'Failed to save edits');
+      setSaving(false);
+    }
+  };
+
+  const toolButton = (active: boolean) =>
+    `inline-flex items-center gap-1.5 px-3 py-1.5 text-sm font-medium rounded-lg transition-colors ${
+      active ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+    }`;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg shadow-xl max-w-5xl w-full max-h-[95vh] overflow-y-auto p-6">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-xl font-bold text-gray-900 truncate">Edit "{title}"</h2>
+          <button
+            onClick={onClose}
+            disabled={saving}
+            className="p-1 text-gray-400 hover:text-gray-600 transition-colors disabled:opacity-50"
+          >
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        {(loadError || saveError) && (
+          <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg flex items-start gap-2">
+            <AlertCircle className="w-5 h-5 text-red-600 flex-shrink-0 mt-0.5" />
+            <p className="text-sm text-red-600">{loadError || saveError}</p>
+          </div>
+        )}
+
+        {/* TOOLBAR */}
+        <div className="flex flex-wrap items-center gap-2 mb-4">
+          <button onClick={() => setTool('crop')} className={toolButton(tool === 'crop')}>
+            <Crop className="w-4 h-4" />
+            Crop
+          </button>
+          <button onClick={() => setTool('focal')} className={toolButton(tool === 'focal')}>
+            <Crosshair className="w-4 h-4" />
+            Focal point
+          </button>
+          <span className="w-px h-6 bg-gray-200 mx-1" />
+          <button onClick={() => handleRotate(3)} className={toolButton(false)} title="Rotate left">
+            <RotateCcw className="w-4 h-4" />
+          </button>
+          <button onClick={() => handleRotate(1)} className={toolButton(false)} title="Rotate right">
+            <RotateCw className="w-4 h-4" />
+          </button>
+          <button onClick={() => handleFlip(true)} className={toolButton(edits.flipHorizontal)} title="Flip horizontally">
+            <FlipHorizontal className="w-4 h-4" />
+          </button>
+          <button onClick={() => handleFlip(false)} className={toolButton(edits.flipVertical)} title="Flip vertically">
+            <FlipVertical className="w-4 h-4" />
+          </button>
+          <button onClick={handleReset} className={toolButton(false)} title="Reset all edits">
+            <Undo2 className="w-4 h-4" />
+          </button>
+        </div>
+
+        <div className="flex flex-wrap gap-2 mb-4">
+          {ASPECT_PRESETS.map((p) => (
+            <button
+              key={p.id}
+              onClick={() => handlePreset(p.id)}
+              className={`px-3 py-1 text-xs font-medium rounded-full transition-colors ${
+                presetId === p.id ? 'bg-blue-100 text-blue-800' : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+              }`}
+            >
+              {p.label}
+            </button>
+          ))}
+        </div>
+
+        <div className="flex flex-col lg:flex-row gap-6">
+          {/* CANVAS */}
+          <div className="flex-1 flex items-center justify-center bg-gray-900 rounded-lg p-4 min-h-[300px]">
+            {!baseCanvas ? (
+              !loadError && <Loader2 className="w-8 h-8 text-white animate-spin" />
+            ) : (
+              <div className="relative inline-block overflow-hidden select-none touch-none">
+                <canvas ref={displayRef} className="block max-w-full max-h-[60vh]" />
+                <div
+                  ref={overlayRef}
+                  onPointerDown={handlePointerDown}
+                  onPointerMove={handlePointerMove}
+                  onPointerUp={handlePointerUp}
+                  onPointerCancel={handlePointerUp}
+                  className="absolute inset-0 cursor-crosshair"
+                >
+                  {edits.crop && (
+                    <div
+                      className={`absolute border-2 border-white ${tool === 'crop' ? 'cursor-move' : ''}`}
+                      style={{
+                        left: `${crop.x * 100}%`,
+                        top: `${crop.y * 100}%`,
+                        width: `${crop.width * 100}%`,
+                        height: `${crop.height * 100}%`,
+                        boxShadow: '0 0 0 9999px rgba(0, 0, 0, 0.55)',
+                      }}
+                    >
+                      {tool === 'crop' &&
+                        corners.map((corner) => (
+                          <span
+                            key={corner}
+                            data-corner={corner}
+                            className={`absolute w-3 h-3 bg-white border border-blue-600 ${cornerClasses[corner]}`}
+                          />
+                        ))}
+                    </div>
+                  )}
+                  {edits.focalPoint && (
+                    <span
+                      className="absolute w-6 h-6 -ml-3 -mt-3 rounded-full border-2 border-white bg-blue-600 bg-opacity-60 shadow pointer-events-none"
+                      style={{ left: `${edits.focalPoint.x * 100}%`, top: `${edits.focalPoint.y * 100}%` }}
+                    />
+                  )}
+                </div>
+              </div>
+            )}
+          </div>
+
+          {/* SIDE PANEL */}
+          <div className="lg:w-64 space-y-4">
+            <div>
+              <p className="text-sm font-medium text-gray-700 mb-2">Result</p>
+              <div className="bg-gray-100 rounded-lg p-2 flex items-center justify-center">
+                <canvas ref={previewRef} className="max-w-full rounded" />
+              </div>
+              <p className="text-xs text-gray-500 mt-2">
+                {tool === 'focal'
+                  ? 'Click the image to mark the subject thumbnails should keep in view.'
+                  : 'Drag to select an area, drag the corners to resize.'}
+              </p>
+            </div>
+
+            {allowBake && (
+              <div>
+                <p className="text-sm font-medium text-gray-700 mb-2">Apply edits as</p>
+                <div className="space-y-2">
+                  <label className="flex items-start gap-2 text-sm text-gray-700 cursor-pointer">
+                    <input
+                      type="radio"
+                      checked={mode === 'bake'}
+                      onChange={() => setMode('bake')}
+                      className="mt-0.5 text-blue-600 focus:ring-blue-500"
+                    />
+                    <span>Cropped file</span>
+                  </label>
+                  <label className="flex items-start gap-2 text-sm text-gray-700 cursor-pointer">
+                    <input
+                      type="radio"
+                      checked={mode === 'metadata'}
+                      onChange={() => setMode('metadata')}
+                      className="mt-0.5 text-blue-600 focus:ring-blue-500"
+                    />
+                    <span>Original file with crop metadata</span>
+                  </label>
+                </div>
+              </div>
+            )}
+          </div>
+        </div>
+
+        <div className="flex gap-3 justify-end mt-6">
+          <button
+            onClick={onClose}
+            disabled={saving}
+            className="px-5 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 disabled:opacity-50 transition-colors font-medium"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={saving || !baseCanvas}
+            className="px-5 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center gap-2 font-medium"
+          >
+            {saving ? (
+              <>
+                <Loader2 className="w-4 h-4 animate-spin" />
+                Saving...
+              </>
+            ) : (
+              'Apply'
+            )}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,299 @@
+import { useEffect, useRef, useState } from 'react';
+import {
+  X,
+  ChevronLeft,
+  ChevronRight,
+  ZoomIn,
+  ZoomOut,
+  Download,
+  Pencil,
+  Trash2,
+  Info,
+  Loader2,
+  AlertCircle,
+} from 'lucide-react';
+import PaletteSwatches from './PaletteSwatches';
+import { useZoomPan } from '../hooks/useZoomPan';
+import { PaletteColor } from '../lib/colorPalette';
+import { formatBytes } from '../lib/uploadValidation';
+import { getResolutionTier } from '../lib/wallpaperProfiles';
+
+export interface LightboxImage {
+  _id: string;
+  title: string;
+  imageUrl: string;
+  category?: { _id: string; name: string } | null;
+  width?: number;
+  height?: number;
+  bytes?: number;
+  tags?: string[];
+  palette?: PaletteColor[];
+  description?: string;
+  createdAt?: string;
+}
+
+interface LightboxProps {
+  image: LightboxImage;
+  // Position within the whole filtered result, when known
+  position?: { index: number; total: number };
+  hasPrev: boolean;
+  hasNext: boolean;
+  loadingNeighbour: boolean;
+  // Off while a drawer or dialog is open on top
+  keyboardEnabled: boolean;
+  onPrev: () => void;
+  onNext: () => void;
+  onClose: () => void;
+  onDownload: () => Promise<void>;
+  // Left out for users who may not edit or delete
+  onEdit?: () => void;
+  onDelete?: () => void;
+  // A failed download or edit; the page's own banner is hidden behind the viewer
+  error?: string;
+  onDismissError?: () => void;
+}
+
+export default function Lightbox({
+  image,
+  position,
+  hasPrev,
+  hasNext,
+  loadingNeighbour,
+  keyboardEnabled,
+  onPrev,
+  onNext,
+  onClose,
+  onDownload,
+  onEdit,
+  onDelete,
+  error,
+  onDismissError,
+}: LightboxProps) {
+  const stageRef = useRef<HTMLDivElement>(null);
+  const [showInfo, setShowInfo] = useState(true);
+  const [downloading, setDownloading] = useState(false);
+  const [loaded, setLoaded] = useState(false);
+  const { state, zoomBy, reset, handlers } = useZoomPan(stageRef, {
+    onSwipe: (direction) => {
+      if (direction === 'next' && hasNext) onNext();
+      if (direction === 'prev' && hasPrev) onPrev();
+    },
+  });
+
+  // Every image starts unzoomed
+  useEffect(() => {
+    reset();
+    setLoaded(false);
+  }, [image._id, reset]);
+
+  // The page behind must not scroll while wheel events zoom the image
+  useEffect(() => {
+    const previous = document.body.style.overflow;
+    document.body.style.overflow = 'hidden';
+    return () => {
+      document.body.style.overflow = previous;
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!keyboardEnabled) return;
+
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+      else if (e.key === 'ArrowLeft' && hasPrev) onPrev();
+      else if (e.key === 'ArrowRight' && hasNext) onNext();
+      else if (e.key === '+' || e.key === '=') zoomBy(1.5);
+      else if (e.key === '-') zoomBy(1 / 1.5);
+      else if (e.key === '0') reset();
+      else if (e.key === 'i') setShowInfo((open) => !open);
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [keyboardEnabled, hasPrev, hasNext, onPrev, onNext, onClose, zoomBy, reset]);
+
+  const handleDownload = async () => {
+    setDownloading(true);
+    try {
+      await onDownload();
+    } finally {
+      setDownloading(false);
+    }
+  };
+
+  const tier = image.width && image.height ? getResolutionTier({ width: image.width, height: image.height }) : null;
+  const toolbarButton = 'p-2 text-white rounded-full hover:bg-white hover:bg-opacity-20 transition-colors disabled:opacity-40';
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black bg-opacity-95 flex" role="dialog" aria-label={image.title}>
+      <div className="relative flex-1 flex flex-col min-w-0">
+        {/* TOOLBAR */}
+        <div className="flex items-center gap-2 p-3 text-white">
+          <p className="flex-1 min-w-0 truncate font-medium">
+            {image.title}
+            {position && (
+              <span className="ml-3 text-sm text-gray-400">
+                {position.index} / {position.total}
+              </span>
+            )}
+          </p>
+          <button onClick={() => zoomBy(1 / 1.5)} disabled={state.scale <= 1} className={toolbarButton} title="Zoom out (-)">
+            <ZoomOut className="w-5 h-5" />
+          </button>
+          <span className="w-12 text-center text-sm text-gray-300">{Math.round(state.scale * 100)}%</span>
+          <button onClick={() => zoomBy(1.5)} className={toolbarButton} title="Zoom in (+)">
+            <ZoomIn className="w-5 h-5" />
+          </button>
+          <button onClick={handleDownload} disabled={downloading} className={toolbarButton} title="Download">
+            {downloading ? <Loader2 className="w-5 h-5 animate-spin" /> : <Download className="w-5 h-5" />}
+          </button>
+          {onEdit && (
+            <button onClick={onEdit} className={toolbarButton} title="Edit details">
+              <Pencil className="w-5 h-5" />
+            </button>
+          )}
+          {onDelete && (
+            <button onClick={onDelete} className={toolbarButton} title="Delete image">
+              <Trash2 className="w-5 h-5" />
+            </button>
+          )}
+          <button
+            onClick={() => setShowInfo((open) => !open)}
+            className={`${toolbarButton} ${showInfo ? 'bg-white bg-opacity-20' : ''}`}
+            title="Info (i)"
+          >
+            <Info className="w-5 h-5" />
+          </button>
+          <button onClick={onClose} className={toolbarButton} title="Close (Esc)">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        {error && (
+          <div className="mx-3 mb-2 p-3 bg-red-50 border border-red-200 rounded-lg flex items-start gap-2">
+            <AlertCircle className="w-5 h-5 text-red-600 flex-shrink-0 mt-0.5" />
+            <p className="text-sm text-red-600 flex-1">{error}</p>
+            {onDismissError && (
+              <button onClick={onDismissError} className="text-red-400 hover:text-red-600" title="Dismiss">
+                <X className="w-4 h-4" />
+              </button>
+            )}
+          </div>
+        )}
+
+        {/* STAGE */}
+        <div
+          ref={stageRef}
+          {...handlers}
+          className={`relative flex-1 overflow-hidden touch-none select-none ${
+            state.scale > 1 ? 'cursor-grab active:cursor-grabbing' : 'cursor-zoom-in'
+          }`}
+        >
+          {!loaded && (
+            <div className="absolute inset-0 flex items-center justify-center">
+              <Loader2 className="w-10 h-10 text-white animate-spin" />
+            </div>
+          )}
+          <img
+            key={image._id}
+            src={image.imageUrl}
+            alt={image.title}
+            draggable={false}
+            onLoad={() => setLoaded(true)}
+            className="absolute inset-0 w-full h-full object-contain"
+            style={{
+              transform: `translate(${state.x}px, ${state.y}px) scale(${state.scale})`,
+              transition: state.scale === 1 ? 'transform 150ms ease-out' : undefined,
+            }}
+          />
+
+          {hasPrev && (
+            <button
+              onClick={onPrev}
+              onPointerDown={(e) => e.stopPropagation()}
+              className="absolute left-3 top-1/2 -translate-y-1/2 p-3 bg-black bg-opacity-40 text-white rounded-full hover:bg-opacity-70"
+              title="Previous (←)"
+            >
+              <ChevronLeft className="w-6 h-6" />
+            </button>
+          )}
+          {(hasNext || loadingNeighbour) && (
+            <button
+              onClick={onNext}
+              onPointerDown={(e) => e.stopPropagation()}
+              disabled={loadingNeighbour}
+              className="absolute right-3 top-1/2 -translate-y-1/2 p-3 bg-black bg-opacity-40 text-white rounded-full hover:bg-opacity-70"
+              title="Next (→)"
+            >
+              {loadingNeighbour ? <Loader2 className="w-6 h-6 animate-spin" /> : <ChevronRight className="w-6 h-6" />}
+            </button>
+          )}
+        </div>
+      </div>
+
+      {/* INFO PANEL */}
+      {showInfo && (
+        <aside className="hidden md:block w-80 flex-shrink-0 bg-white overflow-y-auto p-6">
+          <h2 className="text-lg font-bold text-gray-900 break-words">{image.title}</h2>
+          {image.description && <p className="mt-2 text-sm text-gray-600">{image.description}</p>}
+
+          <dl className="mt-6 space-y-4 text-sm">
+            <div>
+              <dt className="text-gray-500">Category</dt>
+              <dd className="text-gray-900 font-medium">{image.category?.name ?? '—'}</dd>
+            </div>
+            <div>
+              <dt className="text-gray-500">Dimensions</dt>
+              <dd className="text-gray-900 font-medium">
+                {image.width && image.height ? (
+                  <>
+                    {image.width} × {image.height}
+                    {tier && <span className="ml-2 text-gray-500">{tier.label}</span>}
+                  </>
+                ) : (
+                  'Unknown'
+                )}
+              </dd>
+            </div>
+            <div>
+              <dt className="text-gray-500">File size</dt>
+              <dd className="text-gray-900 font-medium">{image.bytes ? formatBytes(image.bytes) : 'Unknown'}</dd>
+            </div>
+            <div>
+              <dt className="text-gray-500">Uploaded</dt>
+              <dd className="text-gray-900 font-medium">
+                {image.createdAt ? new Date(image.createdAt).toLocaleString() : 'Unknown'}
+              </dd>
+            </div>
+            {image.palette && image.palette.length > 0 && (
+              <div>
+                <dt className="text-gray-500 mb-1">Colours</dt>
+                <dd className="space-y-1">
+                  <PaletteSwatches palette={image.palette} size="md" />
+                  <p className="text-xs font-mono text-gray-500">
+                    {image.palette.map((color) => color.hex).join(' ')}
+                  </p>
+                </dd>
+              </div>
+            )}
+            {image.tags && image.tags.length > 0 && (
+              <div>
+                <dt className="text-gray-500 mb-1">Tags</dt>
+                <dd className="flex flex-wrap gap-1">
+                  {image.tags.map((tag) => (
+                    <span key={tag} className="px-2 py-0.5 bg-blue-100 text-blue-800 text-xs font-medium rounded-full">
+                      #{tag}
+                    </span>
+                  ))}
+                </dd>
+              </div>
+            )}
+          </dl>
+
+          <p className="mt-8 text-xs text-gray-400">
+            ← → to browse · scroll or pinch to zoom · double-click to toggle zoom · Esc to close
+          </p>
+        </aside>
+      )}
+    </div>
+  );
+}
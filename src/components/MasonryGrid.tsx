@@ -0,0 +1,142 @@
+import { useState, useEffect, useRef, useMemo, ReactNode } from 'react';
+import { Loader2, RefreshCw } from 'lucide-react';
+import { computeMasonryLayout, visibleRange, MasonryItemLayout } from '../lib/masonry';
+
+interface MasonryGridProps<T> {
+  items: T[];
+  getKey: (item: T) => string;
+  getAspectRatio: (item: T) => number;
+  renderItem: (item: T, layout: MasonryItemLayout) => ReactNode;
+  footerHeight: number;
+  hasMore: boolean;
+  loadingMore: boolean;
+  // The last onEndReached failed; scrolling stops loading and offers a retry
+  loadFailed: boolean;
+  onEndReached: () => void;
+}
+
+const MIN_COLUMN_WIDTH = 240;
+const GAP = 24;
+// Extra distance rendered above and below the viewport, in px
+const OVERSCAN = 800;
+// Start loading the next page this far before the end
+const LOAD_AHEAD = 1200;
+
+/**
+ * Windowed masonry layout: only cards near the viewport are mounted, so
+ * thousands of loaded images stay cheap to scroll. Scrolling close to the end
+ * calls `onEndReached` to load the next page; after a failure it waits for
+ * the Retry button instead, so a persistent error can't loop.
+ */
+export default function MasonryGrid<T>({
+  items,
+  getKey,
+  getAspectRatio,
+  renderItem,
+  footerHeight,
+  hasMore,
+  loadingMore,
+  loadFailed,
+  onEndReached,
+}: MasonryGridProps<T>) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [width, setWidth] = useState(0);
+  const [viewport, setViewport] = useState({ top: 0, bottom: 0 });
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const observer = new ResizeObserver(([entry]) => setWidth(entry.contentRect.width));
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  // Viewport in the container's coordinate space
+  useEffect(() => {
+    let frame = 0;
+    const update = () => {
+      const rect = containerRef.current?.getBoundingClientRect();
+      if (!rect) return;
+      setViewport({ top: -rect.top, bottom: window.innerHeight - rect.top });
+    };
+    const onScroll = () => {
+      cancelAnimationFrame(frame);
+      frame = requestAnimationFrame(update);
+    };
+    update();
+    window.addEventListener('scroll', onScroll, { passive: true });
+    window.addEventListener('resize', onScroll);
+    return () => {
+      cancelAnimationFrame(frame);
+      window.removeEventListener('scroll', onScroll);
+      window.removeEventListener('resize', onScroll);
+    };
+  }, []);
+
+  const layout = useMemo(
+    () =>
+      computeMasonryLayout(items.map(getAspectRatio), width, {
+        minColumnWidth: MIN_COLUMN_WIDTH,
+        gap: GAP,
+        footerHeight,
+      }),
+    [items, getAspectRatio, width, footerHeight]
+  );
+
+  const visible = useMemo(
+    () => visibleRange(layout.items, viewport.top - OVERSCAN, viewport.bottom + OVERSCAN),
+    [layout, viewport]
+  );
+
+  // Callers usually pass a fresh function each render; only the latest one matters
+  const onEndReachedRef = useRef(onEndReached);
+  onEndReachedRef.current = onEndReached;
+
+  useEffect(() => {
+    if (width > 0 && hasMore && !loadingMore && !loadFailed && viewport.bottom + LOAD_AHEAD >= layout.height) {
+      onEndReachedRef.current();
+    }
+  }, [width, hasMore, loadingMore, loadFailed, viewport.bottom, layout.height]);
+
+  return (
+    <div>
+      <div ref={containerRef} className="relative" style={{ height: layout.height }}>
+        {width > 0 &&
+          visible.map((index) => {
+            const item = items[index];
+            const position = layout.items[index];
+            return (
+              <div
+                key={getKey(item)}
+                className="absolute"
+                style={{ top: position.top, left: position.left, width: position.width, height: position.height }}
+              >
+                {renderItem(item, position)}
+              </div>
+            );
+          })}
+      </div>
+
+      {loadingMore && (
+        <div className="flex justify-center py-6">
+          <Loader2 className="w-8 h-8 text-blue-600 animate-spin" />
+        </div>
+      )}
+      {loadFailed && !loadingMore && hasMore && (
+        <div className="flex flex-col items-center gap-3 py-6">
+          <p className="text-sm text-red-600">Couldn't load more images</p>
+          <button
+            onClick={() => onEndReachedRef.current()}
+            className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700"
+          >
+            <RefreshCw className="w-4 h-4" />
+            Retry
+          </button>
+        </div>
+      )}
+      {!hasMore && items.length > 0 && (
+        <p className="text-center text-sm text-gray-500 pt-6">You've reached the end</p>
+      )}
+    </div>
+  );
+}
@@ -1,23 +1,36 @@
 import { Link, useLocation, useNavigate } from 'react-router-dom';
 import { useAuth } from '../contexts/AuthContext';
-import { LogOut, Home, Upload, Image , Images} from 'lucide-react';
+import { LogOut, Home, Upload, Image , Images, Tags, Users } from 'lucide-react';
+import { Permission } from '../api/types';
+
+interface NavItem {
+  path: string;
+  label: string;
+  icon: typeof Home;
+  // Hidden from users without it
+  permission?: Permission;
+}
+
+const NAV_ITEMS: NavItem[] = [
+  { path: '/dashboard', label: 'Dashboard', icon: Home },
+  { path: '/upload', label: 'Upload Image', icon: Upload, permission: 'images:upload' },
+  { path: '/images', label: 'All Images', icon: Image },
+  { path: '/categories', label: 'Categories', icon: Images },
+  { path: '/tags', label: 'Tags', icon: Tags },
+  { path: '/users', label: 'Users', icon: Users, permission: 'users:manage' },
+];
 
 export default function Navigation() {
   const location = useLocation();
   const navigate = useNavigate();
-  const { logout } = useAuth();
+  const { logout, user, can } = useAuth();
 
   const handleLogout = () => {
     logout();
     navigate('/login');
   };
 
-  const navItems = [
-    { path: '/dashboard', label: 'Dashboard', icon: Home },
-    { path: '/upload', label: 'Upload Image', icon: Upload },
-    { path: '/images', label: 'All Images', icon: Image },
-    { path: '/categories', label: 'Categories', icon: Images },
-  ];
+  const navItems = NAV_ITEMS.filter((item) => !item.permission || can(item.permission));
 
   return (
     <nav className="bg-white shadow-md">
@@ -26,7 +39,8 @@ export default function Navigation() {
           <div className="flex space-x-8">
             {navItems.map((item) => {
               const Icon = item.icon;
-              const isActive = location.pathname === item.path;
+              const isActive =
+                location.pathname === item.path || location.pathname.startsWith(`${item.path}/`);
               return (
                 <Link
                   key={item.path}
@@ -44,6 +58,12 @@ export default function Navigation() {
             })}
           </div>
           <div className="flex items-center">
+            {user && (
+              <div className="hidden sm:block text-right mr-4">
+                <p className="text-sm font-medium text-gray-900">{user.name || user.email}</p>
+                <p className="text-xs text-gray-500 capitalize">{user.roles.join(', ') || 'viewer'}</p>
+              </div>
+            )}
             <button
               onClick={handleLogout}
               className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-red-600 hover:bg-red-700 transition-colors"
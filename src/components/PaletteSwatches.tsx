@@ -0,0 +1,41 @@
+import { COLOR_MATCH_DISTANCE, PaletteColor, colorDistance } from '../lib/colorPalette';
+
+interface PaletteSwatchesProps {
+  palette: PaletteColor[];
+  size?: 'sm' | 'md';
+  // The colour being searched for; palette colours that match it get a ring
+  match?: string;
+  // Makes each swatch a button, e.g. to filter the gallery by that colour
+  onSelect?: (hex: string) => void;
+}
+
+const sizeClasses = {
+  sm: 'w-3.5 h-3.5',
+  md: 'w-6 h-6',
+};
+
+export default function PaletteSwatches({ palette, size = 'sm', match, onSelect }: PaletteSwatchesProps) {
+  return (
+    <div className="flex items-center gap-1">
+      {palette.map((color, index) => {
+        const matches = !!match && colorDistance(color.hex, match) <= COLOR_MATCH_DISTANCE;
+        const className = `${sizeClasses[size]} rounded-full border border-black/10 flex-shrink-0 ${
+          matches ? 'ring-2 ring-offset-1 ring-blue-500' : ''
+        }`;
+        const title = `${color.hex} · ${Math.round(color.weight * 100)}%`;
+        return onSelect ? (
+          <button
+            key={index}
+            type="button"
+            onClick={() => onSelect(color.hex)}
+            className={`${className} hover:scale-125 transition-transform`}
+            style={{ backgroundColor: color.hex }}
+            title={`${title} — show images with this colour`}
+          />
+        ) : (
+          <span key={index} className={className} style={{ backgroundColor: color.hex }} title={title} />
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,54 @@
+import { useState } from 'react';
+import { Lock, Eye, EyeOff } from 'lucide-react';
+
+interface PasswordInputProps {
+  id: string;
+  value: string;
+  onChange: (value: string) => void;
+  placeholder?: string;
+  // 'current-password' at sign-in, 'new-password' when choosing one
+  autoComplete: string;
+  disabled?: boolean;
+  autoFocus?: boolean;
+}
+
+export default function PasswordInput({
+  id,
+  value,
+  onChange,
+  placeholder,
+  autoComplete,
+  disabled,
+  autoFocus,
+}: PasswordInputProps) {
+  const [visible, setVisible] = useState(false);
+
+  return (
+    <div className="relative">
+      <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+        <Lock className="h-5 w-5 text-gray-400" />
+      </div>
+      <input
+        id={id}
+        type={visible ? 'text' : 'password'}
+        required
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        autoComplete={autoComplete}
+        disabled={disabled}
+        autoFocus={autoFocus}
+        className="block w-full pl-10 pr-10 py-2.5 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors disabled:bg-gray-50"
+        placeholder={placeholder}
+      />
+      <button
+        type="button"
+        onClick={() => setVisible((shown) => !shown)}
+        className="absolute inset-y-0 right-0 pr-3 flex items-center text-gray-400 hover:text-gray-600"
+        aria-label={visible ? 'Hide password' : 'Show password'}
+        title={visible ? 'Hide password' : 'Show password'}
+      >
+        {visible ? <EyeOff className="h-5 w-5" /> : <Eye className="h-5 w-5" />}
+      </button>
+    </div>
+  );
+}
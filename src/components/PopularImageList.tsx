@@ -0,0 +1,44 @@
+import { Link } from 'react-router-dom';
+import ResponsiveImage from './ResponsiveImage';
+import { PopularImage } from '../api/types';
+
+interface PopularImageListProps {
+  images: PopularImage[];
+  // Which count ranks the list
+  metric: 'downloads' | 'views';
+  emptyMessage: string;
+}
+
+export default function PopularImageList({ images, metric, emptyMessage }: PopularImageListProps) {
+  if (images.length === 0) {
+    return <p className="py-8 text-center text-sm text-gray-500">{emptyMessage}</p>;
+  }
+
+  return (
+    <ol className="divide-y divide-gray-100">
+      {images.map((image, index) => (
+        <li key={image._id}>
+          <Link
+            to={`/images/${image._id}`}
+            state={{ backOnClose: true }}
+            className="flex items-center gap-3 py-2 px-2 -mx-2 rounded-lg hover:bg-gray-50"
+          >
+            <span className="w-5 text-sm font-medium text-gray-400 text-right">{index + 1}</span>
+            <ResponsiveImage
+              src={image.imageUrl}
+              publicId={image.publicId}
+              originalWidth={image.width}
+              sizes="48px"
+              alt=""
+              className="w-12 h-12 rounded object-cover flex-shrink-0 bg-gray-100"
+            />
+            <span className="flex-1 min-w-0 truncate text-sm font-medium text-gray-900">{image.title}</span>
+            <span className="text-sm text-gray-600 tabular-nums">
+              {image[metric].toLocaleString()} {metric === 'downloads' ? 'downloads' : 'views'}
+            </span>
+          </Link>
+        </li>
+      ))}
+    </ol>
+  );
+}
@@ -1,15 +1,44 @@
-import { Navigate } from 'react-router-dom';
+import { Navigate, Location, useLocation } from 'react-router-dom';
+import { Loader2 } from 'lucide-react';
 import { useAuth } from '../contexts/AuthContext';
+import { Permission } from '../api/types';
+import { SessionEndReason } from '../lib/session';
+import Forbidden from '../pages/Forbidden';
 
 interface ProtectedRouteProps {
   children: React.ReactNode;
+  // All of these are needed; without any, signing in is enough
+  permissions?: Permission[];
 }
 
-export default function ProtectedRoute({ children }: ProtectedRouteProps) {
-  const { isAuthenticated } = useAuth();
+// Router state handed to the login page
+export interface LoginRedirectState {
+  // Where to go back to after signing in
+  from?: Location;
+  reason?: SessionEndReason | null;
+  // Arriving from a successful password reset
+  passwordReset?: boolean;
+}
+
+export default function ProtectedRoute({ children, permissions = [] }: ProtectedRouteProps) {
+  const { isAuthenticated, endReason, userLoading, can } = useAuth();
+  const location = useLocation();
 
   if (!isAuthenticated) {
-    return <Navigate to="/login" replace />;
+    const state: LoginRedirectState = { from: location, reason: endReason };
+    return <Navigate to="/login" replace state={state} />;
+  }
+
+  if (permissions.length > 0) {
+    if (userLoading) {
+      return (
+        <div className="min-h-screen bg-gray-50 flex justify-center items-center">
+          <Loader2 className="w-8 h-8 text-blue-600 animate-spin" />
+        </div>
+      );
+    }
+    // Stay on the URL, so the page works once the role is granted
+    if (!can(...permissions)) return <Forbidden />;
   }
 
   return <>{children}</>;
@@ -0,0 +1,66 @@
+import { useState, useMemo, ImgHTMLAttributes } from 'react';
+import {
+  parseCloudinaryUrl,
+  buildCloudinaryUrl,
+  buildSrcSet,
+  buildPlaceholderUrl,
+} from '../lib/cloudinary';
+
+interface ResponsiveImageProps extends Omit<ImgHTMLAttributes<HTMLImageElement>, 'src' | 'srcSet'> {
+  src: string;
+  alt: string;
+  publicId?: string;
+  // Original pixel width, so no variant larger than the source is requested
+  originalWidth?: number;
+  sizes: string;
+}
+
+/**
+ * Lazy-loaded image that asks Cloudinary for a right-sized, auto-format copy
+ * and shows a blurred preview until it arrives. Non-Cloudinary URLs are used
+ * as-is.
+ */
+export default function ResponsiveImage({
+  src,
+  alt,
+  publicId,
+  originalWidth,
+  sizes,
+  loading = 'lazy',
+  style,
+  onLoad,
+  ...rest
+}: ResponsiveImageProps) {
+  const [loaded, setLoaded] = useState(false);
+  const asset = useMemo(() => parseCloudinaryUrl(src, publicId), [src, publicId]);
+
+  if (!asset) {
+    return <img src={src} alt={alt} loading={loading} style={style} onLoad={onLoad} {...rest} />;
+  }
+
+  return (
+    <img
+      src={buildCloudinaryUrl(asset, { width: 640 })}
+      srcSet={buildSrcSet(asset, undefined, originalWidth)}
+      sizes={sizes}
+      alt={alt}
+      loading={loading}
+      decoding="async"
+      onLoad={(e) => {
+        setLoaded(true);
+        onLoad?.(e);
+      }}
+      style={{
+        ...style,
+        ...(loaded
+          ? {}
+          : {
+              backgroundImage: `url("${buildPlaceholderUrl(asset)}")`,
+              backgroundSize: 'cover',
+              backgroundPosition: style?.objectPosition ?? 'center',
+            }),
+      }}
+      {...rest}
+    />
+  );
+}
@@ -0,0 +1,99 @@
+import { useState, useEffect } from 'react';
+import { Clock, Loader2, AlertCircle } from 'lucide-react';
+import { formatCountdown } from '../hooks/useCountdown';
+import { getErrorMessage } from '../lib/errors';
+
+interface SessionExpiryPromptProps {
+  expiresAt: number;
+  // False when there's no refresh token, so the only way on is signing in again
+  canRenew: boolean;
+  onRenew: () => Promise<void>;
+  onSignIn: () => void;
+  onDismiss: () => void;
+}
+
+export default function SessionExpiryPrompt({
+  expiresAt,
+  canRenew,
+  onRenew,
+  onSignIn,
+  onDismiss,
+}: SessionExpiryPromptProps) {
+  const [now, setNow] = useState(Date.now());
+  const [renewing, setRenewing] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const handleRenew = async () => {
+    setRenewing(true);
+    setError('');
+    try {
+      await onRenew();
+    } catch (err: unknown) {
+      setError(getErrorMessage(err, 'Could not extend your session. Save your work and sign in again.'));
+    } finally {
+      setRenewing(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-[60] p-4" role="alertdialog">
+      <div className="bg-white rounded-lg shadow-xl max-w-md w-full p-6">
+        <div className="flex items-center mb-4">
+          <div className="w-12 h-12 bg-yellow-100 rounded-full flex items-center justify-center mr-4">
+            <Clock className="w-6 h-6 text-yellow-600" />
+          </div>
+          <div>
+            <h3 className="text-lg font-bold text-gray-900">Your session is about to expire</h3>
+            <p className="text-sm text-gray-600">
+              Signing out in <span className="font-mono font-medium">{formatCountdown((expiresAt - now) / 1000)}</span>
+            </p>
+          </div>
+        </div>
+
+        <p className="text-gray-700 mb-4">
+          {canRenew
+            ? 'Stay signed in to keep working without losing anything on this page.'
+            : "This session can't be extended. Finish what you're doing, then sign in again to carry on from here."}
+        </p>
+
+        {error && (
+          <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg flex items-start">
+            <AlertCircle className="w-5 h-5 text-red-600 mt-0.5 mr-2 flex-shrink-0" />
+            <p className="text-sm text-red-800">{error}</p>
+          </div>
+        )}
+
+        <div className="flex gap-3">
+          <button
+            onClick={onDismiss}
+            className="flex-1 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+          >
+            Dismiss
+          </button>
+          {canRenew ? (
+            <button
+              onClick={handleRenew}
+              disabled={renewing}
+              className="flex-1 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 flex items-center justify-center"
+            >
+              {renewing && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Stay signed in
+            </button>
+          ) : (
+            <button
+              onClick={onSignIn}
+              className="flex-1 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+            >
+              Sign in again
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,140 @@
+import { useState, useMemo, KeyboardEvent } from 'react';
+import { X } from 'lucide-react';
+import { listTags, tagKeys } from '../api/tags';
+import { TagUsage } from '../api/types';
+import { useQuery } from '../hooks/useQuery';
+import { normalizeTag } from '../lib/tags';
+
+interface TagInputProps {
+  value: string[];
+  onChange: (tags: string[]) => void;
+  placeholder?: string;
+  disabled?: boolean;
+}
+
+const NO_TAGS: TagUsage[] = [];
+const MAX_SUGGESTIONS = 8;
+// Tags change rarely enough that one fetch serves every input on the page
+const TAGS_STALE_MS = 60 * 1000;
+
+export default function TagInput({ value, onChange, placeholder = 'Add a tag', disabled = false }: TagInputProps) {
+  const [draft, setDraft] = useState('');
+  const [focused, setFocused] = useState(false);
+  // Index into `suggestions`; -1 means Enter adds the draft as typed
+  const [highlighted, setHighlighted] = useState(-1);
+  const tagsQuery = useQuery(tagKeys.all, listTags, { staleTime: TAGS_STALE_MS, enabled: !disabled });
+  const existing = tagsQuery.data ?? NO_TAGS;
+
+  // Prefix matches before matches elsewhere in the tag, each most-used first
+  const suggestions = useMemo(() => {
+    const needle = normalizeTag(draft);
+    if (!needle) return [];
+    const candidates = existing.filter((tag) => tag.name.includes(needle) && !value.includes(tag.name));
+    return [
+      ...candidates.filter((tag) => tag.name.startsWith(needle)),
+      ...candidates.filter((tag) => !tag.name.startsWith(needle)),
+    ].slice(0, MAX_SUGGESTIONS);
+  }, [draft, existing, value]);
+  const showSuggestions = focused && suggestions.length > 0;
+
+  const addTag = (raw: string) => {
+    const tag = normalizeTag(raw);
+    if (tag && !value.includes(tag)) {
+      onChange([...value, tag]);
+    }
+    setDraft('');
+    setHighlighted(-1);
+  };
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+    if (showSuggestions && (e.key === 'ArrowDown' || e.key === 'ArrowUp')) {
+      e.preventDefault();
+      const step = e.key === 'ArrowDown' ? 1 : -1;
+      setHighlighted((current) => Math.max(-1, Math.min(suggestions.length - 1, current + step)));
+    } else if (e.key === 'Enter' || e.key === ',' || (e.key === 'Tab' && highlighted >= 0)) {
+      e.preventDefault();
+      addTag(showSuggestions && highlighted >= 0 ? suggestions[highlighted].name : draft);
+    } else if (e.key === 'Escape' && showSuggestions) {
+      e.stopPropagation();
+      setHighlighted(-1);
+      setFocused(false);
+    } else if (e.key === 'Backspace' && !draft && value.length > 0) {
+      onChange(value.slice(0, -1));
+    }
+  };
+
+  return (
+    <div className="relative">
+      <div
+        className={`flex flex-wrap items-center gap-1.5 px-2 py-1.5 border border-gray-300 rounded-lg focus-within:ring-2 focus-within:ring-blue-500 focus-within:border-blue-500 ${
+          disabled ? 'bg-gray-50' : 'bg-white'
+        }`}
+      >
+        {value.map((tag) => (
+          <span
+            key={tag}
+            className="inline-flex items-center gap-1 px-2 py-0.5 bg-blue-100 text-blue-800 text-xs font-medium rounded-full"
+          >
+            #{tag}
+            {!disabled && (
+              <button
+                type="button"
+                onClick={() => onChange(value.filter((t) => t !== tag))}
+                className="text-blue-600 hover:text-blue-800"
+                title={`Remove ${tag}`}
+              >
+                <X className="w-3 h-3" />
+              </button>
+            )}
+          </span>
+        ))}
+        <input
+          type="text"
+          value={draft}
+          onChange={(e) => {
+            setDraft(e.target.value);
+            setHighlighted(-1);
+            setFocused(true);
+          }}
+          onKeyDown={handleKeyDown}
+          onFocus={() => setFocused(true)}
+          onBlur={() => {
+            setFocused(false);
+            if (draft) addTag(draft);
+          }}
+          disabled={disabled}
+          placeholder={value.length === 0 ? placeholder : ''}
+          role="combobox"
+          aria-expanded={showSuggestions}
+          aria-autocomplete="list"
+          className="flex-1 min-w-[6rem] px-1 py-1 text-sm border-none focus:outline-none focus:ring-0 bg-transparent"
+        />
+      </div>
+
+      {showSuggestions && (
+        <ul
+          role="listbox"
+          className="absolute z-20 mt-1 w-full max-h-60 overflow-y-auto bg-white border border-gray-200 rounded-lg shadow-lg py-1"
+        >
+          {suggestions.map((tag, index) => (
+            <li
+              key={tag.name}
+              role="option"
+              aria-selected={index === highlighted}
+              // Keeps focus in the input so its blur doesn't add the half-typed draft
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => addTag(tag.name)}
+              onMouseEnter={() => setHighlighted(index)}
+              className={`flex items-center justify-between px-3 py-1.5 text-sm cursor-pointer ${
+                index === highlighted ? 'bg-blue-50 text-blue-800' : 'text-gray-700'
+              }`}
+            >
+              <span>#{tag.name}</span>
+              <span className="text-xs text-gray-400">{tag.count}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,73 @@
+import { useState, ChangeEvent, DragEvent } from 'react';
+import { Image as ImageIcon } from 'lucide-react';
+
+interface UploadDropZoneProps {
+  onFiles: (files: File[]) => void;
+  disabled?: boolean;
+}
+
+export default function UploadDropZone({ onFiles, disabled = false }: UploadDropZoneProps) {
+  const [isDragging, setIsDragging] = useState(false);
+
+  const handleInputChange = (e: ChangeEvent<HTMLInputElement>) => {
+    onFiles(Array.from(e.target.files ?? []));
+    // Reset so picking the same file again still fires onChange
+    e.target.value = '';
+  };
+
+  const handleDragOver = (e: DragEvent<HTMLLabelElement>) => {
+    e.preventDefault();
+    if (!disabled) setIsDragging(true);
+  };
+
+  const handleDragLeave = (e: DragEvent<HTMLLabelElement>) => {
+    e.preventDefault();
+    setIsDragging(false);
+  };
+
+  const handleDrop = (e: DragEvent<HTMLLabelElement>) => {
+    e.preventDefault();
+    setIsDragging(false);
+    if (disabled) return;
+    onFiles(Array.from(e.dataTransfer.files));
+  };
+
+  return (
+    <label
+      htmlFor="images"
+      onDragOver={handleDragOver}
+      onDragEnter={handleDragOver}
+      onDragLeave={handleDragLeave}
+      onDrop={handleDrop}
+      className={`flex justify-center px-6 py-8 border-2 border-dashed rounded-lg transition-colors ${
+        disabled
+          ? 'border-gray-200 bg-gray-50 cursor-not-allowed opacity-60'
+          : isDragging
+          ? 'border-blue-500 bg-blue-50 cursor-copy'
+          : 'border-gray-300 bg-gray-50 cursor-pointer hover:border-blue-400 hover:bg-gray-100'
+      }`}
+    >
+      <div className="text-center">
+        <ImageIcon
+          className={`mx-auto h-12 w-12 mb-4 ${isDragging ? 'text-blue-500' : 'text-gray-400'}`}
+        />
+        <div className="flex text-sm text-gray-600 justify-center">
+          <span className="relative font-medium text-blue-600 hover:text-blue-500">
+            {isDragging ? 'Drop to add' : 'Select files'}
+          </span>
+          <p className="pl-1">or drag and drop</p>
+        </div>
+        <p className="text-xs text-gray-500 mt-1">PNG, JPG, GIF up to 10MB each (larger files can be compressed)</p>
+      </div>
+      <input
+        id="images"
+        type="file"
+        accept="image/*"
+        multiple
+        disabled={disabled}
+        onChange={handleInputChange}
+        className="sr-only"
+      />
+    </label>
+  );
+}
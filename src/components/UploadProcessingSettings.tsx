@@ -0,0 +1,105 @@
+import { SlidersHorizontal } from 'lucide-react';
+import { ProcessingOptions, OutputFormat } from '../lib/imageProcessing';
+
+interface UploadProcessingSettingsProps {
+  enabled: boolean;
+  options: ProcessingOptions;
+  onToggle: (enabled: boolean) => void;
+  onChange: (options: ProcessingOptions) => void;
+  onApply: () => void;
+  canApply: boolean;
+}
+
+export default function UploadProcessingSettings({
+  enabled,
+  options,
+  onToggle,
+  onChange,
+  onApply,
+  canApply,
+}: UploadProcessingSettingsProps) {
+  const inputClass =
+    'block w-full px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 disabled:bg-gray-50';
+
+  return (
+    <div className="p-4 border border-gray-200 rounded-lg">
+      <div className="flex items-center justify-between">
+        <label className="flex items-center gap-3 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={enabled}
+            onChange={(e) => onToggle(e.target.checked)}
+            className="w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+          />
+          <span className="flex items-center gap-2 text-sm font-medium text-gray-900">
+            <SlidersHorizontal className="w-4 h-4 text-gray-500" />
+            Optimise before upload
+          </span>
+        </label>
+        <span className="text-xs text-gray-500">Resizes, recompresses and strips EXIF/GPS data</span>
+      </div>
+
+      {enabled && (
+        <div className="mt-4 grid grid-cols-2 sm:grid-cols-4 gap-3 items-end">
+          <div>
+            <label className="block text-xs font-medium text-gray-700 mb-1">Max width (px)</label>
+            <input
+              type="number"
+              min={320}
+              step={10}
+              value={options.maxWidth}
+              onChange={(e) => onChange({ ...options, maxWidth: Number(e.target.value) || options.maxWidth })}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-700 mb-1">Max height (px)</label>
+            <input
+              type="number"
+              min={320}
+              step={10}
+              value={options.maxHeight}
+              onChange={(e) => onChange({ ...options, maxHeight: Number(e.target.value) || options.maxHeight })}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-700 mb-1">Format</label>
+            <select
+              value={options.format}
+              onChange={(e) => onChange({ ...options, format: e.target.value as OutputFormat })}
+              className={`${inputClass} bg-white`}
+            >
+              <option value="image/jpeg">JPEG</option>
+              <option value="image/webp">WebP</option>
+            </select>
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-700 mb-1">
+              Quality ({Math.round(options.quality * 100)}%)
+            </label>
+            <input
+              type="range"
+              min={0.4}
+              max={1}
+              step={0.05}
+              value={options.quality}
+              onChange={(e) => onChange({ ...options, quality: Number(e.target.value) })}
+              className="w-full"
+            />
+          </div>
+          <div className="col-span-2 sm:col-span-4 flex justify-end">
+            <button
+              type="button"
+              onClick={onApply}
+              disabled={!canApply}
+              className="px-4 py-2 text-sm font-medium text-blue-700 bg-blue-100 rounded-lg hover:bg-blue-200 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              Re-apply to queue
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,318 @@
+import {
+  Loader2,
+  CheckCircle,
+  AlertCircle,
+  AlertTriangle,
+  RotateCcw,
+  X,
+  Ban,
+  Clock,
+  Minimize2,
+  Crop,
+} from 'lucide-react';
+import { UploadItem, canCompressToFit } from '../hooks/useUploadQueue';
+import DuplicateWarning, { DuplicateCandidate } from './DuplicateWarning';
+import { DuplicateMatch } from '../lib/imageHashing';
+import { formatBytes } from '../lib/uploadValidation';
+import { formatEta } from '../lib/uploadClient';
+import { classifyWallpaper, ResolutionCheck } from '../lib/wallpaperProfiles';
+import { focalObjectPosition, focalPointInCrop } from '../lib/imageEdits';
+import CategoryOptions from './CategoryOptions';
+import TagInput from './TagInput';
+import PaletteSwatches from './PaletteSwatches';
+import { Category } from '../api/types';
+
+interface UploadQueueItemProps {
+  item: UploadItem;
+  resolutionCheck: ResolutionCheck | null;
+  duplicates: DuplicateMatch<DuplicateCandidate>[];
+  categories: Category[];
+  // A resolution or duplicate warning has to be dealt with before retrying
+  retryBlocked?: boolean;
+  onChange: (id: string, patch: Partial<UploadItem>) => void;
+  onRetry: (id: string) => void;
+  onCancel: (id: string) => void;
+  onRemove: (id: string) => void;
+  onCompress: (item: UploadItem) => void;
+  onRestore: (id: string) => void;
+  onEdit: (item: UploadItem) => void;
+}
+
+const statusStyles: Record<UploadItem['status'], string> = {
+  pending: 'bg-gray-100 text-gray-700',
+  queued: 'bg-yellow-100 text-yellow-800',
+  uploading: 'bg-blue-100 text-blue-800',
+  success: 'bg-green-100 text-green-800',
+  error: 'bg-red-100 text-red-800',
+  cancelled: 'bg-gray-200 text-gray-600',
+};
+
+const statusLabels: Record<UploadItem['status'], string> = {
+  pending: 'Ready',
+  queued: 'Queued',
+  uploading: 'Uploading',
+  success: 'Uploaded',
+  error: 'Failed',
+  cancelled: 'Cancelled',
+};
+
+export default function UploadQueueItem({
+  item,
+  resolutionCheck,
+  duplicates,
+  categories,
+  retryBlocked = false,
+  onChange,
+  onRetry,
+  onCancel,
+  onRemove,
+  onCompress,
+  onRestore,
+  onEdit,
+}: UploadQueueItemProps) {
+  const isLocked = item.status === 'queued' || item.status === 'uploading' || item.status === 'success';
+  const canRetry = (item.status === 'error' || item.status === 'cancelled') && !item.validationError;
+  const canCancel = item.status === 'queued' || item.status === 'uploading';
+  const sizeChange = Math.round((item.file.size / item.originalFile.size - 1) * 100);
+  const classification = item.dimensions ? classifyWallpaper(item.dimensions) : null;
+
+  return (
+    <div className="flex gap-4 p-4 border border-gray-200 rounded-lg bg-white">
+      <div className="relative w-24 h-24 flex-shrink-0">
+        <img
+          src={item.preview}
+          alt={item.title || item.file.name}
+          className="w-24 h-24 object-cover rounded-lg bg-gray-100"
+          style={{ objectPosition: item.edits ? focalObjectPosition(focalPointInCrop(item.edits)) : undefined }}
+        />
+        {item.processing && (
+          <div className="absolute inset-0 bg-white bg-opacity-70 rounded-lg flex items-center justify-center">
+            <Loader2 className="w-6 h-6 text-blue-600 animate-spin" />
+          </div>
+        )}
+      </div>
+
+      <div className="flex-1 min-w-0 space-y-2">
+        <div className="flex items-center justify-between gap-2">
+          <p className="text-xs text-gray-500 truncate" title={item.file.name}>
+            {item.file.name} · {formatBytes(item.file.size)}
+          </p>
+          <span
+            className={`inline-flex items-center gap-1 px-2.5 py-0.5 rounded-full text-xs font-medium flex-shrink-0 ${statusStyles[item.status]}`}
+          >
+            {item.status === 'uploading' && <Loader2 className="w-3 h-3 animate-spin" />}
+            {item.status === 'queued' && <Clock className="w-3 h-3" />}
+            {item.status === 'success' && <CheckCircle className="w-3 h-3" />}
+            {item.status === 'error' && <AlertCircle className="w-3 h-3" />}
+            {item.status === 'cancelled' && <Ban className="w-3 h-3" />}
+            {statusLabels[item.status]}
+          </span>
+        </div>
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+          <input
+            type="text"
+            value={item.title}
+            onChange={(e) => onChange(item.id, { title: e.target.value })}
+            disabled={isLocked}
+            placeholder="Image title"
+            className={`block w-full px-3 py-2 text-sm border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 disabled:bg-gray-50 ${
+              item.title.trim() ? 'border-gray-300' : 'border-red-300'
+            }`}
+          />
+          <select
+            value={item.category}
+            onChange={(e) => onChange(item.id, { category: e.target.value })}
+            disabled={isLocked}
+            className="block w-full px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 bg-white disabled:bg-gray-50"
+          >
+            <option value="">Select Category</option>
+            <CategoryOptions categories={categories} />
+          </select>
+        </div>
+
+        <TagInput
+          value={item.tags}
+          onChange={(tags) => onChange(item.id, { tags })}
+          disabled={isLocked}
+          placeholder="Tags (optional)"
+        />
+
+        {item.dimensions && classification && (
+          <div className="flex flex-wrap items-center gap-1.5">
+            {item.palette && item.palette.length > 0 && <PaletteSwatches palette={item.palette} />}
+            <span className="px-2 py-0.5 bg-gray-100 text-gray-700 text-xs font-medium rounded-full">
+              {item.dimensions.width}×{item.dimensions.height}
+            </span>
+            {classification.tier && (
+              <span className="px-2 py-0.5 bg-purple-100 text-purple-800 text-xs font-medium rounded-full">
+                {classification.tier.label}
+              </span>
+            )}
+            <span className="px-2 py-0.5 bg-gray-100 text-gray-700 text-xs font-medium rounded-full capitalize">
+              {classification.orientation} · {classification.aspectRatio}
+            </span>
+            {classification.profiles.map((profile) => (
+              <span
+                key={profile.id}
+                className="px-2 py-0.5 bg-blue-50 text-blue-700 text-xs font-medium rounded-full"
+              >
+                {profile.label}
+              </span>
+            ))}
+          </div>
+        )}
+
+        {resolutionCheck && resolutionCheck.level !== 'ok' && (
+          <p
+            className={`text-xs flex items-center gap-1 ${
+              resolutionCheck.level === 'block' ? 'text-red-600' : 'text-yellow-700'
+            }`}
+          >
+            {resolutionCheck.level === 'block' ? (
+              <AlertCircle className="w-3.5 h-3.5 flex-shrink-0" />
+            ) : (
+              <AlertTriangle className="w-3.5 h-3.5 flex-shrink-0" />
+            )}
+            {resolutionCheck.message}
+          </p>
+        )}
+
+        {item.hashing && (
+          <p className="text-xs text-gray-500 flex items-center gap-1">
+            <Loader2 className="w-3.5 h-3.5 animate-spin" />
+            Checking for duplicates...
+          </p>
+        )}
+
+        {duplicates.length > 0 && (
+          <DuplicateWarning
+            preview={item.preview}
+            matches={duplicates}
+            resolution={item.duplicateResolution}
+            disabled={isLocked}
+            onResolve={(duplicateResolution) => onChange(item.id, { duplicateResolution })}
+            onSkip={() => onRemove(item.id)}
+          />
+        )}
+
+        {item.processed && (
+          <p className="text-xs text-gray-600">
+            <span className="font-medium text-green-700">Optimised:</span>{' '}
+            {item.processed.originalWidth}×{item.processed.originalHeight} ·{' '}
+            {formatBytes(item.originalFile.size)} → {item.processed.width}×{item.processed.height} ·{' '}
+            {formatBytes(item.file.size)}{' '}
+            <span className="text-green-700">
+              ({sizeChange > 0 ? '+' : ''}
+              {sizeChange}%)
+            </span>
+            {!isLocked && (
+              <button
+                type="button"
+                onClick={() => onRestore(item.id)}
+                className="ml-2 text-blue-600 hover:text-blue-500 hover:underline"
+              >
+                Use original
+              </button>
+            )}
+          </p>
+        )}
+
+        {item.status === 'uploading' && (
+          <div>
+            <div className="h-2 bg-gray-200 rounded-full overflow-hidden">
+              <div
+                className="h-full bg-blue-600 transition-all duration-200"
+                style={{ width: `${item.progress?.percent ?? 0}%` }}
+              />
+            </div>
+            <div className="flex justify-between mt-1 text-xs text-gray-500">
+              <span>
+                {item.retryAttempt > 0 && !item.progress
+                  ? `Connection lost, retrying (attempt ${item.retryAttempt})...`
+                  : item.progress
+                  ? `${item.progress.percent}% · ${formatBytes(item.progress.loaded)} of ${formatBytes(item.progress.total)}`
+                  : 'Starting...'}
+              </span>
+              {item.progress && (
+                <span>
+                  {formatBytes(item.progress.bytesPerSecond)}/s
+                  {item.progress.etaSeconds !== null && ` · ${formatEta(item.progress.etaSeconds)}`}
+                </span>
+              )}
+            </div>
+          </div>
+        )}
+
+        {item.validationError && (
+          <p className="text-xs text-red-600 flex items-center gap-1">
+            <AlertCircle className="w-3.5 h-3.5 flex-shrink-0" />
+            {item.validationError}
+            {canCompressToFit(item) && !item.processing && (
+              <button
+                type="button"
+                onClick={() => onCompress(item)}
+                className="ml-2 inline-flex items-center gap-1 font-medium text-blue-600 hover:text-blue-500"
+              >
+                <Minimize2 className="w-3.5 h-3.5" />
+                Compress to fit
+              </button>
+            )}
+          </p>
+        )}
+        {item.error && (
+          <p className="text-xs text-red-600 flex items-center gap-1">
+            <AlertCircle className="w-3.5 h-3.5 flex-shrink-0" />
+            {item.error}
+          </p>
+        )}
+      </div>
+
+      <div className="flex flex-col gap-1 flex-shrink-0">
+        {!isLocked && !item.processing && (
+          <button
+            type="button"
+            onClick={() => onEdit(item)}
+            className={`p-2 rounded-lg transition-colors ${
+              item.edits ? 'text-blue-600 bg-blue-50 hover:bg-blue-100' : 'text-gray-500 hover:bg-gray-100'
+            }`}
+            title="Crop, rotate and set focal point"
+          >
+            <Crop className="w-4 h-4" />
+          </button>
+        )}
+        {canRetry && (
+          <button
+            type="button"
+            onClick={() => onRetry(item.id)}
+            disabled={retryBlocked}
+            className="p-2 text-blue-600 hover:bg-blue-50 rounded-lg transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+            title={retryBlocked ? 'Resolve the warning first' : 'Retry upload'}
+          >
+            <RotateCcw className="w-4 h-4" />
+          </button>
+        )}
+        {canCancel && (
+          <button
+            type="button"
+            onClick={() => onCancel(item.id)}
+            className="p-2 text-orange-600 hover:bg-orange-50 rounded-lg transition-colors"
+            title="Cancel upload"
+          >
+            <Ban className="w-4 h-4" />
+          </button>
+        )}
+        {!canCancel && (
+          <button
+            type="button"
+            onClick={() => onRemove(item.id)}
+            className="p-2 text-gray-500 hover:bg-gray-100 rounded-lg transition-colors"
+            title="Remove from queue"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
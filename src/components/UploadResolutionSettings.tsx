@@ -0,0 +1,53 @@
+import { Monitor } from 'lucide-react';
+import { RESOLUTION_TIERS, ResolutionRules } from '../lib/wallpaperProfiles';
+
+interface UploadResolutionSettingsProps {
+  rules: ResolutionRules;
+  onChange: (rules: ResolutionRules) => void;
+}
+
+export default function UploadResolutionSettings({ rules, onChange }: UploadResolutionSettingsProps) {
+  const selectClass =
+    'block w-full px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 bg-white';
+
+  return (
+    <div className="p-4 border border-gray-200 rounded-lg">
+      <p className="flex items-center gap-2 text-sm font-medium text-gray-900 mb-3">
+        <Monitor className="w-4 h-4 text-gray-500" />
+        Minimum resolution
+      </p>
+      <div className="grid grid-cols-2 gap-3">
+        <div>
+          <label className="block text-xs font-medium text-gray-700 mb-1">Warn below</label>
+          <select
+            value={rules.warnBelow}
+            onChange={(e) => onChange({ ...rules, warnBelow: e.target.value })}
+            className={selectClass}
+          >
+            <option value="">Never warn</option>
+            {RESOLUTION_TIERS.map((tier) => (
+              <option key={tier.id} value={tier.id}>
+                {tier.label} ({tier.longEdge}×{tier.shortEdge})
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-gray-700 mb-1">Block below</label>
+          <select
+            value={rules.blockBelow}
+            onChange={(e) => onChange({ ...rules, blockBelow: e.target.value })}
+            className={selectClass}
+          >
+            <option value="">Never block</option>
+            {RESOLUTION_TIERS.map((tier) => (
+              <option key={tier.id} value={tier.id}>
+                {tier.label} ({tier.longEdge}×{tier.shortEdge})
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,34 +1,137 @@
-import { createContext, useContext, useState, useEffect, ReactNode } from 'react';
+import { createContext, useContext, useState, useEffect, useMemo, useCallback, ReactNode } from 'react';
+import SessionExpiryPrompt from '../components/SessionExpiryPrompt';
+import { clearQueries } from '../api/queryCache';
+import { authKeys, getCurrentUser, toAuthUser } from '../api/auth';
+import { AuthUser, Permission } from '../api/types';
+import { useQuery } from '../hooks/useQuery';
+import { refreshAccessToken } from '../lib/axios';
+import { decodeJwt } from '../lib/jwt';
+import { getPermissions } from '../lib/permissions';
+import {
+  Session,
+  SessionEndReason,
+  clearSession,
+  getSession,
+  isSessionExpired,
+  saveSession,
+  subscribeSession,
+} from '../lib/session';
 
 interface AuthContextType {
   isAuthenticated: boolean;
-  login: (token: string) => void;
+  user: AuthUser | null;
+  // True until we know enough about the user to decide what they may do
+  userLoading: boolean;
+  // Whether the user holds every one of `permissions`
+  can: (...permissions: Permission[]) => boolean;
+  // Why the last session ended, so the login page can explain
+  endReason: SessionEndReason | null;
+  // `remember` keeps the session across browser restarts
+  login: (token: string, refreshToken?: string | null, remember?: boolean) => void;
   logout: () => void;
 }
 
+// Renew this long before expiry when there's a refresh token
+const SILENT_REFRESH_AHEAD_MS = 2 * 60 * 1000;
+// Warn this long before expiry if the token hasn't been renewed by then
+const EXPIRY_WARNING_AHEAD_MS = 60 * 1000;
+// setTimeout fires immediately for delays past ~24.8 days
+const MAX_TIMER_MS = 2 ** 31 - 1;
+// Roles rarely change mid-session; a stale profile is refetched after this
+const PROFILE_STALE_TIME = 5 * 60 * 1000;
+
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
+// An expired token that can't be renewed is as good as none
+const loadSession = () => {
+  const session = getSession();
+  if (session && isSessionExpired(session) && !session.refreshToken) {
+    clearSession('expired');
+    return null;
+  }
+  return session;
+};
+
 export function AuthProvider({ children }: { children: ReactNode }) {
-  const [isAuthenticated, setIsAuthenticated] = useState<boolean>(false);
+  const [session, setSession] = useState<Session | null>(loadSession);
+  const [endReason, setEndReason] = useState<SessionEndReason | null>(null);
+  const [showExpiryWarning, setShowExpiryWarning] = useState(false);
+
+  // The token's claims give a first answer straight away; GET /auth/me has the
+  // final say, and backends without it leave the claims in charge
+  const accessToken = session?.accessToken;
+  const claimsUser = useMemo(() => (accessToken ? toAuthUser(decodeJwt(accessToken)) : null), [accessToken]);
+  const profile = useQuery(authKeys.me, getCurrentUser, {
+    enabled: !!session,
+    staleTime: PROFILE_STALE_TIME,
+  });
+  const user = session ? profile.data ?? claimsUser : null;
+  // Claims without roles can't be trusted to mean "viewer" until /auth/me answers
+  const userLoading = !!session && profile.isLoading && !claimsUser?.roles.length;
+
+  const permissions = useMemo(() => getPermissions(user), [user]);
+  const can = useCallback(
+    (...required: Permission[]) => required.every((permission) => permissions.has(permission)),
+    [permissions]
+  );
+
+  // Refreshes made by the axios interceptor land here too
+  useEffect(
+    () =>
+      subscribeSession((next, reason) => {
+        setSession(next);
+        setShowExpiryWarning(false);
+        setEndReason(next ? null : reason ?? null);
+        // The next user mustn't see this one's data
+        if (!next) clearQueries();
+      }),
+    []
+  );
 
   useEffect(() => {
-    const token = localStorage.getItem('jwt_token');
-    setIsAuthenticated(!!token);
-  }, []);
+    const expiresAt = session?.expiresAt;
+    if (!session || !expiresAt) return;
+
+    const timers: ReturnType<typeof setTimeout>[] = [];
+    const at = (time: number, callback: () => void) => {
+      const delay = time - Date.now();
+      if (delay <= MAX_TIMER_MS) timers.push(setTimeout(callback, Math.max(0, delay)));
+    };
+
+    // Resolves false on failure; a rejected refresh token ends the session by itself
+    const renew = () => refreshAccessToken().then(() => true, () => false);
+    if (session.refreshToken) at(expiresAt - SILENT_REFRESH_AHEAD_MS, renew);
+    // Warn only when renewing silently isn't possible or keeps failing
+    at(expiresAt - EXPIRY_WARNING_AHEAD_MS, async () => {
+      if (!session.refreshToken || !(await renew())) setShowExpiryWarning(true);
+    });
+    at(expiresAt, () => (session.refreshToken ? renew() : clearSession('expired')));
+
+    return () => timers.forEach(clearTimeout);
+  }, [session]);
 
-  const login = (token: string) => {
-    localStorage.setItem('jwt_token', token);
-    setIsAuthenticated(true);
+  const login = (token: string, refreshToken: string | null = null, remember = true) => {
+    saveSession(token, refreshToken, remember);
   };
 
   const logout = () => {
-    localStorage.removeItem('jwt_token');
-    setIsAuthenticated(false);
+    clearSession('logout');
   };
 
   return (
-    <AuthContext.Provider value={{ isAuthenticated, login, logout }}>
+    <AuthContext.Provider value={{ isAuthenticated: !!session, user, userLoading, can, endReason, login, logout }}>
       {children}
+      {session?.expiresAt && showExpiryWarning && (
+        <SessionExpiryPrompt
+          expiresAt={session.expiresAt}
+          canRenew={!!session.refreshToken}
+          onRenew={async () => {
+            await refreshAccessToken();
+          }}
+          onSignIn={() => clearSession('expired')}
+          onDismiss={() => setShowExpiryWarning(false)}
+        />
+      )}
     </AuthContext.Provider>
   );
 }
@@ -0,0 +1,34 @@
+import { useCallback, useEffect, useState } from 'react';
+
+// 1:05 for 65 seconds
+export const formatCountdown = (seconds: number) => {
+  const whole = Math.max(0, Math.ceil(seconds));
+  return `${Math.floor(whole / 60)}:${String(whole % 60).padStart(2, '0')}`;
+};
+
+/**
+ * Seconds left until a deadline set with `start`, ticking once a second and
+ * settling at 0. Used to hold a form back while the server says to wait.
+ */
+export function useCountdown() {
+  const [endsAt, setEndsAt] = useState<number | null>(null);
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    if (endsAt === null) return;
+    const timer = setInterval(() => {
+      const time = Date.now();
+      setNow(time);
+      if (time >= endsAt) setEndsAt(null);
+    }, 1000);
+    return () => clearInterval(timer);
+  }, [endsAt]);
+
+  const start = useCallback((seconds: number) => {
+    const time = Date.now();
+    setNow(time);
+    setEndsAt(time + seconds * 1000);
+  }, []);
+
+  return { remaining: endsAt === null ? 0 : Math.max(0, Math.ceil((endsAt - now) / 1000)), start };
+}
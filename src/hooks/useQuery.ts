@@ -0,0 +1,48 @@
+import { useCallback, useEffect, useMemo, useRef, useSyncExternalStore } from 'react';
+import {
+  QueryKey,
+  fetchQuery,
+  getQueryState,
+  refetchQuery,
+  subscribeQuery,
+} from '../api/queryCache';
+
+interface UseQueryOptions {
+  staleTime?: number;
+  // False holds off fetching, e.g. until a dependency is known
+  enabled?: boolean;
+}
+
+/**
+ * Reads `key` through the shared query cache. Cached data is returned at once
+ * and revalidated in the background when stale; every component reading the
+ * same key shares one request and re-renders when it lands.
+ */
+export function useQuery<T>(key: QueryKey, fetcher: () => Promise<T>, { staleTime, enabled = true }: UseQueryOptions = {}) {
+  // Key arrays are usually rebuilt every render; only a change in content counts
+  const hash = JSON.stringify(key);
+  const stableKey = useMemo(() => JSON.parse(hash) as QueryKey, [hash]);
+  const fetcherRef = useRef(fetcher);
+  fetcherRef.current = fetcher;
+
+  const subscribe = useCallback((listener: () => void) => subscribeQuery(stableKey, listener), [stableKey]);
+  const getSnapshot = useCallback(() => getQueryState<T>(stableKey), [stableKey]);
+  const state = useSyncExternalStore(subscribe, getSnapshot);
+
+  useEffect(() => {
+    if (!enabled) return;
+    // Errors are kept in the cache entry and surface through `state.error`
+    fetchQuery(stableKey, () => fetcherRef.current(), { staleTime }).catch(() => {});
+  }, [stableKey, enabled, staleTime]);
+
+  const refetch = useCallback(() => refetchQuery<T>(stableKey), [stableKey]);
+
+  return {
+    data: state.data,
+    error: state.error,
+    isFetching: state.isFetching,
+    // Nothing to show yet, as opposed to revalidating data already on screen
+    isLoading: enabled && state.data === undefined && (state.isFetching || state.error === undefined),
+    refetch,
+  };
+}
@@ -0,0 +1,38 @@
+import { useEffect, useRef } from 'react';
+import { useLocation, useNavigationType } from 'react-router-dom';
+
+const storageKey = (locationKey: string) => `scroll:${locationKey}`;
+
+/**
+ * Remembers the window scroll position per history entry and puts it back on
+ * back/forward navigation. `<ScrollRestoration>` needs a data router, and the
+ * app uses `<BrowserRouter>`, so this covers the same ground for one page.
+ * `ready` should turn true once the content for the current entry has rendered,
+ * otherwise the saved offset may be beyond the end of the page.
+ */
+export function useScrollRestoration(ready: boolean) {
+  const location = useLocation();
+  const navigationType = useNavigationType();
+  const restoredKey = useRef<string | null>(null);
+  const key = storageKey(location.key);
+
+  useEffect(() => {
+    let frame = 0;
+    const onScroll = () => {
+      cancelAnimationFrame(frame);
+      frame = requestAnimationFrame(() => sessionStorage.setItem(key, String(window.scrollY)));
+    };
+    window.addEventListener('scroll', onScroll, { passive: true });
+    return () => {
+      cancelAnimationFrame(frame);
+      window.removeEventListener('scroll', onScroll);
+    };
+  }, [key]);
+
+  useEffect(() => {
+    if (!ready || navigationType !== 'POP' || restoredKey.current === key) return;
+    restoredKey.current = key;
+    const saved = sessionStorage.getItem(key);
+    if (saved !== null) window.scrollTo(0, Number(saved));
+  }, [ready, navigationType, key]);
+}
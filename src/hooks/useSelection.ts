@@ -0,0 +1,95 @@
+import { useState, useRef, useCallback } from 'react';
+
+interface Identifiable {
+  _id: string;
+}
+
+/**
+ * Checkbox selection over a paginated list. Selected items are kept by id so a
+ * selection survives page changes; `allMatching` stands for "every record the
+ * current filter matches", including ones that were never loaded.
+ */
+export function useSelection<T extends Identifiable>() {
+  const [selected, setSelected] = useState<Map<string, T>>(new Map());
+  const [allMatching, setAllMatching] = useState(false);
+  // Last item clicked without shift, the fixed end of a shift-click range
+  const anchorId = useRef<string | null>(null);
+
+  const isSelected = useCallback(
+    (id: string) => allMatching || selected.has(id),
+    [allMatching, selected]
+  );
+
+  const toggle = useCallback(
+    (item: T, visible: T[], range = false) => {
+      const anchorIndex = visible.findIndex((v) => v._id === anchorId.current);
+      const index = visible.findIndex((v) => v._id === item._id);
+
+      setSelected((prev) => {
+        // Narrowing an "all matching" selection drops back to the visible page
+        const next = allMatching ? new Map(visible.map((v) => [v._id, v])) : new Map(prev);
+
+        if (range && anchorIndex !== -1 && index !== -1) {
+          const shouldSelect = !prev.has(item._id) || allMatching;
+          const [from, to] = anchorIndex < index ? [anchorIndex, index] : [index, anchorIndex];
+          for (const v of visible.slice(from, to + 1)) {
+            if (shouldSelect) next.set(v._id, v);
+            else next.delete(v._id);
+          }
+        } else if (next.has(item._id)) {
+          next.delete(item._id);
+        } else {
+          next.set(item._id, item);
+        }
+        return next;
+      });
+
+      setAllMatching(false);
+      if (!range) anchorId.current = item._id;
+    },
+    [allMatching]
+  );
+
+  const selectPage = useCallback((visible: T[]) => {
+    setSelected((prev) => {
+      const next = new Map(prev);
+      visible.forEach((v) => next.set(v._id, v));
+      return next;
+    });
+  }, []);
+
+  const deselectPage = useCallback((visible: T[]) => {
+    setAllMatching(false);
+    setSelected((prev) => {
+      const next = new Map(prev);
+      visible.forEach((v) => next.delete(v._id));
+      return next;
+    });
+  }, []);
+
+  const selectAllMatching = useCallback(() => setAllMatching(true), []);
+
+  // Replaces the selection, e.g. with the items whose bulk action failed
+  const replace = useCallback((items: T[]) => {
+    setAllMatching(false);
+    setSelected(new Map(items.map((item) => [item._id, item])));
+  }, []);
+
+  const clear = useCallback(() => {
+    setAllMatching(false);
+    setSelected(new Map());
+    anchorId.current = null;
+  }, []);
+
+  return {
+    selected,
+    allMatching,
+    isSelected,
+    toggle,
+    selectPage,
+    deselectPage,
+    selectAllMatching,
+    replace,
+    clear,
+  };
+}
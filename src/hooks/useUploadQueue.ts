@@ -0,0 +1,454 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { getErrorMessage } from '../lib/errors';
+import { ApiError } from '../api/client';
+import { validateUploadFile, titleFromFilename } from '../lib/uploadValidation';
+import { UploadProgress } from '../lib/uploadClient';
+import { ProcessingOptions, canProcess, readImageDimensions } from '../lib/imageProcessing';
+import { Dimensions } from '../lib/wallpaperProfiles';
+import {
+  EditMode,
+  ImageEdits,
+  hasEdits,
+  hasGeometryEdits,
+  renderEditedFile,
+  renderEditedPreview,
+} from '../lib/imageEdits';
+import { ImageHashes } from '../lib/imageHashing';
+import { hashImage } from '../lib/hashWorker';
+import { paletteOf } from '../lib/paletteWorker';
+import { PaletteColor } from '../lib/colorPalette';
+import { processImage, compressToLimit, toProcessedFile } from '../lib/imageWorker';
+import { MAX_UPLOAD_SIZE } from '../lib/uploadValidation';
+
+// Duplicate checks give up after this long, so a stuck hash never holds an upload back
+const HASH_TIMEOUT_MS = 20 * 1000;
+
+export type UploadStatus = 'pending' | 'queued' | 'uploading' | 'success' | 'error' | 'cancelled';
+
+export interface ProcessedInfo {
+  width: number;
+  height: number;
+  originalWidth: number;
+  originalHeight: number;
+}
+
+// How the user chose to handle a likely duplicate of an existing image.
+export type DuplicateResolution = { action: 'keep' } | { action: 'replace'; imageId: string };
+
+export interface UploadItem {
+  id: string;
+  // What gets uploaded; differs from originalFile once the item has been processed
+  file: File;
+  // Input to processing: the picked file, with edits rendered in when baked
+  originalFile: File;
+  // The file exactly as picked, so edits can always be redone from scratch
+  sourceFile: File;
+  edits: ImageEdits | null;
+  editMode: EditMode;
+  processing: boolean;
+  processed: ProcessedInfo | null;
+  // Pixel size of `file`; null until it has been decoded
+  dimensions: Dimensions | null;
+  // Hashes of sourceFile, used for duplicate detection
+  hashing: boolean;
+  hashes: ImageHashes | null;
+  duplicateResolution: DuplicateResolution | null;
+  // Dominant colours of sourceFile; null until extracted, or if that failed
+  palette: PaletteColor[] | null;
+  title: string;
+  category: string;
+  tags: string[];
+  preview: string;
+  validationError: string | null;
+  status: UploadStatus;
+  error: string;
+  progress: UploadProgress | null;
+  retryAttempt: number;
+}
+
+export interface UploadControls {
+  signal: AbortSignal;
+  onProgress: (progress: UploadProgress) => void;
+  onRetry: (attempt: number, delayMs: number) => void;
+}
+
+export type UploadFn = (item: UploadItem, controls: UploadControls) => Promise<void>;
+
+interface UseUploadQueueOptions {
+  concurrency: number;
+  upload: UploadFn;
+}
+
+let nextId = 0;
+
+const createItem = (file: File): UploadItem => ({
+  id: `upload-${Date.now()}-${nextId++}`,
+  file,
+  originalFile: file,
+  sourceFile: file,
+  edits: null,
+  editMode: 'metadata',
+  processing: false,
+  processed: null,
+  dimensions: null,
+  hashing: false,
+  hashes: null,
+  duplicateResolution: null,
+  palette: null,
+  title: titleFromFilename(file.name),
+  category: '',
+  tags: [],
+  preview: URL.createObjectURL(file),
+  validationError: validateUploadFile(file),
+  status: 'pending',
+  error: '',
+  progress: null,
+  retryAttempt: 0,
+});
+
+// An item can be queued once its file passed validation and it has a title.
+export const isItemReady = (item: UploadItem) =>
+  !item.processing &&
+  !item.hashing &&
+  item.dimensions !== null &&
+  !item.validationError &&
+  item.title.trim() !== '';
+
+// In metadata mode the uploaded file is untouched, so the preview is a
+// separately rendered copy that processing must not replace.
+const hasEditedPreview = (item: UploadItem) =>
+  item.editMode === 'metadata' && hasGeometryEdits(item.edits);
+
+// Oversized files can still be uploaded if they're compressed below the limit first.
+export const canCompressToFit = (item: UploadItem) =>
+  item.file.size > MAX_UPLOAD_SIZE && canProcess(item.originalFile);
+
+export function useUploadQueue({ concurrency, upload }: UseUploadQueueOptions) {
+  const [items, setItems] = useState<UploadItem[]>([]);
+  const controllers = useRef(new Map<string, AbortController>());
+  const uploadRef = useRef(upload);
+
+  useEffect(() => {
+    uploadRef.current = upload;
+  }, [upload]);
+
+  const patchItem = useCallback((id: string, patch: Partial<UploadItem>) => {
+    setItems((prev) => prev.map((item) => (item.id === id ? { ...item, ...patch } : item)));
+  }, []);
+
+  const runUpload = useCallback(
+    async (item: UploadItem) => {
+      const controller = new AbortController();
+      controllers.current.set(item.id, controller);
+
+      try {
+        await uploadRef.current(item, {
+          signal: controller.signal,
+          onProgress: (progress) => patchItem(item.id, { progress }),
+          onRetry: (attempt) => patchItem(item.id, { retryAttempt: attempt, progress: null }),
+        });
+        patchItem(item.id, { status: 'success', error: '' });
+      } catch (err: unknown) {
+        if (controller.signal.aborted || (err instanceof ApiError && err.kind === 'cancelled')) {
+          patchItem(item.id, { status: 'cancelled', error: '' });
+        } else {
+          patchItem(item.id, {
+            status: 'error',
+            error: getErrorMessage(err, 'Failed to upload image. Please try again.'),
+          });
+        }
+      } finally {
+        controllers.current.delete(item.id);
+      }
+    },
+    [patchItem]
+  );
+
+  // ---------------------------
+  // Scheduler: keep at most `concurrency` uploads in flight
+  // ---------------------------
+  useEffect(() => {
+    const active = items.filter((item) => item.status === 'uploading').length;
+    const next = items
+      .filter((item) => item.status === 'queued')
+      .slice(0, Math.max(0, concurrency - active));
+
+    if (next.length === 0) return;
+
+    const startingIds = new Set(next.map((item) => item.id));
+    setItems((prev) =>
+      prev.map((item) =>
+        startingIds.has(item.id)
+          ? { ...item, status: 'uploading', progress: null, retryAttempt: 0 }
+          : item
+      )
+    );
+    next.forEach((item) => runUpload(item));
+  }, [items, concurrency, runUpload]);
+
+  // Abort anything still in flight when the page unmounts
+  useEffect(() => {
+    const active = controllers.current;
+    return () => {
+      active.forEach((controller) => controller.abort());
+      active.clear();
+    };
+  }, []);
+
+  const addFiles = useCallback((files: File[]) => {
+    const added = files.map(createItem).map((item) =>
+      item.validationError ? item : { ...item, hashing: true }
+    );
+    if (added.length > 0) {
+      setItems((prev) => [...prev, ...added]);
+    }
+
+    added
+      .filter((item) => !item.validationError)
+      .forEach((item) => {
+        readImageDimensions(item.file)
+          .then((dimensions) => patchItem(item.id, { dimensions }))
+          .catch(() => patchItem(item.id, { validationError: 'Could not read this image' }));
+
+        // Duplicate checks are best-effort; a failed or slow hash just skips them
+        let timedOut = false;
+        const timer = setTimeout(() => {
+          timedOut = true;
+          patchItem(item.id, { hashing: false });
+        }, HASH_TIMEOUT_MS);
+        hashImage(item.sourceFile)
+          .then((hashes) => {
+            if (!timedOut) patchItem(item.id, { hashes });
+          })
+          .catch(() => undefined)
+          .finally(() => {
+            clearTimeout(timer);
+            patchItem(item.id, { hashing: false });
+          });
+
+        // Doesn't hold the upload back: an image sent without a palette can be backfilled from the gallery
+        paletteOf(item.sourceFile)
+          .then((palette) =>
+            // A baked edit made meanwhile has its own palette on the way
+            setItems((prev) =>
+              prev.map((current) =>
+                current.id === item.id && current.originalFile === item.sourceFile ? { ...current, palette } : current
+              )
+            )
+          )
+          .catch(() => undefined);
+      });
+
+    return added;
+  }, [patchItem]);
+
+  // Replaces the item's file with a resized/re-encoded copy of its original.
+  // With `fitToLimit`, quality and size are lowered until it passes MAX_UPLOAD_SIZE.
+  const processItem = useCallback(
+    async (item: UploadItem, options: ProcessingOptions, fitToLimit = false) => {
+      if (!canProcess(item.originalFile)) return;
+      patchItem(item.id, { processing: true, error: '' });
+
+      try {
+        const result = fitToLimit
+          ? await compressToLimit(item.originalFile, options, MAX_UPLOAD_SIZE)
+          : await processImage(item.originalFile, options);
+        const file = toProcessedFile(item.originalFile, result, options);
+
+        setItems((prev) =>
+          prev.map((current) => {
+            if (current.id !== item.id) return current;
+            const keepPreview = hasEditedPreview(current);
+            if (!keepPreview) URL.revokeObjectURL(current.preview);
+            return {
+              ...current,
+              file,
+              preview: keepPreview ? current.preview : URL.createObjectURL(file),
+              validationError: validateUploadFile(file),
+              processing: false,
+              dimensions: { width: result.width, height: result.height },
+              processed: {
+                width: result.width,
+                height: result.height,
+                originalWidth: result.originalWidth,
+                originalHeight: result.originalHeight,
+              },
+            };
+          })
+        );
+      } catch (err: unknown) {
+        patchItem(item.id, {
+          processing: false,
+          error: err instanceof Error ? err.message : 'Failed to process image',
+        });
+      }
+    },
+    [patchItem]
+  );
+
+  // Re-derives the item from its source file with new crop/rotate/focal edits.
+  // Resolves with the updated item so callers can re-run processing on it.
+  const applyEdits = useCallback(
+    async (item: UploadItem, edits: ImageEdits, mode: EditMode) => {
+      const geometry = hasGeometryEdits(edits);
+      const originalFile =
+        geometry && mode === 'bake' ? await renderEditedFile(item.sourceFile, edits) : item.sourceFile;
+      const previewBlob =
+        geometry && mode === 'metadata' ? await renderEditedPreview(item.sourceFile, edits) : originalFile;
+      const dimensions = await readImageDimensions(originalFile);
+
+      const updated: UploadItem = {
+        ...item,
+        file: originalFile,
+        originalFile,
+        edits: hasEdits(edits) ? edits : null,
+        editMode: mode,
+        preview: URL.createObjectURL(previewBlob),
+        validationError: validateUploadFile(originalFile),
+        processed: null,
+        dimensions,
+        // A baked crop or rotation changes what's stored, and so its colours
+        palette: originalFile === item.originalFile ? item.palette : null,
+        error: '',
+      };
+
+      setItems((prev) =>
+        prev.map((current) => {
+          if (current.id !== item.id) return current;
+          URL.revokeObjectURL(current.preview);
+          return updated;
+        })
+      );
+
+      if (originalFile !== item.originalFile) {
+        paletteOf(originalFile)
+          .then((palette) =>
+            // Unless the item has been edited again in the meantime
+            setItems((prev) =>
+              prev.map((current) =>
+                current.id === item.id && current.originalFile === originalFile ? { ...current, palette } : current
+              )
+            )
+          )
+          .catch(() => undefined);
+      }
+      return updated;
+    },
+    []
+  );
+
+  const restoreOriginal = useCallback((id: string) => {
+    setItems((prev) =>
+      prev.map((item) => {
+        if (item.id !== id || item.file === item.originalFile) return item;
+        const keepPreview = hasEditedPreview(item);
+        if (!keepPreview) URL.revokeObjectURL(item.preview);
+        return {
+          ...item,
+          file: item.originalFile,
+          preview: keepPreview ? item.preview : URL.createObjectURL(item.originalFile),
+          validationError: validateUploadFile(item.originalFile),
+          dimensions: item.processed
+            ? { width: item.processed.originalWidth, height: item.processed.originalHeight }
+            : item.dimensions,
+          processed: null,
+          error: '',
+        };
+      })
+    );
+  }, []);
+
+  const removeItem = useCallback((id: string) => {
+    controllers.current.get(id)?.abort();
+    setItems((prev) => {
+      const item = prev.find((i) => i.id === id);
+      if (item) URL.revokeObjectURL(item.preview);
+      return prev.filter((i) => i.id !== id);
+    });
+  }, []);
+
+  const applyCategoryToAll = useCallback((category: string) => {
+    setItems((prev) =>
+      prev.map((item) =>
+        item.status === 'pending' || item.status === 'error' || item.status === 'cancelled'
+          ? { ...item, category }
+          : item
+      )
+    );
+  }, []);
+
+  // `canStart` lets the page hold back items on rules of its own
+  // (resolution limits, unresolved duplicates) on top of isItemReady.
+  const startAll = useCallback((canStart: (item: UploadItem) => boolean = () => true) => {
+    setItems((prev) =>
+      prev.map((item) =>
+        item.status === 'pending' && isItemReady(item) && canStart(item)
+          ? { ...item, status: 'queued' }
+          : item
+      )
+    );
+  }, []);
+
+  // Same `canStart` rules as startAll, so a retry can't skip them
+  const retry = useCallback((id: string, canStart: (item: UploadItem) => boolean = () => true) => {
+    setItems((prev) =>
+      prev.map((item) =>
+        item.id === id && isItemReady(item) && canStart(item) ? { ...item, status: 'queued', error: '' } : item
+      )
+    );
+  }, []);
+
+  const cancel = useCallback(
+    (id: string) => {
+      const controller = controllers.current.get(id);
+      if (controller) {
+        // runUpload marks the item as cancelled once the request rejects
+        controller.abort();
+      } else {
+        patchItem(id, { status: 'cancelled' });
+      }
+    },
+    [patchItem]
+  );
+
+  const cancelAll = useCallback(() => {
+    controllers.current.forEach((controller) => controller.abort());
+    setItems((prev) =>
+      prev.map((item) => (item.status === 'queued' ? { ...item, status: 'cancelled' } : item))
+    );
+  }, []);
+
+  const clear = useCallback(() => {
+    controllers.current.forEach((controller) => controller.abort());
+    setItems((prev) => {
+      prev.forEach((item) => URL.revokeObjectURL(item.preview));
+      return [];
+    });
+  }, []);
+
+  const counts = {
+    total: items.length,
+    pending: items.filter((i) => i.status === 'pending').length,
+    active: items.filter((i) => i.status === 'queued' || i.status === 'uploading').length,
+    success: items.filter((i) => i.status === 'success').length,
+    error: items.filter((i) => i.status === 'error').length,
+    cancelled: items.filter((i) => i.status === 'cancelled').length,
+  };
+
+  return {
+    items,
+    counts,
+    addFiles,
+    processItem,
+    applyEdits,
+    restoreOriginal,
+    updateItem: patchItem,
+    removeItem,
+    applyCategoryToAll,
+    startAll,
+    retry,
+    cancel,
+    cancelAll,
+    clear,
+  };
+}
@@ -0,0 +1,146 @@
+import { useState, useRef, useCallback, PointerEvent, WheelEvent, MouseEvent, RefObject } from 'react';
+
+export interface ZoomPanState {
+  scale: number;
+  x: number;
+  y: number;
+}
+
+interface ZoomPanOptions {
+  maxScale?: number;
+  // Horizontal drag at 1x, in px, that counts as a swipe to the next image
+  swipeThreshold?: number;
+  onSwipe?: (direction: 'prev' | 'next') => void;
+}
+
+const IDENTITY: ZoomPanState = { scale: 1, x: 0, y: 0 };
+
+const distance = (a: { x: number; y: number }, b: { x: number; y: number }) =>
+  Math.hypot(a.x - b.x, a.y - b.y);
+
+/**
+ * Wheel, pinch and double-click zoom with drag-to-pan for an element centred
+ * in `containerRef`. At 1x a horizontal drag is reported as a swipe instead.
+ */
+export function useZoomPan(
+  containerRef: RefObject<HTMLElement>,
+  { maxScale = 8, swipeThreshold = 60, onSwipe }: ZoomPanOptions = {}
+) {
+  const [state, setState] = useState<ZoomPanState>(IDENTITY);
+  const pointers = useRef(new Map<number, { x: number; y: number }>());
+  const gesture = useRef<{ start: ZoomPanState; origin: { x: number; y: number }; pinch: number } | null>(null);
+
+  // Keeps the zoomed content covering the container instead of drifting off
+  const clamp = useCallback(
+    (next: ZoomPanState): ZoomPanState => {
+      const rect = containerRef.current?.getBoundingClientRect();
+      const scale = Math.min(maxScale, Math.max(1, next.scale));
+      if (!rect || scale === 1) return IDENTITY;
+      const maxX = ((scale - 1) * rect.width) / 2;
+      const maxY = ((scale - 1) * rect.height) / 2;
+      return {
+        scale,
+        x: Math.min(maxX, Math.max(-maxX, next.x)),
+        y: Math.min(maxY, Math.max(-maxY, next.y)),
+      };
+    },
+    [containerRef, maxScale]
+  );
+
+  // Zooms so the point under (clientX, clientY) stays put
+  const zoomAt = useCallback(
+    (from: ZoomPanState, scale: number, clientX: number, clientY: number) => {
+      const rect = containerRef.current?.getBoundingClientRect();
+      if (!rect) return from;
+      const cx = clientX - rect.left - rect.width / 2;
+      const cy = clientY - rect.top - rect.height / 2;
+      const ratio = Math.min(maxScale, Math.max(1, scale)) / from.scale;
+      return clamp({ scale, x: cx - (cx - from.x) * ratio, y: cy - (cy - from.y) * ratio });
+    },
+    [containerRef, clamp, maxScale]
+  );
+
+  const zoomBy = useCallback(
+    (factor: number) => {
+      const rect = containerRef.current?.getBoundingClientRect();
+      if (!rect) return;
+      setState((prev) =>
+        zoomAt(prev, prev.scale * factor, rect.left + rect.width / 2, rect.top + rect.height / 2)
+      );
+    },
+    [containerRef, zoomAt]
+  );
+
+  const reset = useCallback(() => setState(IDENTITY), []);
+
+  const onWheel = (e: WheelEvent) => {
+    const factor = Math.exp(-e.deltaY * 0.002);
+    setState((prev) => zoomAt(prev, prev.scale * factor, e.clientX, e.clientY));
+  };
+
+  const onDoubleClick = (e: MouseEvent) => {
+    setState((prev) => (prev.scale > 1 ? IDENTITY : zoomAt(prev, 2.5, e.clientX, e.clientY)));
+  };
+
+  const beginGesture = () => {
+    const points = Array.from(pointers.current.values());
+    gesture.current = {
+      start: state,
+      origin: points.length === 2
+        ? { x: (points[0].x + points[1].x) / 2, y: (points[0].y + points[1].y) / 2 }
+        : points[0],
+      pinch: points.length === 2 ? distance(points[0], points[1]) : 0,
+    };
+  };
+
+  const onPointerDown = (e: PointerEvent) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    pointers.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+    beginGesture();
+  };
+
+  const onPointerMove = (e: PointerEvent) => {
+    if (!pointers.current.has(e.pointerId) || !gesture.current) return;
+    pointers.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+    const { start, origin, pinch } = gesture.current;
+    const points = Array.from(pointers.current.values());
+
+    if (points.length === 2 && pinch > 0) {
+      const zoomed = zoomAt(start, start.scale * (distance(points[0], points[1]) / pinch), origin.x, origin.y);
+      setState(zoomed);
+    } else if (start.scale > 1) {
+      setState(clamp({ ...start, x: start.x + e.clientX - origin.x, y: start.y + e.clientY - origin.y }));
+    }
+  };
+
+  const onPointerUp = (e: PointerEvent) => {
+    const current = gesture.current;
+    pointers.current.delete(e.pointerId);
+
+    if (current && current.pinch === 0 && current.start.scale === 1 && pointers.current.size === 0) {
+      const dx = e.clientX - current.origin.x;
+      const dy = e.clientY - current.origin.y;
+      if (Math.abs(dx) > swipeThreshold && Math.abs(dx) > Math.abs(dy) * 1.5) {
+        onSwipe?.(dx < 0 ? 'next' : 'prev');
+      }
+    }
+
+    // Lifting one finger of a pinch continues as a pan from where it left off
+    if (pointers.current.size > 0) beginGesture();
+    else gesture.current = null;
+  };
+
+  return {
+    state,
+    zoomBy,
+    reset,
+    handlers: {
+      onWheel,
+      onDoubleClick,
+      onPointerDown,
+      onPointerMove,
+      onPointerUp,
+      onPointerCancel: onPointerUp,
+    },
+  };
+}
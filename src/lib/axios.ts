@@ -1,8 +1,19 @@
-import axios from 'axios';
+import axios, { AxiosError, InternalAxiosRequestConfig } from 'axios';
+import { clearSession, getSession, isSessionExpired, saveSession, subscribeSession } from './session';
 
 // const API_BASE_URL = import.meta.env.SERVER_URL || 'http://69.62.72.53:8001/api';
 const API_BASE_URL = '/api';
 
+// Auth calls never go through the refresh dance themselves
+const AUTH_ENDPOINTS = ['/auth/login', '/auth/refresh', '/auth/mfa', '/auth/forgot-password', '/auth/reset-password'];
+
+interface RetriableConfig extends InternalAxiosRequestConfig {
+  // Already replayed once after a refresh; a second 401 is final
+  _retried?: boolean;
+  // Detaches the request from the session's abort signal once it settles
+  _release?: () => void;
+}
+
 const axiosInstance = axios.create({
   baseURL: API_BASE_URL,
   headers: {
@@ -10,11 +21,124 @@ const axiosInstance = axios.create({
   },
 });
 
+const isAuthEndpoint = (url?: string) => AUTH_ENDPOINTS.some((endpoint) => url?.startsWith(endpoint));
+
+// ---------------------------
+// Session Abort
+// ---------------------------
+// Every request is tied to the session it was made in. When that session
+// ends, here or in another tab, whatever is still in flight is cancelled so
+// its response can't land on the login page or leak into the next session.
+let sessionAbort = new AbortController();
+
+subscribeSession((session) => {
+  if (session) return;
+  sessionAbort.abort();
+  sessionAbort = new AbortController();
+});
+
+// Follows both the caller's signal (if any) and the session's
+const linkToSession = (config: RetriableConfig) => {
+  const session = sessionAbort.signal;
+  const own = config.signal;
+  if (!own) {
+    config.signal = session;
+    return;
+  }
+  const controller = new AbortController();
+  const abort = () => controller.abort();
+  if (own.aborted || session.aborted) abort();
+  own.addEventListener?.('abort', abort);
+  session.addEventListener('abort', abort);
+  config.signal = controller.signal;
+  config._release = () => {
+    own.removeEventListener?.('abort', abort);
+    session.removeEventListener('abort', abort);
+  };
+};
+
+const release = (config?: RetriableConfig) => {
+  config?._release?.();
+  if (config) config._release = undefined;
+};
+
+// ---------------------------
+// Token Refresh
+// ---------------------------
+let refreshing: Promise<string> | null = null;
+
+// Tabs share one refresh token; with rotation, two tabs spending it at once
+// would get the second one rejected and sign everybody out. The Web Locks API
+// queues them instead, where available.
+const withRefreshLock = <T>(task: () => Promise<T>): Promise<T> =>
+  typeof navigator !== 'undefined' && navigator.locks
+    ? navigator.locks.request('session-refresh', task)
+    : task();
+
+const pickToken = (body: unknown, ...names: string[]): string | undefined => {
+  if (typeof body !== 'object' || body === null) return undefined;
+  const record = body as Record<string, unknown>;
+  const source = typeof record.data === 'object' && record.data !== null ? (record.data as Record<string, unknown>) : record;
+  const value = names.map((name) => source[name]).find((v) => typeof v === 'string' && v);
+  return value as string | undefined;
+};
+
+/**
+ * Swaps the refresh token for a new access token. Concurrent callers share
+ * one request, so a burst of 401s triggers a single refresh. A rejected
+ * refresh token ends the session; a network failure leaves it alone so the
+ * next attempt can try again.
+ */
+export function refreshAccessToken(): Promise<string> {
+  if (refreshing) return refreshing;
+
+  const staleToken = getSession()?.accessToken;
+  refreshing = withRefreshLock(async () => {
+    // Another tab renewed the session while this one waited for the lock
+    const current = getSession();
+    if (current && current.accessToken !== staleToken && !isSessionExpired(current)) {
+      return current.accessToken;
+    }
+
+    const refreshToken = current?.refreshToken;
+    if (!refreshToken) {
+      clearSession('expired');
+      throw new Error('Session expired');
+    }
+    try {
+      const response = await axiosInstance.post('/auth/refresh', { refreshToken });
+      const accessToken = pickToken(response.data, 'access_token', 'token');
+      if (!accessToken) throw new Error('Invalid refresh response');
+      saveSession(accessToken, pickToken(response.data, 'refresh_token', 'refreshToken'));
+      return accessToken;
+    } catch (err: unknown) {
+      const status = axios.isAxiosError(err) ? err.response?.status : undefined;
+      if (status === 401 || status === 403) clearSession('expired');
+      throw err;
+    }
+  }).finally(() => {
+    refreshing = null;
+  });
+  return refreshing;
+}
+
+// ---------------------------
+// Interceptors
+// ---------------------------
 axiosInstance.interceptors.request.use(
-  (config) => {
-    const token = localStorage.getItem('jwt_token');
-    if (token) {
-      config.headers.Authorization = `Bearer ${token}`;
+  async (config: RetriableConfig) => {
+    if (isAuthEndpoint(config.url)) return config;
+    // Replays already carry the linked signal
+    if (!config._retried) linkToSession(config);
+
+    // Refresh up front rather than spend a round trip on a certain 401
+    let session = getSession();
+    if (session && isSessionExpired(session) && session.refreshToken) {
+      await refreshAccessToken().catch(() => undefined);
+      session = getSession();
+    }
+    if (session) {
+      config.headers.Authorization = `Bearer ${session.accessToken}`;
     }
     return config;
   },
@@ -23,14 +147,43 @@ axiosInstance.interceptors.request.use(
   }
 );
 
+// A 401 waits for the shared refresh and replays once with the new token.
+// When the session can't be renewed it is cleared, and ProtectedRoute sends
+// the user to the login page through the router, remembering where they were.
 axiosInstance.interceptors.response.use(
-  (response) => response,
-  (error) => {
-    if (error.response?.status === 401) {
-      localStorage.removeItem('jwt_token');
-      window.location.href = '/login';
+  (response) => {
+    release(response.config);
+    return response;
+  },
+  async (error: AxiosError) => {
+    const config = error.config as RetriableConfig | undefined;
+    if (error.response?.status !== 401 || !config || isAuthEndpoint(config.url)) {
+      release(config);
+      return Promise.reject(error);
     }
-    return Promise.reject(error);
+
+    if (config._retried || !getSession()?.refreshToken) {
+      release(config);
+      // Stragglers from a session that already ended mustn't end it again
+      if (getSession()) clearSession('expired');
+      return Promise.reject(error);
+    }
+
+    // Another request renewed the token while this one was in flight
+    const sentWith = String(config.headers.Authorization ?? '').replace(/^Bearer /, '');
+    if (getSession()?.accessToken !== sentWith) {
+      config._retried = true;
+      return axiosInstance(config);
+    }
+
+    try {
+      await refreshAccessToken();
+    } catch {
+      release(config);
+      return Promise.reject(error);
+    }
+    config._retried = true;
+    return axiosInstance(config);
   }
 );
 
@@ -0,0 +1,63 @@
+import axios from 'axios';
+import { getErrorMessage } from './errors';
+
+export interface BulkFailure<T> {
+  item: T;
+  error: string;
+}
+
+export interface BulkResult<T> {
+  action: string;
+  succeeded: T[];
+  failed: BulkFailure<T>[];
+}
+
+export interface BulkProgress {
+  done: number;
+  total: number;
+}
+
+interface BulkOptions {
+  concurrency?: number;
+  onProgress?: (progress: BulkProgress) => void;
+}
+
+const DEFAULT_CONCURRENCY = 4;
+
+const describeFailure = (err: unknown) =>
+  !axios.isAxiosError(err) && err instanceof Error
+    ? err.message
+    : getErrorMessage(err, 'Request failed');
+
+/**
+ * Runs `task` for every item with bounded concurrency. One failure never
+ * stops the batch; each item's outcome is reported individually so the
+ * caller can show exactly which ones need attention.
+ */
+export async function runBulk<T>(
+  action: string,
+  items: T[],
+  task: (item: T) => Promise<void>,
+  { concurrency = DEFAULT_CONCURRENCY, onProgress }: BulkOptions = {}
+): Promise<BulkResult<T>> {
+  const result: BulkResult<T> = { action, succeeded: [], failed: [] };
+  let next = 0;
+  let done = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const item = items[next++];
+      try {
+        await task(item);
+        result.succeeded.push(item);
+      } catch (err: unknown) {
+        result.failed.push({ item, error: describeFailure(err) });
+      }
+      done++;
+      onProgress?.({ done, total: items.length });
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(concurrency, items.length) }, worker));
+  return result;
+}
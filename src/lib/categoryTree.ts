@@ -0,0 +1,145 @@
+import { Category } from '../api/types';
+
+export interface CategoryNode {
+  category: Category;
+  children: CategoryNode[];
+  // 0 for top-level categories
+  depth: number;
+}
+
+// Where a category sits after a move: its parent and position among siblings
+export interface CategoryPlacement {
+  _id: string;
+  parent: string | null;
+  order: number;
+}
+
+// "Snowy Peaks & Lakes" -> "snowy-peaks-lakes"
+export function slugify(text: string): string {
+  return text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+}
+
+export const SLUG_PATTERN = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
+
+const bySiblingOrder = (a: Category, b: Category) => a.order - b.order || a.name.localeCompare(b.name);
+
+/**
+ * The parent each category is actually shown under. A parent that no longer
+ * exists is ignored, as is the parent of a category caught in a loop; those
+ * categories are shown at the top level, so bad data can't hide categories.
+ * Anything further up the chain doesn't matter: a category under a shown
+ * parent stays there.
+ */
+function effectiveParents(categories: Category[]): Map<string, string | null> {
+  const byId = new Map(categories.map((cat) => [cat._id, cat]));
+  const parents = new Map<string, string | null>();
+  categories.forEach((cat) => {
+    // Follows the chain up until it ends, breaks, or comes back round to `cat`
+    const seen = new Set<string>();
+    let ancestor = cat.parent === null ? undefined : byId.get(cat.parent);
+    while (ancestor && ancestor._id !== cat._id && !seen.has(ancestor._id)) {
+      seen.add(ancestor._id);
+      ancestor = ancestor.parent === null ? undefined : byId.get(ancestor.parent);
+    }
+    const inLoop = ancestor?._id === cat._id;
+    parents.set(cat._id, cat.parent !== null && byId.has(cat.parent) && !inLoop ? cat.parent : null);
+  });
+  return parents;
+}
+
+function childrenByParent(categories: Category[]): Map<string | null, Category[]> {
+  const parents = effectiveParents(categories);
+  const children = new Map<string | null, Category[]>();
+  categories.forEach((cat) => {
+    const parent = parents.get(cat._id) ?? null;
+    children.set(parent, [...(children.get(parent) ?? []), cat]);
+  });
+  children.forEach((list) => list.sort(bySiblingOrder));
+  return children;
+}
+
+export function buildCategoryTree(categories: Category[]): CategoryNode[] {
+  const children = childrenByParent(categories);
+  const build = (parent: string | null, depth: number): CategoryNode[] =>
+    (children.get(parent) ?? []).map((category) => ({
+      category,
+      depth,
+      children: build(category._id, depth + 1),
+    }));
+  return build(null, 0);
+}
+
+// Depth-first, in display order; children of `collapsed` ids are skipped
+export function flattenCategoryTree(nodes: CategoryNode[], collapsed?: ReadonlySet<string>): CategoryNode[] {
+  return nodes.flatMap((node) => [
+    node,
+    ...(collapsed?.has(node.category._id) ? [] : flattenCategoryTree(node.children, collapsed)),
+  ]);
+}
+
+// Every category below `id`, not including `id` itself
+export function descendantIds(categories: Category[], id: string): Set<string> {
+  const children = childrenByParent(categories);
+  const found = new Set<string>();
+  const visit = (parent: string) =>
+    (children.get(parent) ?? []).forEach((child) => {
+      found.add(child._id);
+      visit(child._id);
+    });
+  visit(id);
+  return found;
+}
+
+// `ids` plus everything below them, so filtering by Nature includes Mountains
+export function withDescendants(categories: Category[], ids: string[]): string[] {
+  const all = new Set(ids);
+  ids.forEach((id) => descendantIds(categories, id).forEach((child) => all.add(child)));
+  return Array.from(all);
+}
+
+/**
+ * Moves `id` under `parent` at `index` among its new siblings and renumbers
+ * both the new and the old sibling lists. Returns only the placements that
+ * changed; an empty list means the move was a no-op or not allowed (into the
+ * category's own subtree).
+ */
+export function placeCategory(
+  categories: Category[],
+  id: string,
+  parent: string | null,
+  index: number
+): CategoryPlacement[] {
+  const moving = categories.find((cat) => cat._id === id);
+  if (!moving || parent === id || (parent !== null && descendantIds(categories, id).has(parent))) return [];
+
+  const parents = effectiveParents(categories);
+  const siblingsOf = (parentId: string | null) =>
+    categories.filter((cat) => cat._id !== id && (parents.get(cat._id) ?? null) === parentId).sort(bySiblingOrder);
+
+  const target = siblingsOf(parent);
+  target.splice(Math.max(0, Math.min(index, target.length)), 0, moving);
+  const placements = target.map((cat, order) => ({ _id: cat._id, parent, order }));
+
+  const oldParent = parents.get(id) ?? null;
+  if (oldParent !== parent) {
+    siblingsOf(oldParent).forEach((cat, order) => placements.push({ _id: cat._id, parent: oldParent, order }));
+  }
+
+  return placements.filter(({ _id, parent: newParent, order }) => {
+    const cat = categories.find((c) => c._id === _id);
+    return !cat || cat.parent !== newParent || cat.order !== order;
+  });
+}
+
+export function applyPlacements(categories: Category[], placements: CategoryPlacement[]): Category[] {
+  const byId = new Map(placements.map((placement) => [placement._id, placement]));
+  return categories.map((cat) => {
+    const placement = byId.get(cat._id);
+    return placement ? { ...cat, parent: placement.parent, order: placement.order } : cat;
+  });
+}
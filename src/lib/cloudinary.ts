@@ -0,0 +1,126 @@
+export interface CloudinaryAsset {
+  cloudName: string;
+  // Public ID including any folder, plus the original extension if present
+  path: string;
+  version?: string;
+}
+
+export interface CloudinaryTransform {
+  width?: number;
+  height?: number;
+  crop?: 'limit' | 'fill' | 'fit' | 'scale';
+  quality?: 'auto' | number;
+  format?: 'auto' | 'jpg' | 'png' | 'webp' | 'avif';
+  blur?: number;
+}
+
+// Widths generated for `srcset`; browsers pick the smallest that covers the slot
+export const RESPONSIVE_WIDTHS = [160, 320, 480, 640, 960, 1280, 1920];
+
+const UPLOAD_URL = /^https?:\/\/res\.cloudinary\.com\/([^/]+)\/image\/upload\/(.+)$/;
+const TRANSFORMATION_SEGMENT = /^[a-z]{1,3}_[^/]*$/;
+const VERSION_SEGMENT = /^v\d+$/;
+// Cloudinary's transformation parameter keys, the part before "_"
+const TRANSFORMATION_PARAMS = new Set([
+  'a', 'ac', 'af', 'ar', 'b', 'bo', 'br', 'c', 'co', 'cs', 'd', 'dl', 'dn', 'dpr', 'du', 'e', 'eo', 'f', 'fl',
+  'fn', 'fps', 'g', 'h', 'if', 'ki', 'l', 'o', 'p', 'pg', 'q', 'r', 'so', 'sp', 't', 'u', 'vc', 'vs', 'w', 'x',
+  'y', 'z',
+]);
+
+// Every comma-separated component is a known parameter, e.g. "c_limit,w_640"
+const isKnownTransformation = (segment: string) =>
+  segment.split(',').every((part) => TRANSFORMATION_PARAMS.has(part.split('_')[0]) && part.includes('_'));
+
+/**
+ * Extracts the cloud name and public ID from a Cloudinary delivery URL,
+ * discarding any transformations already in it. Falls back to `publicId` and
+ * `VITE_CLOUDINARY_CLOUD_NAME` for URLs on a custom domain. Returns null for
+ * anything that isn't served by Cloudinary.
+ */
+export function parseCloudinaryUrl(
+  imageUrl: string,
+  publicId?: string,
+  fallbackCloudName: string | undefined = import.meta.env.VITE_CLOUDINARY_CLOUD_NAME
+): CloudinaryAsset | null {
+  const match = imageUrl.match(UPLOAD_URL);
+  if (match) {
+    const segments = match[2].split('?')[0].split('/');
+    // Only transformations come before a version, so with one the prefix can
+    // go wholesale. Without one, folder names like "wp_2024" look the same,
+    // so only segments made of real parameters are dropped.
+    const versionIndex = segments.findIndex((segment) => VERSION_SEGMENT.test(segment));
+    if (
+      versionIndex > 0 &&
+      versionIndex < segments.length - 1 &&
+      segments.slice(0, versionIndex).every((segment) => TRANSFORMATION_SEGMENT.test(segment))
+    ) {
+      segments.splice(0, versionIndex);
+    }
+    while (segments.length > 1 && isKnownTransformation(segments[0])) {
+      segments.shift();
+    }
+    const version = segments.length > 1 && VERSION_SEGMENT.test(segments[0]) ? segments.shift() : undefined;
+    return { cloudName: match[1], path: segments.join('/'), version };
+  }
+
+  if (publicId && fallbackCloudName) {
+    return { cloudName: fallbackCloudName, path: publicId };
+  }
+  return null;
+}
+
+export function toTransformation({
+  width,
+  height,
+  crop = 'limit',
+  quality = 'auto',
+  format = 'auto',
+  blur,
+}: CloudinaryTransform): string {
+  const parts = [`c_${crop}`];
+  if (width) parts.push(`w_${Math.round(width)}`);
+  if (height) parts.push(`h_${Math.round(height)}`);
+  parts.push(`q_${quality}`, `f_${format}`);
+  if (blur) parts.push(`e_blur:${blur}`);
+  return parts.join(',');
+}
+
+export function buildCloudinaryUrl(asset: CloudinaryAsset, transform: CloudinaryTransform): string {
+  const version = asset.version ? `${asset.version}/` : '';
+  return `https://res.cloudinary.com/${asset.cloudName}/image/upload/${toTransformation(transform)}/${version}${asset.path}`;
+}
+
+// "url 320w, url 480w, ..." for every width up to the original's, if known
+export function buildSrcSet(
+  asset: CloudinaryAsset,
+  widths: number[] = RESPONSIVE_WIDTHS,
+  maxWidth?: number
+): string {
+  const usable = maxWidth ? widths.filter((w) => w <= maxWidth) : widths;
+  const candidates = usable.length > 0 ? usable : widths.slice(0, 1);
+  return candidates
+    .map((width) => `${buildCloudinaryUrl(asset, { width })} ${width}w`)
+    .join(', ');
+}
+
+// Tiny, heavily blurred version shown while the real image loads
+export function buildPlaceholderUrl(asset: CloudinaryAsset): string {
+  return buildCloudinaryUrl(asset, { width: 32, quality: 30, blur: 1000 });
+}
+
+/**
+ * `sizes` for an image shown with `object-cover` in a box of fixed CSS height.
+ * Landscape images have to be at least `boxHeight * aspectRatio` wide to fill
+ * the box, however narrow the slot. `slots` pairs a media query (null for the
+ * fallback) with the widest the slot gets at that breakpoint, in px.
+ */
+export function coverSizes(
+  aspectRatio: number,
+  boxHeight: number,
+  slots: [string | null, number][]
+): string {
+  const minWidth = Math.ceil(boxHeight * aspectRatio);
+  return slots
+    .map(([media, width]) => `${media ? `${media} ` : ''}${Math.max(width, minWidth)}px`)
+    .join(', ');
+}
@@ -0,0 +1,186 @@
+export interface PaletteColor {
+  // "#rrggbb", lowercase
+  hex: string;
+  // Share of the image's pixels, 0..1
+  weight: number;
+}
+
+// Colours kept per image, most dominant first
+export const PALETTE_SIZE = 5;
+
+// Images are shrunk to this many pixels across before quantising, which is
+// plenty for dominant colours and keeps the work per image constant
+const SAMPLE_SIZE = 64;
+const MAX_BOXES = 16;
+// Boxes whose averages are closer than this (ΔE) are reported as one colour
+const MERGE_DISTANCE = 10;
+
+/**
+ * A palette colour within this ΔE (CIE76) of the colour searched for counts
+ * as a match. Roughly: 10 is "the same colour", 25 "the same hue and shade".
+ * The backend applies the same rule to `?color=`.
+ */
+export const COLOR_MATCH_DISTANCE = 25;
+
+// Named starting points for the gallery's colour filter
+export const PRESET_COLORS: { label: string; hex: string }[] = [
+  { label: 'Red', hex: '#dc2626' },
+  { label: 'Orange', hex: '#f97316' },
+  { label: 'Yellow', hex: '#facc15' },
+  { label: 'Green', hex: '#16a34a' },
+  { label: 'Teal', hex: '#0d9488' },
+  { label: 'Blue', hex: '#2563eb' },
+  { label: 'Purple', hex: '#9333ea' },
+  { label: 'Pink', hex: '#ec4899' },
+  { label: 'Brown', hex: '#92400e' },
+  { label: 'Black', hex: '#111111' },
+  { label: 'Gray', hex: '#6b7280' },
+  { label: 'White', hex: '#f9fafb' },
+];
+
+type Rgb = [number, number, number];
+
+const HEX_COLOR = /^#?([0-9a-f]{6})$/i;
+
+// Accepts "#RRGGBB" or "RRGGBB"; returns "#rrggbb", or null if it isn't a colour
+export function normalizeHex(value: string): string | null {
+  const match = value.trim().match(HEX_COLOR);
+  return match ? `#${match[1].toLowerCase()}` : null;
+}
+
+const toHex = ([r, g, b]: Rgb) =>
+  `#${[r, g, b].map((channel) => Math.round(channel).toString(16).padStart(2, '0')).join('')}`;
+
+const fromHex = (hex: string): Rgb => {
+  const value = parseInt(hex.replace('#', ''), 16);
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255];
+};
+
+// sRGB (D65) to CIELAB, where straight-line distance tracks perceived difference
+function toLab([r, g, b]: Rgb): Rgb {
+  const linear = (c: number) => {
+    const v = c / 255;
+    return v <= 0.04045 ? v / 12.92 : ((v + 0.055) / 1.055) ** 2.4;
+  };
+  const [lr, lg, lb] = [linear(r), linear(g), linear(b)];
+  const x = (lr * 0.4124 + lg * 0.3576 + lb * 0.1805) / 0.95047;
+  const y = lr * 0.2126 + lg * 0.7152 + lb * 0.0722;
+  const z = (lr * 0.0193 + lg * 0.1192 + lb * 0.9505) / 1.08883;
+  const f = (t: number) => (t > 0.008856 ? Math.cbrt(t) : 7.787 * t + 16 / 116);
+  return [116 * f(y) - 16, 500 * (f(x) - f(y)), 200 * (f(y) - f(z))];
+}
+
+const labDistance = (a: Rgb, b: Rgb) => Math.hypot(a[0] - b[0], a[1] - b[1], a[2] - b[2]);
+
+// ΔE (CIE76) between two "#rrggbb" colours
+export const colorDistance = (a: string, b: string) => labDistance(toLab(fromHex(a)), toLab(fromHex(b)));
+
+// How close the palette comes to `hex`; Infinity for an empty palette
+export const paletteDistance = (palette: PaletteColor[], hex: string) =>
+  Math.min(...palette.map((color) => colorDistance(color.hex, hex)));
+
+// ---------------------------
+// Quantisation (median cut)
+// ---------------------------
+const channelRange = (pixels: Rgb[], channel: number) => {
+  let min = 255;
+  let max = 0;
+  pixels.forEach((pixel) => {
+    min = Math.min(min, pixel[channel]);
+    max = Math.max(max, pixel[channel]);
+  });
+  return max - min;
+};
+
+const average = (pixels: Rgb[]): Rgb => {
+  const sum = pixels.reduce<Rgb>((acc, [r, g, b]) => [acc[0] + r, acc[1] + g, acc[2] + b], [0, 0, 0]);
+  return [sum[0] / pixels.length, sum[1] / pixels.length, sum[2] / pixels.length];
+};
+
+/**
+ * Dominant colours of RGBA pixel data. Median cut splits the colour space
+ * until there are enough boxes, always splitting the box with the most
+ * pixels along its widest channel; near-identical box averages are then
+ * merged. Transparent pixels are ignored.
+ */
+export function paletteFromPixels(rgba: Uint8ClampedArray, size = PALETTE_SIZE): PaletteColor[] {
+  const pixels: Rgb[] = [];
+  for (let i = 0; i < rgba.length; i += 4) {
+    if (rgba[i + 3] >= 128) pixels.push([rgba[i], rgba[i + 1], rgba[i + 2]]);
+  }
+  if (pixels.length === 0) return [];
+
+  const boxes: Rgb[][] = [pixels];
+  while (boxes.length < MAX_BOXES) {
+    const splittable = boxes
+      .map((box, index) => ({ box, index }))
+      .filter(({ box }) => box.length > 1 && [0, 1, 2].some((channel) => channelRange(box, channel) > 0))
+      .sort((a, b) => b.box.length - a.box.length)[0];
+    if (!splittable) break;
+
+    const { box, index } = splittable;
+    const channel = [0, 1, 2].reduce((widest, c) => (channelRange(box, c) > channelRange(box, widest) ? c : widest), 0);
+    const sorted = [...box].sort((a, b) => a[channel] - b[channel]);
+    const middle = Math.floor(sorted.length / 2);
+    boxes.splice(index, 1, sorted.slice(0, middle), sorted.slice(middle));
+  }
+
+  const merged: { rgb: Rgb; lab: Rgb; count: number }[] = [];
+  boxes
+    .map((box) => ({ rgb: average(box), count: box.length }))
+    .sort((a, b) => b.count - a.count)
+    .forEach(({ rgb, count }) => {
+      const lab = toLab(rgb);
+      const near = merged.find((color) => labDistance(color.lab, lab) < MERGE_DISTANCE);
+      if (!near) {
+        merged.push({ rgb, lab, count });
+        return;
+      }
+      // Weighted average, so the larger box dominates the merged colour
+      const total = near.count + count;
+      near.rgb = [0, 1, 2].map((c) => (near.rgb[c] * near.count + rgb[c] * count) / total) as Rgb;
+      near.lab = toLab(near.rgb);
+      near.count = total;
+    });
+
+  return merged
+    .sort((a, b) => b.count - a.count)
+    .slice(0, size)
+    .map(({ rgb, count }) => ({ hex: toHex(rgb), weight: Math.round((count / pixels.length) * 1000) / 1000 }));
+}
+
+/**
+ * Extracts the palette of an image file. Works in a worker (OffscreenCanvas)
+ * or on the main thread as a fallback.
+ */
+export async function extractPalette(file: Blob): Promise<PaletteColor[]> {
+  const bitmap = await createImageBitmap(file, {
+    imageOrientation: 'from-image',
+    resizeWidth: SAMPLE_SIZE,
+    resizeHeight: SAMPLE_SIZE,
+    resizeQuality: 'medium',
+  });
+
+  try {
+    let pixels: Uint8ClampedArray;
+
+    if (typeof OffscreenCanvas !== 'undefined') {
+      const ctx = new OffscreenCanvas(SAMPLE_SIZE, SAMPLE_SIZE).getContext('2d');
+      if (!ctx) throw new Error('Canvas is not supported');
+      ctx.drawImage(bitmap, 0, 0);
+      pixels = ctx.getImageData(0, 0, SAMPLE_SIZE, SAMPLE_SIZE).data;
+    } else {
+      const canvas = document.createElement('canvas');
+      canvas.width = SAMPLE_SIZE;
+      canvas.height = SAMPLE_SIZE;
+      const ctx = canvas.getContext('2d');
+      if (!ctx) throw new Error('Canvas is not supported');
+      ctx.drawImage(bitmap, 0, 0);
+      pixels = ctx.getImageData(0, 0, SAMPLE_SIZE, SAMPLE_SIZE).data;
+    }
+
+    return paletteFromPixels(pixels);
+  } finally {
+    bitmap.close();
+  }
+}
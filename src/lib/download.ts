@@ -0,0 +1,30 @@
+export interface DownloadedImage {
+  data: Uint8Array;
+  extension: string;
+}
+
+/**
+ * Fetches an image straight from its CDN URL. Deliberately not axios: the
+ * shared instance would attach our JWT to a third-party request.
+ */
+export async function fetchImageFile(url: string): Promise<DownloadedImage> {
+  const res = await fetch(url);
+  if (!res.ok) throw new Error(`Download failed (HTTP ${res.status})`);
+  const data = new Uint8Array(await res.arrayBuffer());
+  const extension =
+    url.split('?')[0].match(/\.(\w{3,4})$/)?.[1] ??
+    res.headers.get('content-type')?.split('/')[1] ??
+    'jpg';
+  return { data, extension };
+}
+
+// The `download` attribute is ignored for cross-origin links, so files are
+// always saved from a same-origin object URL.
+export function saveBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
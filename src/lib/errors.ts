@@ -0,0 +1,20 @@
+import axios from 'axios';
+import { ApiError } from '../api/client';
+
+// Pulls the backend's `message` out of a failed request, falling back to a
+// page-specific message for network errors and anything that isn't axios.
+export function getErrorMessage(err: unknown, fallback: string): string {
+  if (err instanceof ApiError) {
+    return err.fromServer || err.kind === 'invalid_response' ? err.message : fallback;
+  }
+  if (axios.isAxiosError(err)) {
+    return err.response?.data?.message || fallback;
+  }
+  return fallback;
+}
+
+// Too many attempts (429) or a locked account (423); `retryAfter` says how
+// long to wait when the server told us
+export function isRateLimited(err: unknown): err is ApiError {
+  return err instanceof ApiError && (err.status === 429 || err.status === 423);
+}
@@ -0,0 +1,131 @@
+import { Orientation, RESOLUTION_TIERS } from './wallpaperProfiles';
+import { normalizeTag } from './tags';
+import { normalizeHex } from './colorPalette';
+
+export type SortOption = 'newest' | 'oldest' | 'title' | 'downloads';
+
+export interface SortDefinition {
+  id: SortOption;
+  label: string;
+  sortBy: 'createdAt' | 'title' | 'downloads';
+  order: 'asc' | 'desc';
+}
+
+export const SORT_OPTIONS: SortDefinition[] = [
+  { id: 'newest', label: 'Newest first', sortBy: 'createdAt', order: 'desc' },
+  { id: 'oldest', label: 'Oldest first', sortBy: 'createdAt', order: 'asc' },
+  { id: 'title', label: 'Title A–Z', sortBy: 'title', order: 'asc' },
+  { id: 'downloads', label: 'Most downloaded', sortBy: 'downloads', order: 'desc' },
+];
+
+export const DEFAULT_SORT: SortOption = 'newest';
+
+export const PAGE_SIZE_OPTIONS = [10, 20, 50, 100];
+export const DEFAULT_PAGE_SIZE = 10;
+
+export const SEARCH_DEBOUNCE_MS = 300;
+
+export type ViewMode = 'grid' | 'masonry' | 'table';
+
+export const VIEW_MODES: ViewMode[] = ['grid', 'masonry', 'table'];
+export const DEFAULT_VIEW: ViewMode = 'grid';
+
+// Last view picked, used when a URL doesn't name one
+export const VIEW_STORAGE_KEY = 'gallery:view';
+
+// ---------------------------
+// URL State
+// ---------------------------
+export interface GalleryQuery {
+  categories: string[];
+  // An image must carry every one of these
+  tags: string[];
+  // "#rrggbb", or '' for any colour
+  color: string;
+  search: string;
+  sort: SortOption;
+  from: string;
+  to: string;
+  orientation: Orientation | '';
+  minResolution: string;
+  page: number;
+  pageSize: number;
+  view: ViewMode;
+}
+
+export const DEFAULT_GALLERY_QUERY: GalleryQuery = {
+  categories: [],
+  tags: [],
+  color: '',
+  search: '',
+  sort: DEFAULT_SORT,
+  from: '',
+  to: '',
+  orientation: '',
+  minResolution: '',
+  page: 1,
+  pageSize: DEFAULT_PAGE_SIZE,
+  view: DEFAULT_VIEW,
+};
+
+const ORIENTATIONS: Orientation[] = ['landscape', 'portrait', 'square'];
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+const parseDate = (value: string | null) =>
+  value && ISO_DATE.test(value) && !Number.isNaN(Date.parse(value)) ? value : '';
+
+/**
+ * Reads the gallery view from the URL. Anything malformed or out of range
+ * falls back to its default instead of producing an error or an empty page;
+ * values that can only be checked against the server (category ids, page
+ * beyond the last) are normalised by the page once it has the data.
+ */
+export function parseGalleryQuery(params: URLSearchParams): GalleryQuery {
+  const page = Number(params.get('page'));
+  const pageSize = Number(params.get('limit'));
+  const sort = params.get('sort') as SortOption;
+  const orientation = params.get('orientation') as Orientation;
+  const minResolution = params.get('minResolution') ?? '';
+  const view = VIEW_MODES.includes(params.get('view') as ViewMode)
+    ? (params.get('view') as ViewMode)
+    : DEFAULT_VIEW;
+  let from = parseDate(params.get('from'));
+  let to = parseDate(params.get('to'));
+  if (from && to && from > to) [from, to] = [to, from];
+
+  return {
+    categories: Array.from(
+      new Set((params.get('category') ?? '').split(',').map((id) => id.trim()).filter(Boolean))
+    ),
+    tags: Array.from(new Set((params.get('tags') ?? '').split(',').map(normalizeTag).filter(Boolean))),
+    color: normalizeHex(params.get('color') ?? '') ?? '',
+    search: (params.get('q') ?? '').trim(),
+    sort: SORT_OPTIONS.some((option) => option.id === sort) ? sort : DEFAULT_SORT,
+    from,
+    to,
+    orientation: ORIENTATIONS.includes(orientation) ? orientation : '',
+    minResolution: RESOLUTION_TIERS.some((tier) => tier.id === minResolution) ? minResolution : '',
+    // Masonry scrolls infinitely from the first page
+    page: view !== 'masonry' && Number.isInteger(page) && page >= 1 ? page : 1,
+    pageSize: PAGE_SIZE_OPTIONS.includes(pageSize) ? pageSize : DEFAULT_PAGE_SIZE,
+    view,
+  };
+}
+
+// Only non-default values are written so URLs stay short and readable.
+export function toGalleryParams(query: GalleryQuery): URLSearchParams {
+  const params = new URLSearchParams();
+  if (query.categories.length > 0) params.set('category', query.categories.join(','));
+  if (query.tags.length > 0) params.set('tags', query.tags.join(','));
+  if (query.color) params.set('color', query.color.slice(1));
+  if (query.search) params.set('q', query.search);
+  if (query.sort !== DEFAULT_SORT) params.set('sort', query.sort);
+  if (query.from) params.set('from', query.from);
+  if (query.to) params.set('to', query.to);
+  if (query.orientation) params.set('orientation', query.orientation);
+  if (query.minResolution) params.set('minResolution', query.minResolution);
+  if (query.page > 1) params.set('page', query.page.toString());
+  if (query.pageSize !== DEFAULT_PAGE_SIZE) params.set('limit', query.pageSize.toString());
+  if (query.view !== DEFAULT_VIEW) params.set('view', query.view);
+  return params;
+}
@@ -0,0 +1,10 @@
+import { computeImageHashes, ImageHashes } from './imageHashing';
+import type { HashRequest } from '../workers/imageHash.worker';
+import { createWorkerRpc } from './workerRpc';
+
+const runInWorker = createWorkerRpc<HashRequest, ImageHashes>(
+  () => new Worker(new URL('../workers/imageHash.worker.ts', import.meta.url), { type: 'module' }),
+  ({ file }) => computeImageHashes(file)
+);
+
+export const hashImage = (file: Blob): Promise<ImageHashes> => runInWorker({ file });
@@ -0,0 +1,256 @@
+export type Rotation = 0 | 90 | 180 | 270;
+
+// All coordinates are normalised (0..1) against the rotated/flipped image, so
+// they stay valid whatever size the image is later resized to.
+export interface Point {
+  x: number;
+  y: number;
+}
+
+export interface CropRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface ImageEdits {
+  crop: CropRect | null;
+  rotation: Rotation;
+  flipHorizontal: boolean;
+  flipVertical: boolean;
+  focalPoint: Point | null;
+}
+
+// 'bake' renders the edits into the uploaded file; 'metadata' uploads the
+// untouched file and posts the edits alongside it for the backend to apply.
+export type EditMode = 'bake' | 'metadata';
+
+export interface AspectPreset {
+  id: string;
+  label: string;
+  ratio: number | null;
+}
+
+export const ASPECT_PRESETS: AspectPreset[] = [
+  { id: 'free', label: 'Free', ratio: null },
+  { id: '16-9', label: '16:9', ratio: 16 / 9 },
+  { id: '16-10', label: '16:10', ratio: 16 / 10 },
+  { id: '21-9', label: '21:9', ratio: 21 / 9 },
+  { id: '9-19.5', label: '9:19.5', ratio: 9 / 19.5 },
+  { id: '4-3', label: '4:3', ratio: 4 / 3 },
+  { id: '1-1', label: '1:1', ratio: 1 },
+];
+
+export const EMPTY_EDITS: ImageEdits = {
+  crop: null,
+  rotation: 0,
+  flipHorizontal: false,
+  flipVertical: false,
+  focalPoint: null,
+};
+
+export const FULL_CROP: CropRect = { x: 0, y: 0, width: 1, height: 1 };
+
+export const hasEdits = (edits: ImageEdits | null | undefined) =>
+  !!edits &&
+  (edits.crop !== null ||
+    edits.rotation !== 0 ||
+    edits.flipHorizontal ||
+    edits.flipVertical ||
+    edits.focalPoint !== null);
+
+// Edits that change the pixels, as opposed to the focal point which is only a hint.
+export const hasGeometryEdits = (edits: ImageEdits | null | undefined) =>
+  !!edits && (edits.crop !== null || edits.rotation !== 0 || edits.flipHorizontal || edits.flipVertical);
+
+export const clamp = (value: number, min = 0, max = 1) => Math.min(max, Math.max(min, value));
+
+// Size of the image once the rotation is applied.
+export const rotatedSize = (width: number, height: number, rotation: Rotation) =>
+  rotation === 90 || rotation === 270 ? { width: height, height: width } : { width, height };
+
+// ---------------------------
+// Keeping crop and focal point in place when the image is rotated/flipped
+// ---------------------------
+export const rotatePointClockwise = ({ x, y }: Point): Point => ({ x: 1 - y, y: x });
+
+export const rotateRectClockwise = ({ x, y, width, height }: CropRect): CropRect => ({
+  x: 1 - (y + height),
+  y: x,
+  width: height,
+  height: width,
+});
+
+export const flipPoint = ({ x, y }: Point, horizontal: boolean): Point =>
+  horizontal ? { x: 1 - x, y } : { x, y: 1 - y };
+
+export const flipRect = (rect: CropRect, horizontal: boolean): CropRect =>
+  horizontal
+    ? { ...rect, x: 1 - rect.x - rect.width }
+    : { ...rect, y: 1 - rect.y - rect.height };
+
+/**
+ * Largest rect with the given pixel aspect ratio centred in the image
+ * (imageWidth x imageHeight), in normalised coordinates.
+ */
+export function centeredCrop(ratio: number, imageWidth: number, imageHeight: number): CropRect {
+  const imageRatio = imageWidth / imageHeight;
+  if (ratio > imageRatio) {
+    const height = imageRatio / ratio;
+    return { x: 0, y: (1 - height) / 2, width: 1, height };
+  }
+  const width = ratio / imageRatio;
+  return { x: (1 - width) / 2, y: 0, width, height: 1 };
+}
+
+// Focal point expressed relative to the cropped output rather than the full image.
+export function focalPointInCrop(edits: ImageEdits): Point | null {
+  if (!edits.focalPoint) return null;
+  const crop = edits.crop ?? FULL_CROP;
+  return {
+    x: clamp((edits.focalPoint.x - crop.x) / crop.width),
+    y: clamp((edits.focalPoint.y - crop.y) / crop.height),
+  };
+}
+
+// CSS object-position that keeps the focal point visible in object-cover thumbnails.
+export const focalObjectPosition = (point: Point | null | undefined) =>
+  point ? `${Math.round(point.x * 100)}% ${Math.round(point.y * 100)}%` : undefined;
+
+/**
+ * Draws `source` rotated/flipped and cropped into a new canvas, optionally
+ * scaled down so its longer side is at most `maxSize`.
+ */
+export function drawEditedImage(
+  source: CanvasImageSource & { width: number; height: number },
+  edits: ImageEdits,
+  maxSize = Infinity
+): HTMLCanvasElement {
+  const rotated = rotatedSize(source.width, source.height, edits.rotation);
+  const crop = edits.crop ?? FULL_CROP;
+  // Scale up front so large originals never get drawn at full size for a thumbnail
+  const scale = Math.min(
+    1,
+    maxSize / Math.max(crop.width * rotated.width, crop.height * rotated.height)
+  );
+  const fullWidth = Math.max(1, Math.round(rotated.width * scale));
+  const fullHeight = Math.max(1, Math.round(rotated.height * scale));
+
+  // Full image with rotation and flips applied
+  const full = document.createElement('canvas');
+  full.width = fullWidth;
+  full.height = fullHeight;
+  const fullCtx = full.getContext('2d');
+  if (!fullCtx) throw new Error('Canvas is not supported');
+  fullCtx.translate(fullWidth / 2, fullHeight / 2);
+  fullCtx.scale(edits.flipHorizontal ? -scale : scale, edits.flipVertical ? -scale : scale);
+  fullCtx.rotate((edits.rotation * Math.PI) / 180);
+  fullCtx.drawImage(source, -source.width / 2, -source.height / 2);
+
+  if (!edits.crop) return full;
+
+  const output = document.createElement('canvas');
+  output.width = Math.max(1, Math.round(crop.width * fullWidth));
+  output.height = Math.max(1, Math.round(crop.height * fullHeight));
+  const outputCtx = output.getContext('2d');
+  if (!outputCtx) throw new Error('Canvas is not supported');
+  outputCtx.drawImage(
+    full,
+    Math.round(crop.x * fullWidth),
+    Math.round(crop.y * fullHeight),
+    output.width,
+    output.height,
+    0,
+    0,
+    output.width,
+    output.height
+  );
+
+  return output;
+}
+
+const canvasToBlob = (canvas: HTMLCanvasElement, type: string, quality: number) =>
+  new Promise<Blob>((resolve, reject) =>
+    canvas.toBlob(
+      (blob) => (blob ? resolve(blob) : reject(new Error('Failed to encode image'))),
+      type,
+      quality
+    )
+  );
+
+// Keep lossless/modern formats as they are; everything else becomes JPEG.
+const outputTypeFor = (type: string) =>
+  type === 'image/png' || type === 'image/webp' ? type : 'image/jpeg';
+
+export async function renderEditedFile(source: File, edits: ImageEdits): Promise<File> {
+  const bitmap = await createImageBitmap(source, { imageOrientation: 'from-image' });
+  try {
+    const type = outputTypeFor(source.type);
+    const blob = await canvasToBlob(drawEditedImage(bitmap, edits), type, 0.92);
+    const extension = type.split('/')[1].replace('jpeg', 'jpg');
+    const name = `${source.name.replace(/\.[^.]+$/, '')}-edited.${extension}`;
+    return new File([blob], name, { type, lastModified: Date.now() });
+  } finally {
+    bitmap.close();
+  }
+}
+
+export async function renderEditedPreview(source: File, edits: ImageEdits, maxSize = 480): Promise<Blob> {
+  const bitmap = await createImageBitmap(source, { imageOrientation: 'from-image' });
+  try {
+    return await canvasToBlob(drawEditedImage(bitmap, edits, maxSize), 'image/jpeg', 0.8);
+  } finally {
+    bitmap.close();
+  }
+}
+
+// Form fields for metadata mode; the focal point is always posted relative
+// to the final (cropped) image.
+export function appendEditFields(formData: FormData, edits: ImageEdits, mode: EditMode) {
+  if (mode === 'metadata') {
+    if (edits.crop) formData.append('crop', JSON.stringify(edits.crop));
+    if (edits.rotation) formData.append('rotation', String(edits.rotation));
+    if (edits.flipHorizontal) formData.append('flipHorizontal', 'true');
+    if (edits.flipVertical) formData.append('flipVertical', 'true');
+  }
+
+  const focal = focalPointInCrop(edits);
+  if (focal) {
+    formData.append('focalX', focal.x.toFixed(4));
+    formData.append('focalY', focal.y.toFixed(4));
+  }
+}
+
+// Shape the images API stores edits in; the focal point is relative to the cropped image.
+export interface EditMetadata {
+  crop?: CropRect | null;
+  rotation?: Rotation;
+  flipHorizontal?: boolean;
+  flipVertical?: boolean;
+  focalPoint?: Point | null;
+}
+
+export function editsFromMetadata(meta: EditMetadata): ImageEdits {
+  const crop = meta.crop ?? null;
+  const area = crop ?? FULL_CROP;
+  return {
+    crop,
+    rotation: meta.rotation ?? 0,
+    flipHorizontal: !!meta.flipHorizontal,
+    flipVertical: !!meta.flipVertical,
+    focalPoint: meta.focalPoint
+      ? { x: area.x + meta.focalPoint.x * area.width, y: area.y + meta.focalPoint.y * area.height }
+      : null,
+  };
+}
+
+export function metadataFromEdits(edits: ImageEdits): EditMetadata {
+  return {
+    crop: edits.crop,
+    rotation: edits.rotation,
+    flipHorizontal: edits.flipHorizontal,
+    flipVertical: edits.flipVertical,
+    focalPoint: focalPointInCrop(edits),
+  };
+}
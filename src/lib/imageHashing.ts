@@ -0,0 +1,168 @@
+export interface ImageHashes {
+  // SHA-256 of the file bytes, hex encoded
+  contentHash: string;
+  // 64-bit difference hash (dHash), hex encoded
+  perceptualHash: string;
+}
+
+export interface HashedImage {
+  _id: string;
+  title: string;
+  imageUrl: string;
+  contentHash?: string;
+  perceptualHash?: string;
+  createdAt?: string;
+}
+
+// Bits out of 64 that may differ for two images to count as near-duplicates.
+export const SIMILARITY_THRESHOLDS = {
+  strict: 4,
+  similar: 10,
+  loose: 16,
+};
+
+const DHASH_WIDTH = 9;
+const DHASH_HEIGHT = 8;
+
+const toHex = (bytes: Uint8Array) =>
+  Array.from(bytes, (b) => b.toString(16).padStart(2, '0')).join('');
+
+// One bit per horizontally adjacent pixel pair: set when brightness drops.
+export function dHashFromPixels(rgba: Uint8ClampedArray): string {
+  const bytes = new Uint8Array(8);
+  let bit = 0;
+
+  for (let y = 0; y < DHASH_HEIGHT; y++) {
+    for (let x = 0; x < DHASH_WIDTH - 1; x++) {
+      const left = (y * DHASH_WIDTH + x) * 4;
+      const right = left + 4;
+      const leftLuma = rgba[left] * 0.299 + rgba[left + 1] * 0.587 + rgba[left + 2] * 0.114;
+      const rightLuma = rgba[right] * 0.299 + rgba[right + 1] * 0.587 + rgba[right + 2] * 0.114;
+      if (leftLuma > rightLuma) {
+        bytes[bit >> 3] |= 1 << (7 - (bit & 7));
+      }
+      bit++;
+    }
+  }
+
+  return toHex(bytes);
+}
+
+/**
+ * Hashes an image file. Works in a worker (OffscreenCanvas) or on the main
+ * thread as a fallback.
+ */
+export async function computeImageHashes(file: Blob): Promise<ImageHashes> {
+  const [digest, bitmap] = await Promise.all([
+    crypto.subtle.digest('SHA-256', await file.arrayBuffer()),
+    createImageBitmap(file, {
+      imageOrientation: 'from-image',
+      resizeWidth: DHASH_WIDTH,
+      resizeHeight: DHASH_HEIGHT,
+      resizeQuality: 'high',
+    }),
+  ]);
+
+  try {
+    let pixels: Uint8ClampedArray;
+
+    if (typeof OffscreenCanvas !== 'undefined') {
+      const ctx = new OffscreenCanvas(DHASH_WIDTH, DHASH_HEIGHT).getContext('2d');
+      if (!ctx) throw new Error('Canvas is not supported');
+      ctx.drawImage(bitmap, 0, 0, DHASH_WIDTH, DHASH_HEIGHT);
+      pixels = ctx.getImageData(0, 0, DHASH_WIDTH, DHASH_HEIGHT).data;
+    } else {
+      const canvas = document.createElement('canvas');
+      canvas.width = DHASH_WIDTH;
+      canvas.height = DHASH_HEIGHT;
+      const ctx = canvas.getContext('2d');
+      if (!ctx) throw new Error('Canvas is not supported');
+      ctx.drawImage(bitmap, 0, 0, DHASH_WIDTH, DHASH_HEIGHT);
+      pixels = ctx.getImageData(0, 0, DHASH_WIDTH, DHASH_HEIGHT).data;
+    }
+
+    return {
+      contentHash: toHex(new Uint8Array(digest)),
+      perceptualHash: dHashFromPixels(pixels),
+    };
+  } finally {
+    bitmap.close();
+  }
+}
+
+const popcount = (n: number) => {
+  let count = 0;
+  while (n) {
+    n &= n - 1;
+    count++;
+  }
+  return count;
+};
+
+export function hammingDistance(a: string, b: string): number {
+  if (a.length !== b.length) return Infinity;
+  let distance = 0;
+  for (let i = 0; i < a.length; i += 4) {
+    distance += popcount(parseInt(a.slice(i, i + 4), 16) ^ parseInt(b.slice(i, i + 4), 16));
+  }
+  return distance;
+}
+
+export interface DuplicateMatch<T> {
+  image: T;
+  distance: number;
+  exact: boolean;
+}
+
+export function findDuplicates<T extends HashedImage>(
+  hashes: ImageHashes,
+  candidates: T[],
+  threshold = SIMILARITY_THRESHOLDS.similar
+): DuplicateMatch<T>[] {
+  return candidates
+    .map((image) => {
+      const exact = !!image.contentHash && image.contentHash === hashes.contentHash;
+      const distance = image.perceptualHash
+        ? hammingDistance(hashes.perceptualHash, image.perceptualHash)
+        : Infinity;
+      return { image, distance: exact ? 0 : distance, exact };
+    })
+    .filter((match) => match.exact || match.distance <= threshold)
+    .sort((a, b) => a.distance - b.distance);
+}
+
+/**
+ * Clusters images whose perceptual hashes are within `threshold` of each
+ * other (transitively), returning only groups with more than one image.
+ */
+export function groupBySimilarity<T extends HashedImage>(
+  images: T[],
+  threshold = SIMILARITY_THRESHOLDS.similar
+): T[][] {
+  const hashed = images.filter((image) => image.perceptualHash || image.contentHash);
+  const parent = hashed.map((_, i) => i);
+  const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])));
+
+  for (let i = 0; i < hashed.length; i++) {
+    for (let j = i + 1; j < hashed.length; j++) {
+      const a = hashed[i];
+      const b = hashed[j];
+      const exact = !!a.contentHash && a.contentHash === b.contentHash;
+      const similar =
+        !!a.perceptualHash &&
+        !!b.perceptualHash &&
+        hammingDistance(a.perceptualHash, b.perceptualHash) <= threshold;
+      if (exact || similar) {
+        parent[find(i)] = find(j);
+      }
+    }
+  }
+
+  const groups = new Map<number, T[]>();
+  hashed.forEach((image, i) => {
+    const root = find(i);
+    groups.set(root, [...(groups.get(root) ?? []), image]);
+  });
+
+  return Array.from(groups.values()).filter((group) => group.length > 1);
+}
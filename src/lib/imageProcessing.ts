@@ -0,0 +1,92 @@
+export type OutputFormat = 'image/jpeg' | 'image/webp';
+
+export interface ProcessingOptions {
+  maxWidth: number;
+  maxHeight: number;
+  format: OutputFormat;
+  quality: number;
+}
+
+export interface ProcessedImage {
+  blob: Blob;
+  width: number;
+  height: number;
+  originalWidth: number;
+  originalHeight: number;
+}
+
+export const DEFAULT_PROCESSING_OPTIONS: ProcessingOptions = {
+  maxWidth: 3840,
+  maxHeight: 3840,
+  format: 'image/jpeg',
+  quality: 0.85,
+};
+
+// Animated GIFs and vector images would be flattened by a canvas round trip.
+export const canProcess = (file: File) =>
+  file.type.startsWith('image/') && file.type !== 'image/gif' && file.type !== 'image/svg+xml';
+
+// Scale (width, height) down to fit inside the max box, never up.
+export function fitWithin(width: number, height: number, maxWidth: number, maxHeight: number) {
+  const scale = Math.min(1, maxWidth / width, maxHeight / height);
+  return {
+    width: Math.max(1, Math.round(width * scale)),
+    height: Math.max(1, Math.round(height * scale)),
+  };
+}
+
+/**
+ * Decodes, downscales and re-encodes an image. Re-encoding through a canvas
+ * drops all EXIF/GPS metadata; orientation is applied to the pixels first so
+ * rotated camera photos stay upright. Runs in a worker (OffscreenCanvas) or on
+ * the main thread as a fallback.
+ */
+export async function renderProcessedImage(
+  source: Blob,
+  options: ProcessingOptions
+): Promise<ProcessedImage> {
+  const bitmap = await createImageBitmap(source, { imageOrientation: 'from-image' });
+  const { width, height } = fitWithin(bitmap.width, bitmap.height, options.maxWidth, options.maxHeight);
+
+  try {
+    let blob: Blob | null;
+
+    if (typeof OffscreenCanvas !== 'undefined') {
+      const canvas = new OffscreenCanvas(width, height);
+      const ctx = canvas.getContext('2d');
+      if (!ctx) throw new Error('Canvas is not supported');
+      ctx.drawImage(bitmap, 0, 0, width, height);
+      blob = await canvas.convertToBlob({ type: options.format, quality: options.quality });
+    } else {
+      const canvas = document.createElement('canvas');
+      canvas.width = width;
+      canvas.height = height;
+      const ctx = canvas.getContext('2d');
+      if (!ctx) throw new Error('Canvas is not supported');
+      ctx.drawImage(bitmap, 0, 0, width, height);
+      blob = await new Promise<Blob | null>((resolve) =>
+        canvas.toBlob(resolve, options.format, options.quality)
+      );
+    }
+
+    if (!blob) throw new Error('Failed to encode image');
+
+    return {
+      blob,
+      width,
+      height,
+      originalWidth: bitmap.width,
+      originalHeight: bitmap.height,
+    };
+  } finally {
+    bitmap.close();
+  }
+}
+
+// Decoded pixel size with EXIF orientation applied, i.e. as the image displays.
+export async function readImageDimensions(file: Blob) {
+  const bitmap = await createImageBitmap(file, { imageOrientation: 'from-image' });
+  const dimensions = { width: bitmap.width, height: bitmap.height };
+  bitmap.close();
+  return dimensions;
+}
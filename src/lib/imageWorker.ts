@@ -0,0 +1,62 @@
+import {
+  renderProcessedImage,
+  ProcessingOptions,
+  ProcessedImage,
+} from './imageProcessing';
+import type { ProcessRequest } from '../workers/imageProcessor.worker';
+import { createWorkerRpc } from './workerRpc';
+
+const runInWorker = createWorkerRpc<ProcessRequest, ProcessedImage>(
+  () => new Worker(new URL('../workers/imageProcessor.worker.ts', import.meta.url), { type: 'module' }),
+  ({ file, options }) => renderProcessedImage(file, options)
+);
+
+export const processImage = (file: Blob, options: ProcessingOptions): Promise<ProcessedImage> =>
+  runInWorker({ file, options });
+
+const MIN_QUALITY = 0.5;
+const MAX_ATTEMPTS = 8;
+
+/**
+ * Re-encodes until the result fits under `maxBytes`: first by lowering the
+ * quality towards MIN_QUALITY, then by shrinking the dimensions.
+ */
+export async function compressToLimit(
+  file: Blob,
+  options: ProcessingOptions,
+  maxBytes: number
+): Promise<ProcessedImage> {
+  let current = { ...options };
+  let result = await processImage(file, current);
+
+  for (let attempt = 1; result.blob.size > maxBytes && attempt < MAX_ATTEMPTS; attempt++) {
+    if (current.quality > MIN_QUALITY) {
+      current = { ...current, quality: Math.max(MIN_QUALITY, current.quality - 0.1) };
+    } else {
+      current = {
+        ...current,
+        maxWidth: Math.round(result.width * 0.8),
+        maxHeight: Math.round(result.height * 0.8),
+      };
+    }
+    result = await processImage(file, current);
+  }
+
+  if (result.blob.size > maxBytes) {
+    throw new Error('Could not compress image below the size limit');
+  }
+  return result;
+}
+
+const extensions: Record<ProcessingOptions['format'], string> = {
+  'image/jpeg': 'jpg',
+  'image/webp': 'webp',
+};
+
+export function toProcessedFile(original: File, processed: ProcessedImage, options: ProcessingOptions) {
+  const baseName = original.name.replace(/\.[^.]+$/, '');
+  return new File([processed.blob], `${baseName}.${extensions[options.format]}`, {
+    type: options.format,
+    lastModified: Date.now(),
+  });
+}
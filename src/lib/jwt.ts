@@ -0,0 +1,31 @@
+export interface JwtClaims {
+  sub?: string;
+  // Seconds since the epoch
+  exp?: number;
+  iat?: number;
+  [claim: string]: unknown;
+}
+
+// Reads the payload without verifying the signature; that's the server's job.
+// Returns null for anything that isn't a well-formed JWT.
+export function decodeJwt(token: string): JwtClaims | null {
+  const payload = token.split('.')[1];
+  if (!payload) return null;
+  try {
+    const base64 = payload.replace(/-/g, '+').replace(/_/g, '/');
+    const padded = base64.padEnd(base64.length + ((4 - (base64.length % 4)) % 4), '=');
+    const json = decodeURIComponent(
+      Array.from(atob(padded), (char) => `%${char.charCodeAt(0).toString(16).padStart(2, '0')}`).join('')
+    );
+    const claims: unknown = JSON.parse(json);
+    return typeof claims === 'object' && claims !== null ? (claims as JwtClaims) : null;
+  } catch {
+    return null;
+  }
+}
+
+// Expiry in ms since the epoch, or null when the token doesn't say
+export function getTokenExpiry(token: string): number | null {
+  const exp = decodeJwt(token)?.exp;
+  return typeof exp === 'number' ? exp * 1000 : null;
+}
@@ -0,0 +1,59 @@
+export interface MasonryOptions {
+  minColumnWidth: number;
+  gap: number;
+  // Fixed-height caption area below each image
+  footerHeight: number;
+}
+
+export interface MasonryItemLayout {
+  top: number;
+  left: number;
+  width: number;
+  height: number;
+}
+
+export interface MasonryLayout {
+  columns: number;
+  items: MasonryItemLayout[];
+  height: number;
+}
+
+/**
+ * Places items in the currently shortest column, sizing each image box to its
+ * aspect ratio (width / height). Items never move once placed as long as the
+ * width doesn't change, so appending a page keeps the scroll position stable.
+ */
+export function computeMasonryLayout(
+  aspectRatios: number[],
+  containerWidth: number,
+  { minColumnWidth, gap, footerHeight }: MasonryOptions
+): MasonryLayout {
+  const columns = Math.max(1, Math.floor((containerWidth + gap) / (minColumnWidth + gap)));
+  const width = (containerWidth - gap * (columns - 1)) / columns;
+  const heights = new Array<number>(columns).fill(0);
+
+  const items = aspectRatios.map((ratio) => {
+    const column = heights.indexOf(Math.min(...heights));
+    // Extreme panoramas and phone-tall shots are clamped so no tile dominates
+    const imageHeight = width / Math.min(3, Math.max(1 / 3, ratio || 1));
+    const item = {
+      top: heights[column],
+      left: column * (width + gap),
+      width,
+      height: imageHeight + footerHeight,
+    };
+    heights[column] += item.height + gap;
+    return item;
+  });
+
+  return { columns, items, height: Math.max(0, Math.max(...heights) - gap) };
+}
+
+// Indices of items overlapping [top, bottom], in layout coordinates.
+export function visibleRange(items: MasonryItemLayout[], top: number, bottom: number): number[] {
+  const visible: number[] = [];
+  items.forEach((item, index) => {
+    if (item.top < bottom && item.top + item.height > top) visible.push(index);
+  });
+  return visible;
+}
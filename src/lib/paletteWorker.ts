@@ -0,0 +1,10 @@
+import { extractPalette, PaletteColor } from './colorPalette';
+import type { PaletteRequest } from '../workers/colorPalette.worker';
+import { createWorkerRpc } from './workerRpc';
+
+const runInWorker = createWorkerRpc<PaletteRequest, PaletteColor[]>(
+  () => new Worker(new URL('../workers/colorPalette.worker.ts', import.meta.url), { type: 'module' }),
+  ({ file }) => extractPalette(file)
+);
+
+export const paletteOf = (file: Blob): Promise<PaletteColor[]> => runInWorker({ file });
@@ -0,0 +1,25 @@
+import { AuthUser, Permission, Role } from '../api/types';
+
+export const ROLES: readonly Role[] = ['viewer', 'editor', 'admin'];
+
+const EDITOR_PERMISSIONS: readonly Permission[] = ['images:upload', 'images:edit', 'categories:edit', 'tags:manage'];
+
+// What each role may do beyond browsing, which every signed-in user can.
+// The server enforces the same rules; this only decides what to show.
+export const ROLE_PERMISSIONS: Record<Role, readonly Permission[]> = {
+  viewer: [],
+  editor: EDITOR_PERMISSIONS,
+  admin: [...EDITOR_PERMISSIONS, 'images:delete', 'categories:delete', 'users:manage'],
+};
+
+const ALL_PERMISSIONS = new Set<string>(ROLE_PERMISSIONS.admin);
+
+export const isRole = (value: unknown): value is Role => ROLES.includes(value as Role);
+
+export const isPermission = (value: unknown): value is Permission =>
+  typeof value === 'string' && ALL_PERMISSIONS.has(value);
+
+export function getPermissions(user: AuthUser | null): Set<Permission> {
+  if (!user) return new Set();
+  return new Set([...user.roles.flatMap((role) => ROLE_PERMISSIONS[role]), ...user.permissions]);
+}
@@ -0,0 +1,115 @@
+import { getTokenExpiry } from './jwt';
+
+// Key names predate refresh tokens; keep them so existing sessions survive
+const ACCESS_TOKEN_KEY = 'jwt_token';
+const REFRESH_TOKEN_KEY = 'refresh_token';
+
+// Treat a token as expired this long before its `exp`, to absorb clock skew
+// and the time a request spends in flight
+const EXPIRY_MARGIN_MS = 10 * 1000;
+
+export interface Session {
+  accessToken: string;
+  refreshToken: string | null;
+  // Ms since the epoch; null when the token carries no `exp`
+  expiresAt: number | null;
+}
+
+export type SessionEndReason = 'logout' | 'expired';
+
+type SessionListener = (session: Session | null, reason?: SessionEndReason) => void;
+
+// What other tabs are told; they re-read storage rather than trust the message
+type SessionMessage = { type: 'saved' } | { type: 'cleared'; reason: SessionEndReason };
+
+const listeners = new Set<SessionListener>();
+
+const notify = (session: Session | null, reason?: SessionEndReason) => {
+  listeners.forEach((listener) => listener(session, reason));
+};
+
+// Remembered sessions live in localStorage; the rest in sessionStorage, which
+// is private to the tab and gone when it closes. A tab's own session wins.
+const storeHoldingSession = (): Storage | null =>
+  [sessionStorage, localStorage].find((store) => store.getItem(ACCESS_TOKEN_KEY)) ?? null;
+
+const removeFrom = (store: Storage) => {
+  store.removeItem(ACCESS_TOKEN_KEY);
+  store.removeItem(REFRESH_TOKEN_KEY);
+};
+
+export function getSession(): Session | null {
+  const store = storeHoldingSession();
+  const accessToken = store?.getItem(ACCESS_TOKEN_KEY);
+  if (!store || !accessToken) return null;
+  return {
+    accessToken,
+    refreshToken: store.getItem(REFRESH_TOKEN_KEY),
+    expiresAt: getTokenExpiry(accessToken),
+  };
+}
+
+export function isSessionExpired(session: Session, now = Date.now()): boolean {
+  return session.expiresAt !== null && session.expiresAt - EXPIRY_MARGIN_MS <= now;
+}
+
+// `refreshToken` undefined keeps the current one, as when a refresh doesn't
+// rotate it; null removes it. `persist` picks the storage at sign-in ("remember
+// me"); refreshes leave it out and stay wherever the session already is.
+export function saveSession(accessToken: string, refreshToken?: string | null, persist?: boolean) {
+  const store =
+    persist === undefined ? storeHoldingSession() ?? localStorage : persist ? localStorage : sessionStorage;
+  if (persist !== undefined) removeFrom(store === localStorage ? sessionStorage : localStorage);
+  store.setItem(ACCESS_TOKEN_KEY, accessToken);
+  if (refreshToken) store.setItem(REFRESH_TOKEN_KEY, refreshToken);
+  else if (refreshToken === null) store.removeItem(REFRESH_TOKEN_KEY);
+  notify(getSession());
+  broadcast({ type: 'saved' });
+}
+
+export function clearSession(reason: SessionEndReason) {
+  removeFrom(localStorage);
+  removeFrom(sessionStorage);
+  notify(null, reason);
+  broadcast({ type: 'cleared', reason });
+}
+
+// Called with the new session after every save, and with null plus the
+// reason when it ends
+export function subscribeSession(listener: SessionListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+// ---------------------------
+// Cross-Tab Sync
+// ---------------------------
+// Logins, refreshes and logouts in one tab reach every other tab of the app.
+// BroadcastChannel carries the end reason; older browsers fall back to
+// storage events, which only say that the token changed.
+const channel = typeof BroadcastChannel !== 'undefined' ? new BroadcastChannel('session') : null;
+
+function broadcast(message: SessionMessage) {
+  channel?.postMessage(message);
+}
+
+if (channel) {
+  channel.onmessage = (event: MessageEvent<SessionMessage>) => {
+    if (event.data.type === 'saved') {
+      notify(getSession());
+    } else {
+      // Signing out anywhere also ends sessions kept in this tab's sessionStorage
+      removeFrom(sessionStorage);
+      notify(null, event.data.reason);
+    }
+  };
+} else if (typeof window !== 'undefined') {
+  window.addEventListener('storage', (event) => {
+    // A null key means another tab called localStorage.clear()
+    if (event.key !== ACCESS_TOKEN_KEY && event.key !== REFRESH_TOKEN_KEY && event.key !== null) return;
+    const session = getSession();
+    notify(session, session ? undefined : 'logout');
+  });
+}
@@ -0,0 +1,123 @@
+import { GalleryStats, StatsInterval, UploadBucket } from '../api/types';
+import { StatsParams } from '../api/stats';
+
+export type RangePresetId = '7d' | '30d' | '90d' | '12m';
+
+export const RANGE_PRESETS: { id: RangePresetId; label: string; days: number }[] = [
+  { id: '7d', label: '7 days', days: 7 },
+  { id: '30d', label: '30 days', days: 30 },
+  { id: '90d', label: '90 days', days: 90 },
+  { id: '12m', label: '12 months', days: 365 },
+];
+
+export const DEFAULT_RANGE_PRESET: RangePresetId = '30d';
+
+// Daily bars stop being readable past about a month
+const MAX_DAILY_BUCKETS = 31;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ---------------------------
+// Dates (YYYY-MM-DD)
+// ---------------------------
+// Calendar dates are handled as UTC midnights so DST never shifts a day
+const toTime = (date: string) => Date.parse(`${date}T00:00:00Z`);
+const fromTime = (time: number) => new Date(time).toISOString().slice(0, 10);
+
+export const addDays = (date: string, days: number) => fromTime(toTime(date) + days * DAY_MS);
+
+// Inclusive of both ends
+export const daysBetween = (from: string, to: string) => Math.round((toTime(to) - toTime(from)) / DAY_MS) + 1;
+
+// Today in the user's time zone
+export function today(): string {
+  const now = new Date();
+  return fromTime(Date.UTC(now.getFullYear(), now.getMonth(), now.getDate()));
+}
+
+export function presetRange(id: RangePresetId): { from: string; to: string } {
+  const preset = RANGE_PRESETS.find((candidate) => candidate.id === id) ?? RANGE_PRESETS[0];
+  const to = today();
+  return { from: addDays(to, 1 - preset.days), to };
+}
+
+export const defaultInterval = (from: string, to: string): StatsInterval =>
+  daysBetween(from, to) > MAX_DAILY_BUCKETS ? 'week' : 'day';
+
+// Weeks start on Monday (ISO 8601)
+export function bucketStart(date: string, interval: StatsInterval): string {
+  if (interval === 'day') return date;
+  const weekday = (new Date(toTime(date)).getUTCDay() + 6) % 7;
+  return addDays(date, -weekday);
+}
+
+/**
+ * One bucket per day or week of the range, zero-filled. The backend leaves
+ * out empty buckets; anything it returns is summed into the bucket its date
+ * falls in, so differing ideas of where a week starts can't drop uploads.
+ */
+export function fillUploadBuckets(
+  buckets: UploadBucket[],
+  { from, to, interval }: StatsParams
+): UploadBucket[] {
+  const filled = new Map<string, UploadBucket>();
+  const step = interval === 'day' ? 1 : 7;
+  for (let date = bucketStart(from, interval); date <= to; date = addDays(date, step)) {
+    filled.set(date, { date, count: 0, bytes: 0 });
+  }
+  buckets.forEach((bucket) => {
+    const target = filled.get(bucketStart(bucket.date, interval));
+    if (!target) return;
+    target.count += bucket.count;
+    target.bytes += bucket.bytes;
+  });
+  return [...filled.values()];
+}
+
+// ---------------------------
+// CSV Export
+// ---------------------------
+type Cell = string | number | null;
+
+// Quotes where needed, and defuses cells a spreadsheet would run as a formula
+function csvCell(value: Cell): string {
+  if (value === null) return '';
+  let text = String(value);
+  if (typeof value === 'string' && /^[=+\-@]/.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export const toCsv = (rows: Cell[][]) => rows.map((row) => row.map(csvCell).join(',')).join('\r\n');
+
+// Every number behind the dashboard, one block per chart or table
+export function statsToCsv(stats: GalleryStats, params: StatsParams): string {
+  const uploads = fillUploadBuckets(stats.uploads, params);
+  const periodUploads = uploads.reduce((sum, bucket) => sum + bucket.count, 0);
+  const popular = (title: string, images: GalleryStats['topViewed']): Cell[][] => [
+    [],
+    [title],
+    ['Image ID', 'Title', 'Downloads', 'Views'],
+    ...images.map((image) => [image._id, image.title, image.downloads, image.views]),
+  ];
+
+  return toCsv([
+    ['Summary'],
+    ['From', params.from],
+    ['To', params.to],
+    ['Total images', stats.totalImages],
+    ['Total bytes', stats.totalBytes],
+    ['Uploads in range', periodUploads],
+    ['Downloads in range', stats.downloads],
+    ['Views in range', stats.views],
+    [],
+    [params.interval === 'day' ? 'Uploads per day' : 'Uploads per week'],
+    [params.interval === 'day' ? 'Date' : 'Week starting', 'Uploads', 'Bytes'],
+    ...uploads.map((bucket) => [bucket.date, bucket.count, bucket.bytes]),
+    [],
+    ['Categories'],
+    ['Category ID', 'Name', 'Images', 'Bytes'],
+    ...stats.categories.map((category) => [category._id, category.name, category.count, category.bytes]),
+    ...popular('Top downloaded', stats.topDownloaded),
+    ...popular('Top viewed', stats.topViewed),
+  ]);
+}
@@ -0,0 +1,10 @@
+// Tags are stored lowercase and hyphenated so "Night Sky" and "night-sky" match.
+// Commas separate tags in upload forms and URLs, so they can't be part of one:
+// "a,b" becomes "a-b" like a space would.
+export const normalizeTag = (tag: string) =>
+  tag
+    .trim()
+    .replace(/^#/, '')
+    .toLowerCase()
+    .replace(/[\s,]+/g, '-')
+    .replace(/^-+|-+$/g, '');
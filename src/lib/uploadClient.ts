@@ -0,0 +1,121 @@
+import axios, { AxiosProgressEvent, CanceledError } from 'axios';
+import axiosInstance from './axios';
+
+export interface UploadProgress {
+  loaded: number;
+  total: number;
+  percent: number;
+  bytesPerSecond: number;
+  etaSeconds: number | null;
+}
+
+export interface UploadOptions {
+  signal?: AbortSignal;
+  onProgress?: (progress: UploadProgress) => void;
+  onRetry?: (attempt: number, delayMs: number) => void;
+  maxRetries?: number;
+  baseDelayMs?: number;
+}
+
+const DEFAULT_MAX_RETRIES = 3;
+const DEFAULT_BASE_DELAY_MS = 1000;
+const MAX_DELAY_MS = 15000;
+const RETRYABLE_STATUSES = [408, 429, 500, 502, 503, 504];
+
+// Dropped connections, timeouts and overloaded-server responses are worth
+// retrying; validation and auth failures are not.
+export function isTransientError(err: unknown): boolean {
+  if (axios.isCancel(err) || !axios.isAxiosError(err)) return false;
+  if (!err.response) return true;
+  return RETRYABLE_STATUSES.includes(err.response.status);
+}
+
+const getRetryDelay = (err: unknown, attempt: number, baseDelayMs: number) => {
+  if (axios.isAxiosError(err)) {
+    const retryAfter = Number(err.response?.headers?.['retry-after']);
+    if (retryAfter > 0) return Math.min(retryAfter * 1000, MAX_DELAY_MS);
+  }
+  const exponential = baseDelayMs * 2 ** (attempt - 1);
+  const jitter = Math.random() * baseDelayMs;
+  return Math.min(exponential + jitter, MAX_DELAY_MS);
+};
+
+const wait = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new CanceledError());
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new CanceledError());
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+const toProgress = (event: AxiosProgressEvent, startedAt: number): UploadProgress => {
+  const total = event.total ?? 0;
+  const elapsedSeconds = (Date.now() - startedAt) / 1000;
+  const bytesPerSecond = event.rate ?? (elapsedSeconds > 0 ? event.loaded / elapsedSeconds : 0);
+  const remaining = Math.max(0, total - event.loaded);
+
+  return {
+    loaded: event.loaded,
+    total,
+    percent: total > 0 ? Math.round((event.loaded / total) * 100) : 0,
+    bytesPerSecond,
+    etaSeconds: total > 0 && bytesPerSecond > 0 ? remaining / bytesPerSecond : null,
+  };
+};
+
+/**
+ * Posts multipart form data through the shared axios instance, reporting byte
+ * progress and retrying transient failures with exponential backoff. The
+ * backend has no resumable upload protocol, so each retry re-sends the whole
+ * body. Aborting `signal` cancels both an in-flight request and a pending retry.
+ */
+export async function uploadFormData<T = unknown>(
+  url: string,
+  formData: FormData,
+  {
+    signal,
+    onProgress,
+    onRetry,
+    maxRetries = DEFAULT_MAX_RETRIES,
+    baseDelayMs = DEFAULT_BASE_DELAY_MS,
+  }: UploadOptions = {}
+): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    const startedAt = Date.now();
+
+    try {
+      const response = await axiosInstance.post<T>(url, formData, {
+        headers: {
+          'Content-Type': 'multipart/form-data',
+        },
+        signal,
+        onUploadProgress: (event) => onProgress?.(toProgress(event, startedAt)),
+      });
+      return response.data;
+    } catch (err: unknown) {
+      if (signal?.aborted || attempt >= maxRetries || !isTransientError(err)) {
+        throw err;
+      }
+
+      const delay = getRetryDelay(err, attempt + 1, baseDelayMs);
+      onRetry?.(attempt + 1, delay);
+      await wait(delay, signal);
+    }
+  }
+}
+
+export function formatEta(seconds: number | null): string {
+  if (seconds === null || !Number.isFinite(seconds)) return '';
+  if (seconds < 60) return `${Math.ceil(seconds)}s left`;
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}m ${Math.ceil(seconds % 60)}s left`;
+}
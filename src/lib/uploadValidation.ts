@@ -0,0 +1,28 @@
+export const MAX_UPLOAD_SIZE = 10 * 1024 * 1024;
+
+// Returns a human readable reason the file can't be uploaded, or null if it's fine.
+export function validateUploadFile(file: File): string | null {
+  if (!file.type.startsWith('image/')) {
+    return 'Only image files can be uploaded';
+  }
+  if (file.size > MAX_UPLOAD_SIZE) {
+    return 'File size must be less than 10MB';
+  }
+  return null;
+}
+
+// "my_sunset-wallpaper.jpg" -> "my sunset wallpaper"
+export function titleFromFilename(filename: string): string {
+  return filename
+    .replace(/\.[^.]+$/, '')
+    .replace(/[_-]+/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(2)} GB`;
+}
@@ -0,0 +1,123 @@
+export type Orientation = 'landscape' | 'portrait' | 'square';
+
+export interface Dimensions {
+  width: number;
+  height: number;
+}
+
+export interface WallpaperProfile {
+  id: string;
+  label: string;
+  // width / height
+  ratio: number;
+}
+
+export interface ResolutionTier {
+  id: string;
+  label: string;
+  longEdge: number;
+  shortEdge: number;
+}
+
+export interface WallpaperClassification {
+  orientation: Orientation;
+  aspectRatio: string;
+  profiles: WallpaperProfile[];
+  tier: ResolutionTier | null;
+}
+
+export interface ResolutionRules {
+  warnBelow: string;
+  blockBelow: string;
+}
+
+export interface ResolutionCheck {
+  level: 'ok' | 'warn' | 'block';
+  message: string;
+}
+
+export const WALLPAPER_PROFILES: WallpaperProfile[] = [
+  { id: 'desktop-16-9', label: 'Desktop 16:9', ratio: 16 / 9 },
+  { id: 'desktop-16-10', label: 'Desktop 16:10', ratio: 16 / 10 },
+  { id: 'ultrawide-21-9', label: 'Ultrawide 21:9', ratio: 21 / 9 },
+  { id: 'phone-9-19.5', label: 'Phone 9:19.5', ratio: 9 / 19.5 },
+  { id: 'phone-9-16', label: 'Phone 9:16', ratio: 9 / 16 },
+  { id: 'tablet-4-3', label: 'Tablet 4:3', ratio: 4 / 3 },
+  { id: 'tablet-3-4', label: 'Tablet 3:4', ratio: 3 / 4 },
+];
+
+// Ordered from highest to lowest; an image belongs to the first tier whose
+// edges it meets, regardless of orientation.
+export const RESOLUTION_TIERS: ResolutionTier[] = [
+  { id: '5k', label: '5K', longEdge: 5120, shortEdge: 2880 },
+  { id: '4k', label: '4K', longEdge: 3840, shortEdge: 2160 },
+  { id: 'qhd', label: 'QHD', longEdge: 2560, shortEdge: 1440 },
+  { id: 'fhd', label: 'Full HD', longEdge: 1920, shortEdge: 1080 },
+  { id: 'hd', label: 'HD', longEdge: 1280, shortEdge: 720 },
+];
+
+export const DEFAULT_RESOLUTION_RULES: ResolutionRules = {
+  warnBelow: 'fhd',
+  blockBelow: 'hd',
+};
+
+const RATIO_TOLERANCE = 0.03;
+
+export function getOrientation({ width, height }: Dimensions): Orientation {
+  if (Math.abs(width - height) / Math.max(width, height) < 0.02) return 'square';
+  return width > height ? 'landscape' : 'portrait';
+}
+
+const gcd = (a: number, b: number): number => (b === 0 ? a : gcd(b, a % b));
+
+export function meetsTier({ width, height }: Dimensions, tier: ResolutionTier) {
+  return Math.max(width, height) >= tier.longEdge && Math.min(width, height) >= tier.shortEdge;
+}
+
+export function getResolutionTier(dimensions: Dimensions): ResolutionTier | null {
+  return RESOLUTION_TIERS.find((tier) => meetsTier(dimensions, tier)) ?? null;
+}
+
+export function classifyWallpaper(dimensions: Dimensions): WallpaperClassification {
+  const ratio = dimensions.width / dimensions.height;
+  const profiles = WALLPAPER_PROFILES.filter(
+    (profile) => Math.abs(ratio - profile.ratio) / profile.ratio <= RATIO_TOLERANCE
+  );
+
+  // Name the ratio after the matching profile when there is one, since exact
+  // reductions of real resolutions are rarely meaningful (e.g. 1170:2532).
+  const divisor = gcd(dimensions.width, dimensions.height);
+  const aspectRatio = profiles.length
+    ? profiles[0].label.split(' ').pop()!
+    : `${dimensions.width / divisor}:${dimensions.height / divisor}`;
+
+  return {
+    orientation: getOrientation(dimensions),
+    aspectRatio,
+    profiles,
+    tier: getResolutionTier(dimensions),
+  };
+}
+
+export function checkResolution(dimensions: Dimensions, rules: ResolutionRules): ResolutionCheck {
+  const block = RESOLUTION_TIERS.find((tier) => tier.id === rules.blockBelow);
+  const warn = RESOLUTION_TIERS.find((tier) => tier.id === rules.warnBelow);
+  const size = `${dimensions.width}×${dimensions.height}`;
+
+  if (block && !meetsTier(dimensions, block)) {
+    return {
+      level: 'block',
+      message: `${size} is below the ${block.label} minimum (${block.longEdge}×${block.shortEdge})`,
+    };
+  }
+  if (warn && !meetsTier(dimensions, warn)) {
+    return {
+      level: 'warn',
+      message: `${size} is below ${warn.label} and may look soft as a wallpaper`,
+    };
+  }
+  if (classifyWallpaper(dimensions).profiles.length === 0) {
+    return { level: 'warn', message: 'Does not match a common desktop, phone or tablet aspect ratio' };
+  }
+  return { level: 'ok', message: '' };
+}
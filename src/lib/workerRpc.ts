@@ -0,0 +1,90 @@
+type WorkerResponse<Result> =
+  | { id: number; result: Result; error?: undefined }
+  | { id: number; error: string; result?: undefined };
+
+type Payload<Request> = Omit<Request, 'id'>;
+
+// Workers here draw on an OffscreenCanvas, so both must exist
+const supportsWorkers = () => typeof Worker !== 'undefined' && typeof OffscreenCanvas !== 'undefined';
+
+/**
+ * Request/response calls into a worker that answers `{ id, result }` or
+ * `{ id, error }` per `{ id, ...payload }` it receives. One worker, created
+ * lazily, is shared by every caller; requests are matched back up by id.
+ *
+ * `fallback` does the same work on the main thread. It is used when workers
+ * aren't supported, and for good once the worker fails. Requests still
+ * waiting on a worker that never started (no module worker support, say)
+ * are re-run on the main thread; if it crashes after working, they reject
+ * instead, since the request in flight may well be what crashed it. Either
+ * way nothing is left hanging.
+ *
+ * `createWorker` must contain the `new Worker(new URL(...))` call itself so
+ * the bundler can see and build the worker entry.
+ */
+export function createWorkerRpc<Request extends { id: number }, Result>(
+  createWorker: () => Worker,
+  fallback: (payload: Payload<Request>) => Promise<Result>
+): (payload: Payload<Request>) => Promise<Result> {
+  let worker: Worker | null = null;
+  let broken = false;
+  // Whether the worker has answered anything yet, i.e. it loaded
+  let started = false;
+  let nextRequestId = 0;
+  const pending = new Map<
+    number,
+    { payload: Payload<Request>; resolve: (r: Result) => void; reject: (e: Error) => void }
+  >();
+
+  const fail = (message: string) => {
+    broken = true;
+    worker?.terminate();
+    worker = null;
+    const error = new Error(message);
+    pending.forEach((request) => {
+      if (started) request.reject(error);
+      else fallback(request.payload).then(request.resolve, request.reject);
+    });
+    pending.clear();
+  };
+
+  const getWorker = () => {
+    if (!worker) {
+      worker = createWorker();
+      worker.onmessage = (e: MessageEvent<WorkerResponse<Result>>) => {
+        started = true;
+        const request = pending.get(e.data.id);
+        if (!request) return;
+        pending.delete(e.data.id);
+        if (e.data.error !== undefined) {
+          request.reject(new Error(e.data.error));
+        } else {
+          request.resolve(e.data.result);
+        }
+      };
+      worker.onerror = (e: ErrorEvent) => {
+        console.error('Worker error:', e.message);
+        e.preventDefault();
+        fail('The background worker stopped unexpectedly');
+      };
+      worker.onmessageerror = () => fail('The background worker sent a message that could not be read');
+    }
+    return worker;
+  };
+
+  return (payload) => {
+    if (broken || !supportsWorkers()) return fallback(payload);
+
+    return new Promise<Result>((resolve, reject) => {
+      const id = nextRequestId++;
+      pending.set(id, { payload, resolve, reject });
+      try {
+        getWorker().postMessage({ ...payload, id });
+      } catch (err: unknown) {
+        // Some browsers throw from the constructor instead of firing `error`
+        console.error('Worker error:', err);
+        fail('The background worker could not be started');
+      }
+    });
+  };
+}
@@ -1,143 +1,148 @@
-import { useState, useEffect } from 'react';
-import { Loader2, Plus, Edit2, Trash2, X, FolderPlus, AlertCircle } from 'lucide-react';
+import { useState, useMemo, DragEvent } from 'react';
+import {
+  Loader2,
+  Plus,
+  Edit2,
+  Trash2,
+  FolderPlus,
+  Folder,
+  AlertCircle,
+  ChevronRight,
+  ChevronDown,
+  GripVertical,
+  Merge,
+  X,
+} from 'lucide-react';
 
-// Mock axios instance for demonstration - replace with your actual import
-import axiosInstance from '../lib/axios';
 import Navigation from '../components/Navigation';
-// Interfaces
-interface Category {
-  _id: string;
-  name: string;
+import CategoryFormModal from '../components/CategoryFormModal';
+import CategoryRemovalModal from '../components/CategoryRemovalModal';
+import ResponsiveImage from '../components/ResponsiveImage';
+import { useAuth } from '../contexts/AuthContext';
+import { categoryKeys, listCategories, moveCategories } from '../api/categories';
+import { Category } from '../api/types';
+import { useQuery } from '../hooks/useQuery';
+import { getErrorMessage } from '../lib/errors';
+import { buildCategoryTree, flattenCategoryTree, placeCategory } from '../lib/categoryTree';
+
+const NO_CATEGORIES: Category[] = [];
+
+type DropPosition = 'before' | 'after' | 'inside';
+
+interface DropTarget {
+  id: string;
+  position: DropPosition;
 }
 
+// Per nesting level, in rem
+const INDENT_REM = 1.75;
+
 export default function CategoryManagement() {
-  const [categories, setCategories] = useState<Category[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState('');
-  
-  // Modal States
-  const [showModal, setShowModal] = useState(false);
-  const [modalMode, setModalMode] = useState<'create' | 'edit'>('create');
-  const [editingCategory, setEditingCategory] = useState<Category | null>(null);
-  const [categoryName, setCategoryName] = useState('');
-  const [modalLoading, setModalLoading] = useState(false);
-  const [modalError, setModalError] = useState('');
+  const { can } = useAuth();
+  const canEdit = can('categories:edit');
+  const canDelete = can('categories:delete');
+  const categoriesQuery = useQuery(categoryKeys.all, listCategories);
+  const categories = categoriesQuery.data ?? NO_CATEGORIES;
+  const loading = categoriesQuery.isLoading;
+  const [actionError, setActionError] = useState('');
+  // Only a failed fetch takes over the page; a failed move shows as a banner over the tree
+  const error = categoriesQuery.error ? getErrorMessage(categoriesQuery.error, 'Failed to fetch categories') : '';
   
-  // Delete Modal States
-  const [showDeleteModal, setShowDeleteModal] = useState(false);
-  const [categoryToDelete, setCategoryToDelete] = useState<Category | null>(null);
-  const [deleteLoading, setDeleteLoading] = useState(false);
+  // Create/Edit Modal: null category means creating, under `parent`
+  const [formTarget, setFormTarget] = useState<{ category: Category | null; parent: string | null } | null>(null);
 
-  // Fetch Categories on Mount
-  useEffect(() => {
-    fetchCategories();
-  }, []);
+  // Delete/Merge Modal
+  const [removal, setRemoval] = useState<{ category: Category; mode: 'delete' | 'merge' } | null>(null);
 
-  const fetchCategories = async () => {
-    setLoading(true);
-    setError('');
-    
-    try {
-      const res = await axiosInstance.get('/categories');
-      
-      if (res.data?.data) {
-        setCategories(res.data.data);
-      } else if (Array.isArray(res.data)) {
-        setCategories(res.data);
-      }
-    } catch (err: any) {
-      console.error('Fetch categories error:', err);
-      setError(err.response?.data?.message || 'Failed to fetch categories');
-    } finally {
-      setLoading(false);
-    }
-  };
+  // ---------------------------
+  // Tree & Drag-and-Drop
+  // ---------------------------
+  const tree = useMemo(() => buildCategoryTree(categories), [categories]);
+  const [collapsed, setCollapsed] = useState<Set<string>>(() => new Set());
+  const rows = useMemo(() => flattenCategoryTree(tree, collapsed), [tree, collapsed]);
+  // Each category's parent as shown, and its children in order
+  const structure = useMemo(() => {
+    const parentOf = new Map<string, string | null>();
+    const childrenOf = new Map<string | null, string[]>([[null, tree.map((node) => node.category._id)]]);
+    flattenCategoryTree(tree).forEach(({ category, children }) => {
+      children.forEach((child) => parentOf.set(child.category._id, category._id));
+      childrenOf.set(category._id, children.map((child) => child.category._id));
+    });
+    return { parentOf, childrenOf };
+  }, [tree]);
+  const [draggingId, setDraggingId] = useState<string | null>(null);
+  const [dropTarget, setDropTarget] = useState<DropTarget | null>(null);
 
-  // Open Create Modal
-  const openCreateModal = () => {
-    setModalMode('create');
-    setCategoryName('');
-    setEditingCategory(null);
-    setModalError('');
-    setShowModal(true);
+  const toggleCollapsed = (id: string) =>
+    setCollapsed((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+
+  // The top and bottom quarters of a row drop beside it, the middle drops into it
+  const dropPositionOf = (e: DragEvent<HTMLElement>): DropPosition => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const offset = (e.clientY - rect.top) / rect.height;
+    return offset < 0.25 ? 'before' : offset > 0.75 ? 'after' : 'inside';
   };
 
-  // Open Edit Modal
-  const openEditModal = (category: Category) => {
-    setModalMode('edit');
-    setCategoryName(category.name);
-    setEditingCategory(category);
-    setModalError('');
-    setShowModal(true);
+  const handleDragOver = (e: DragEvent<HTMLElement>, id: string) => {
+    if (!draggingId || draggingId === id) return;
+    e.preventDefault();
+    const position = dropPositionOf(e);
+    if (dropTarget?.id !== id || dropTarget.position !== position) setDropTarget({ id, position });
   };
 
-  // Close Modal
-  const closeModal = () => {
-    setShowModal(false);
-    setCategoryName('');
-    setEditingCategory(null);
-    setModalError('');
+  const endDrag = () => {
+    setDraggingId(null);
+    setDropTarget(null);
   };
 
-  // Handle Save (Create/Edit)
-  const handleSave = async () => {
-    if (!categoryName.trim()) {
-      setModalError('Category name is required');
-      return;
-    }
+  const handleDrop = async (e: DragEvent<HTMLElement>, id: string) => {
+    e.preventDefault();
+    const moving = draggingId;
+    const target: DropTarget = { id, position: dropPositionOf(e) };
+    endDrag();
+    if (!moving || moving === id) return;
 
-    setModalLoading(true);
-    setModalError('');
+    let parent: string | null;
+    let index: number;
+    if (target.position === 'inside') {
+      parent = target.id;
+      index = Infinity;
+      setCollapsed((prev) => {
+        const next = new Set(prev);
+        next.delete(target.id);
+        return next;
+      });
+    } else {
+      parent = structure.parentOf.get(target.id) ?? null;
+      const siblings = (structure.childrenOf.get(parent) ?? []).filter((id) => id !== moving);
+      index = siblings.indexOf(target.id) + (target.position === 'after' ? 1 : 0);
+    }
 
+    const placements = placeCategory(categories, moving, parent, index);
+    if (placements.length === 0) return;
+    setActionError('');
     try {
-      if (modalMode === 'create') {
-        await axiosInstance.post('/categories', { name: categoryName.trim() });
-      } else if (editingCategory) {
-        await axiosInstance.put(`/categories/${editingCategory._id}`, { 
-          name: categoryName.trim() 
-        });
-      }
-
-      await fetchCategories();
-      closeModal();
-    } catch (err: any) {
-      console.error('Save category error:', err);
-      setModalError(err.response?.data?.message || 'Failed to save category');
-    } finally {
-      setModalLoading(false);
+      await moveCategories(placements);
+    } catch (err: unknown) {
+      console.error('Move category error:', err);
+      setActionError(getErrorMessage(err, 'Failed to move category'));
     }
   };
 
-  // Open Delete Modal
-  const openDeleteModal = (category: Category) => {
-    setCategoryToDelete(category);
-    setShowDeleteModal(true);
+  // The list refreshes itself: every category write invalidates the cached copy
+  const retryFetch = () => {
+    setActionError('');
+    categoriesQuery.refetch().catch((err: unknown) => console.error('Fetch categories error:', err));
   };
 
-  // Close Delete Modal
-  const closeDeleteModal = () => {
-    setShowDeleteModal(false);
-    setCategoryToDelete(null);
-  };
+  const openCreateModal = (parent: string | null = null) => setFormTarget({ category: null, parent });
 
-  // Confirm Delete
-  const confirmDelete = async () => {
-    if (!categoryToDelete) return;
-
-    setDeleteLoading(true);
-    
-    try {
-      await axiosInstance.delete(`/categories/${categoryToDelete._id}`);
-      await fetchCategories();
-      closeDeleteModal();
-    } catch (err: any) {
-      console.error('Delete category error:', err);
-      setError(err.response?.data?.message || 'Failed to delete category');
-      closeDeleteModal();
-    } finally {
-      setDeleteLoading(false);
-    }
-  };
+  const openEditModal = (category: Category) => setFormTarget({ category, parent: category.parent });
 
   return (
     <div className="min-h-screen bg-gray-50">
@@ -151,19 +156,35 @@ export default function CategoryManagement() {
               <h1 className="text-3xl font-bold text-gray-900">Category Management</h1>
               <p className="text-gray-600 mt-1">Manage your image categories</p>
             </div>
-            <button
-              onClick={openCreateModal}
-              className="flex items-center gap-2 px-5 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors shadow-sm font-medium"
-            >
-              <Plus className="w-5 h-5" />
-              Add Category
-            </button>
+            {canEdit && (
+              <button
+                onClick={() => openCreateModal()}
+                className="flex items-center gap-2 px-5 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors shadow-sm font-medium"
+              >
+                <Plus className="w-5 h-5" />
+                Add Category
+              </button>
+            )}
           </div>
         </div>
       </div>
 
       {/* Main Content */}
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {actionError && (
+          <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg flex items-start gap-2">
+            <AlertCircle className="w-5 h-5 text-red-600 flex-shrink-0 mt-0.5" />
+            <p className="text-sm text-red-600 flex-1">{actionError}</p>
+            <button
+              onClick={() => setActionError('')}
+              className="text-red-400 hover:text-red-600"
+              title="Dismiss"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+        )}
+
         <div className="bg-white rounded-lg shadow-md">
           {loading ? (
             <div className="flex justify-center items-center py-20">
@@ -175,10 +196,7 @@ export default function CategoryManagement() {
                 <AlertCircle className="w-12 h-12 text-red-500 mx-auto mb-4" />
                 <p className="text-red-600 text-lg mb-4">{error}</p>
                 <button
-                  onClick={() => {
-                    setError('');
-                    fetchCategories();
-                  }}
+                  onClick={retryFetch}
                   className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700"
                 >
                   Retry
@@ -189,14 +207,18 @@ export default function CategoryManagement() {
             <div className="text-center py-20">
               <FolderPlus className="w-16 h-16 text-gray-300 mx-auto mb-4" />
               <p className="text-gray-500 text-lg mb-2">No categories yet</p>
-              <p className="text-gray-400 text-sm mb-6">Create your first category to get started</p>
-              <button
-                onClick={openCreateModal}
-                className="inline-flex items-center gap-2 px-5 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors font-medium"
-              >
-                <Plus className="w-5 h-5" />
-                Add Category
-              </button>
+              {canEdit && (
+                <>
+                  <p className="text-gray-400 text-sm mb-6">Create your first category to get started</p>
+                  <button
+                    onClick={() => openCreateModal()}
+                    className="inline-flex items-center gap-2 px-5 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors font-medium"
+                  >
+                    <Plus className="w-5 h-5" />
+                    Add Category
+                  </button>
+                </>
+              )}
             </div>
           ) : (
             <div className="p-6">
@@ -206,157 +228,149 @@ export default function CategoryManagement() {
                 </h2>
               </div>
 
-              <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-4">
-                {categories.map((category) => (
-                  <div
-                    key={category._id}
-                    className="group relative flex items-center justify-between p-4 bg-gradient-to-br from-gray-50 to-gray-100 rounded-lg border border-gray-200 hover:border-blue-400 hover:shadow-md transition-all"
-                  >
-                    <div className="flex items-center gap-3 flex-1 min-w-0">
-                      <div className="w-10 h-10 bg-blue-100 rounded-full flex items-center justify-center flex-shrink-0">
-                        <FolderPlus className="w-5 h-5 text-blue-600" />
-                      </div>
-                      <span className="font-medium text-gray-900 truncate">
-                        {category.name}
-                      </span>
-                    </div>
+              {canEdit && (
+                <p className="mb-3 text-sm text-gray-500">
+                  Drag a category onto another to nest it, or above or below one to reorder.
+                </p>
+              )}
+
+              <ul className="divide-y divide-gray-100 border border-gray-200 rounded-lg">
+                {rows.map(({ category, children, depth }) => {
+                  const isCollapsed = collapsed.has(category._id);
+                  const target = dropTarget?.id === category._id ? dropTarget.position : null;
+                  return (
+                    <li
+                      key={category._id}
+                      draggable={canEdit}
+                      onDragStart={(e) => {
+                        e.dataTransfer.effectAllowed = 'move';
+                        setDraggingId(category._id);
+                      }}
+                      onDragEnd={endDrag}
+                      onDragOver={(e) => handleDragOver(e, category._id)}
+                      onDragLeave={() => setDropTarget((prev) => (prev?.id === category._id ? null : prev))}
+                      onDrop={(e) => handleDrop(e, category._id)}
+                      style={{ paddingLeft: `${0.75 + depth * INDENT_REM}rem` }}
+                      className={`group flex items-center gap-3 pr-3 py-3 transition-colors ${
+                        draggingId === category._id ? 'opacity-40' : ''
+                      } ${target === 'inside' ? 'bg-blue-50 ring-2 ring-inset ring-blue-400' : 'hover:bg-gray-50'} ${
+                        target === 'before' ? 'shadow-[inset_0_2px_0_0_#3b82f6]' : ''
+                      } ${target === 'after' ? 'shadow-[inset_0_-2px_0_0_#3b82f6]' : ''}`}
+                    >
+                      {canEdit && (
+                        <GripVertical className="w-4 h-4 text-gray-300 group-hover:text-gray-500 cursor-grab flex-shrink-0" />
+                      )}
 
-                    <div className="flex items-center gap-1 ml-2">
-                      <button
-                        onClick={() => openEditModal(category)}
-                        className="p-2 text-blue-600 hover:bg-blue-50 rounded-lg transition-colors"
-                        title="Edit category"
-                      >
-                        <Edit2 className="w-4 h-4" />
-                      </button>
                       <button
-                        onClick={() => openDeleteModal(category)}
-                        className="p-2 text-red-600 hover:bg-red-50 rounded-lg transition-colors"
-                        title="Delete category"
+                        onClick={() => toggleCollapsed(category._id)}
+                        disabled={children.length === 0}
+                        className="p-1 text-gray-500 hover:text-gray-900 disabled:invisible"
+                        title={isCollapsed ? 'Expand' : 'Collapse'}
                       >
-                        <Trash2 className="w-4 h-4" />
+                        {isCollapsed ? <ChevronRight className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
                       </button>
-                    </div>
-                  </div>
-                ))}
-              </div>
+
+                      <div className="w-10 h-10 rounded-lg overflow-hidden bg-blue-100 flex items-center justify-center flex-shrink-0">
+                        {category.coverImage ? (
+                          <ResponsiveImage
+                            src={category.coverImage.imageUrl}
+                            publicId={category.coverImage.publicId}
+                            originalWidth={category.coverImage.width}
+                            alt=""
+                            sizes="40px"
+                            className="w-full h-full object-cover"
+                          />
+                        ) : (
+                          <Folder className="w-5 h-5 text-blue-600" />
+                        )}
+                      </div>
+
+                      <div className="flex-1 min-w-0">
+                        <div className="flex items-baseline gap-2">
+                          <span className="font-medium text-gray-900 truncate">{category.name}</span>
+                          <span className="text-xs font-mono text-gray-400 truncate">/{category.slug}</span>
+                          {category.imageCount !== null && (
+                            <span className="text-xs text-gray-500 flex-shrink-0">
+                              {category.imageCount} {category.imageCount === 1 ? 'image' : 'images'}
+                            </span>
+                          )}
+                          {children.length > 0 && (
+                            <span className="text-xs text-gray-500 flex-shrink-0">
+                              {children.length} sub-{children.length === 1 ? 'category' : 'categories'}
+                            </span>
+                          )}
+                        </div>
+                        {category.description && (
+                          <p className="text-sm text-gray-500 truncate">{category.description}</p>
+                        )}
+                      </div>
+
+                      <div className="flex items-center gap-1 ml-2">
+                        {canEdit && (
+                          <>
+                            <button
+                              onClick={() => openCreateModal(category._id)}
+                              className="p-2 text-gray-600 hover:bg-gray-100 rounded-lg transition-colors"
+                              title="Add sub-category"
+                            >
+                              <FolderPlus className="w-4 h-4" />
+                            </button>
+                            <button
+                              onClick={() => openEditModal(category)}
+                              className="p-2 text-blue-600 hover:bg-blue-50 rounded-lg transition-colors"
+                              title="Edit category"
+                            >
+                              <Edit2 className="w-4 h-4" />
+                            </button>
+                          </>
+                        )}
+                        {canDelete && (
+                          <>
+                            <button
+                              onClick={() => setRemoval({ category, mode: 'merge' })}
+                              disabled={categories.length < 2}
+                              className="p-2 text-gray-600 hover:bg-gray-100 rounded-lg transition-colors disabled:opacity-30 disabled:hover:bg-transparent"
+                              title="Merge into another category"
+                            >
+                              <Merge className="w-4 h-4" />
+                            </button>
+                            <button
+                              onClick={() => setRemoval({ category, mode: 'delete' })}
+                              className="p-2 text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                              title="Delete category"
+                            >
+                              <Trash2 className="w-4 h-4" />
+                            </button>
+                          </>
+                        )}
+                      </div>
+                    </li>
+                  );
+                })}
+              </ul>
             </div>
           )}
         </div>
       </div>
 
       {/* Create/Edit Modal */}
-      {showModal && (
-        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
-          <div className="bg-white rounded-lg shadow-xl max-w-md w-full p-6">
-            <div className="flex items-center justify-between mb-6">
-              <h2 className="text-xl font-bold text-gray-900">
-                {modalMode === 'create' ? 'Create New Category' : 'Edit Category'}
-              </h2>
-              <button
-                onClick={closeModal}
-                disabled={modalLoading}
-                className="p-1 text-gray-400 hover:text-gray-600 transition-colors disabled:opacity-50"
-              >
-                <X className="w-6 h-6" />
-              </button>
-            </div>
-
-            {modalError && (
-              <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg flex items-start gap-2">
-                <AlertCircle className="w-5 h-5 text-red-600 flex-shrink-0 mt-0.5" />
-                <p className="text-sm text-red-600">{modalError}</p>
-              </div>
-            )}
-
-            <div className="mb-6">
-              <label className="block text-sm font-medium text-gray-700 mb-2">
-                Category Name <span className="text-red-500">*</span>
-              </label>
-              <input
-                type="text"
-                value={categoryName}
-                onChange={(e) => setCategoryName(e.target.value)}
-                onKeyPress={(e) => e.key === 'Enter' && handleSave()}
-                placeholder="e.g., Nature, Architecture, People"
-                className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-shadow"
-                disabled={modalLoading}
-                autoFocus
-              />
-            </div>
-
-            <div className="flex gap-3 justify-end">
-              <button
-                onClick={closeModal}
-                disabled={modalLoading}
-                className="px-5 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 disabled:opacity-50 transition-colors font-medium"
-              >
-                Cancel
-              </button>
-              <button
-                onClick={handleSave}
-                disabled={modalLoading || !categoryName.trim()}
-                className="px-5 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center gap-2 font-medium"
-              >
-                {modalLoading ? (
-                  <>
-                    <Loader2 className="w-4 h-4 animate-spin" />
-                    Saving...
-                  </>
-                ) : (
-                  modalMode === 'create' ? 'Create' : 'Update'
-                )}
-              </button>
-            </div>
-          </div>
-        </div>
+      {formTarget && (
+        <CategoryFormModal
+          category={formTarget.category}
+          categories={categories}
+          defaultParent={formTarget.parent}
+          onClose={() => setFormTarget(null)}
+        />
       )}
 
-      {/* Delete Confirmation Modal */}
-      {showDeleteModal && categoryToDelete && (
-        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
-          <div className="bg-white rounded-lg shadow-xl max-w-md w-full p-6">
-            <div className="flex items-start mb-4">
-              <div className="w-12 h-12 bg-red-100 rounded-full flex items-center justify-center mr-4 flex-shrink-0">
-                <Trash2 className="w-6 h-6 text-red-600" />
-              </div>
-              <div>
-                <h2 className="text-xl font-bold text-gray-900 mb-2">Delete Category</h2>
-                <p className="text-gray-600">
-                  Are you sure you want to delete the category{' '}
-                  <strong className="text-gray-900">"{categoryToDelete.name}"</strong>?
-                </p>
-                <p className="text-sm text-red-600 mt-2">
-                  This action cannot be undone and may affect associated images.
-                </p>
-              </div>
-            </div>
-
-            <div className="flex gap-3 justify-end mt-6">
-              <button
-                onClick={closeDeleteModal}
-                disabled={deleteLoading}
-                className="px-5 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 disabled:opacity-50 transition-colors font-medium"
-              >
-                Cancel
-              </button>
-              <button
-                onClick={confirmDelete}
-                disabled={deleteLoading}
-                className="px-5 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 disabled:opacity-50 transition-colors flex items-center gap-2 font-medium"
-              >
-                {deleteLoading ? (
-                  <>
-                    <Loader2 className="w-4 h-4 animate-spin" />
-                    Deleting...
-                  </>
-                ) : (
-                  'Delete'
-                )}
-              </button>
-            </div>
-          </div>
-        </div>
+      {/* Delete/Merge Modal */}
+      {removal && (
+        <CategoryRemovalModal
+          category={removal.category}
+          mode={removal.mode}
+          categories={categories}
+          onClose={() => setRemoval(null)}
+        />
       )}
     </div>
   );
@@ -1,163 +1,355 @@
-import { useState, useEffect } from 'react';
+import { useState, useMemo } from 'react';
 import { Link } from 'react-router-dom';
 import Navigation from '../components/Navigation';
-import axiosInstance from '../lib/axios';
-import { Upload, Image as ImageIcon, Loader2, AlertCircle } from 'lucide-react';
+import BarChart from '../components/BarChart';
+import DonutChart, { DonutSlice } from '../components/DonutChart';
+import PopularImageList from '../components/PopularImageList';
+import ActivityFeed from '../components/ActivityFeed';
+import { useAuth } from '../contexts/AuthContext';
+import { StatsParams, getStats, statsKeys } from '../api/stats';
+import { StatsInterval } from '../api/types';
+import { useQuery } from '../hooks/useQuery';
+import { getErrorMessage } from '../lib/errors';
+import { saveBlob } from '../lib/download';
+import { formatBytes } from '../lib/uploadValidation';
+import { DEFAULT_GALLERY_QUERY, toGalleryParams } from '../lib/galleryFilters';
+import {
+  DEFAULT_RANGE_PRESET,
+  RANGE_PRESETS,
+  RangePresetId,
+  daysBetween,
+  defaultInterval,
+  fillUploadBuckets,
+  presetRange,
+  statsToCsv,
+} from '../lib/stats';
+import {
+  Upload,
+  Image as ImageIcon,
+  Loader2,
+  AlertCircle,
+  HardDrive,
+  Download,
+  Eye,
+  FileDown,
+} from 'lucide-react';
 
-interface Category {
-  _id: string;
-  name: string;
-}
+// Beyond this many days the daily chart has too many bars to read
+const MAX_DAILY_RANGE = 92;
+// Categories past this many are summed into "Other"
+const MAX_CATEGORY_SLICES = 7;
+const CATEGORY_COLORS = ['#2563eb', '#16a34a', '#f97316', '#9333ea', '#dc2626', '#0d9488', '#ca8a04'];
+const OTHER_COLOR = '#9ca3af';
 
-interface Image {
-  _id: string;
-  title: string;
-  category: Category;
-  imageUrl: string;
-  publicId: string;
-  createdAt?: string;
-}
+const formatDay = (date: string) =>
+  new Date(`${date}T00:00:00Z`).toLocaleDateString(undefined, { month: 'short', day: 'numeric', timeZone: 'UTC' });
+
+export default function Dashboard() {
+  const { can } = useAuth();
+  const canUpload = can('images:upload');
 
-interface ImagesApiResponse {
-  success: boolean;
-  status: number;
-  message: string;
-  data: Image[];
-  pagination?: {
-    currentPage: number;
-    totalPages: number;
-    totalRecords: number;
-    limit: number;
-    hasNextPage: boolean;
-    hasPrevPage: boolean;
-    nextPage: number | null;
-    prevPage: number | null;
+  // ---------------------------
+  // Range Selection
+  // ---------------------------
+  const [preset, setPreset] = useState<RangePresetId | 'custom'>(DEFAULT_RANGE_PRESET);
+  const [range, setRange] = useState(() => presetRange(DEFAULT_RANGE_PRESET));
+  const [interval, setStatsInterval] = useState<StatsInterval>(() => defaultInterval(range.from, range.to));
+  const dailyAllowed = daysBetween(range.from, range.to) <= MAX_DAILY_RANGE;
+
+  const applyRange = (from: string, to: string) => {
+    // Ignore half-edited or backwards custom ranges; the inputs' min/max guard the rest
+    if (!from || !to || from > to) return;
+    setRange({ from, to });
+    setStatsInterval(defaultInterval(from, to));
   };
-}
 
-export default function Dashboard() {
-  const [images, setImages] = useState<Image[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState('');
-
-  useEffect(() => {
-    fetchRecentImages();
-  }, []);
-
-  const fetchRecentImages = async () => {
-    try {
-      setLoading(true);
-      setError('');
-
-      const response = await axiosInstance.get<ImagesApiResponse>('/images');
-
-      // Your backend returns: { success, status, message, data: [ ... ], pagination }
-      const imageList = Array.isArray(response.data?.data) ? response.data.data : [];
-
-      // Take latest 6 (backend seems already sorted by createdAt desc, but this is safe)
-      setImages(imageList.slice(0, 6));
-    } catch (err: any) {
-      console.error('Error fetching images:', err);
-      setError(err?.response?.data?.message || 'Failed to fetch images');
-    } finally {
-      setLoading(false);
-    }
+  const selectPreset = (id: RangePresetId) => {
+    const next = presetRange(id);
+    setPreset(id);
+    applyRange(next.from, next.to);
   };
 
+  const params: StatsParams = useMemo(
+    () => ({ ...range, interval: interval === 'day' && !dailyAllowed ? 'week' : interval }),
+    [range, interval, dailyAllowed]
+  );
+
+  // ---------------------------
+  // Data
+  // ---------------------------
+  const statsQuery = useQuery(statsKeys.range(params), () => getStats(params));
+  const stats = statsQuery.data;
+  const error = statsQuery.error ? getErrorMessage(statsQuery.error, 'Failed to load statistics') : '';
+
+  const uploads = useMemo(() => (stats ? fillUploadBuckets(stats.uploads, params) : []), [stats, params]);
+  const periodUploads = uploads.reduce((sum, bucket) => sum + bucket.count, 0);
+  const periodBytes = uploads.reduce((sum, bucket) => sum + bucket.bytes, 0);
+
+  const categorySlices = useMemo(() => {
+    const shares = stats?.categories ?? [];
+    const slices: (DonutSlice & { id: string | null })[] = shares
+      .slice(0, MAX_CATEGORY_SLICES)
+      .map((share, index) => ({
+        id: share._id,
+        label: share.name,
+        value: share.count,
+        color: CATEGORY_COLORS[index % CATEGORY_COLORS.length],
+      }));
+    const rest = shares.slice(MAX_CATEGORY_SLICES).reduce((sum, share) => sum + share.count, 0);
+    if (rest > 0) slices.push({ id: null, label: 'Other', value: rest, color: OTHER_COLOR });
+    return slices;
+  }, [stats]);
+  const categorisedTotal = categorySlices.reduce((sum, slice) => sum + slice.value, 0);
+
+  // The gallery, narrowed to one category and the dashboard's range
+  const galleryLink = (categoryId: string) =>
+    `/images?${toGalleryParams({ ...DEFAULT_GALLERY_QUERY, categories: [categoryId], ...range })}`;
+
+  const exportCsv = () => {
+    if (!stats) return;
+    // The byte order mark makes Excel read titles as UTF-8
+    const blob = new Blob(['\ufeff', statsToCsv(stats, params)], { type: 'text/csv;charset=utf-8' });
+    saveBlob(blob, `gallery-stats-${params.from}-to-${params.to}.csv`);
+  };
+
+  const cards = stats
+    ? [
+        {
+          label: 'Total images',
+          value: stats.totalImages.toLocaleString(),
+          note: `${periodUploads.toLocaleString()} uploaded in range`,
+          icon: ImageIcon,
+          className: 'bg-blue-100 text-blue-600',
+        },
+        {
+          label: 'Storage used',
+          value: formatBytes(stats.totalBytes),
+          note: `${formatBytes(periodBytes)} added in range`,
+          icon: HardDrive,
+          className: 'bg-purple-100 text-purple-600',
+        },
+        {
+          label: 'Downloads',
+          value: stats.downloads.toLocaleString(),
+          note: 'in range',
+          icon: Download,
+          className: 'bg-green-100 text-green-600',
+        },
+        {
+          label: 'Views',
+          value: stats.views.toLocaleString(),
+          note: 'in range',
+          icon: Eye,
+          className: 'bg-amber-100 text-amber-600',
+        },
+      ]
+    : [];
+
+  const segmentClass = (active: boolean) =>
+    `px-3 py-1.5 text-sm font-medium rounded-md transition-colors disabled:opacity-40 disabled:cursor-not-allowed ${
+      active ? 'bg-white text-gray-900 shadow-sm' : 'text-gray-600 hover:text-gray-900'
+    }`;
+
   return (
     <div className="min-h-screen bg-gray-50">
       <Navigation />
 
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
-        <div className="mb-8">
-          <h1 className="text-3xl font-bold text-gray-900">Dashboard</h1>
-          <p className="text-gray-600 mt-2">Welcome to your image management system</p>
+        <div className="flex flex-col md:flex-row md:items-end md:justify-between gap-4 mb-6">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900">Dashboard</h1>
+            <p className="text-gray-600 mt-2">How your collection is growing and being used</p>
+          </div>
+          <div className="flex gap-3">
+            {canUpload && (
+              <Link
+                to="/upload"
+                className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors font-medium"
+              >
+                <Upload className="w-4 h-4" />
+                Upload
+              </Link>
+            )}
+            <Link
+              to="/images"
+              className="flex items-center gap-2 px-4 py-2 bg-white text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors font-medium"
+            >
+              <ImageIcon className="w-4 h-4" />
+              View All Images
+            </Link>
+          </div>
         </div>
 
-        <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-8">
-          <Link
-            to="/upload"
-            className="bg-white rounded-lg shadow-md p-6 hover:shadow-lg transition-shadow border-2 border-transparent hover:border-blue-500"
-          >
-            <div className="flex items-center">
-              <div className="flex-shrink-0">
-                <div className="w-12 h-12 bg-blue-100 rounded-lg flex items-center justify-center">
-                  <Upload className="w-6 h-6 text-blue-600" />
-                </div>
-              </div>
-              <div className="ml-4">
-                <h2 className="text-lg font-semibold text-gray-900">Upload New Image</h2>
-                <p className="text-sm text-gray-600">Add a new image to your collection</p>
-              </div>
+        {/* Range and export */}
+        <div className="flex flex-wrap items-center gap-3 mb-6">
+          <div className="inline-flex p-1 bg-gray-100 rounded-lg">
+            {RANGE_PRESETS.map((option) => (
+              <button
+                key={option.id}
+                onClick={() => selectPreset(option.id)}
+                className={segmentClass(preset === option.id)}
+              >
+                {option.label}
+              </button>
+            ))}
+            <button onClick={() => setPreset('custom')} className={segmentClass(preset === 'custom')}>
+              Custom
+            </button>
+          </div>
+
+          {preset === 'custom' && (
+            <div className="flex items-center gap-2 text-sm text-gray-600">
+              <label htmlFor="stats-from">From</label>
+              <input
+                id="stats-from"
+                type="date"
+                value={range.from}
+                max={range.to}
+                onChange={(e) => applyRange(e.target.value, range.to)}
+                className="px-3 py-2 text-sm border border-gray-300 rounded-lg bg-white shadow-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              />
+              <label htmlFor="stats-to">to</label>
+              <input
+                id="stats-to"
+                type="date"
+                value={range.to}
+                min={range.from}
+                onChange={(e) => applyRange(range.from, e.target.value)}
+                className="px-3 py-2 text-sm border border-gray-300 rounded-lg bg-white shadow-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              />
             </div>
-          </Link>
+          )}
 
-          <Link
-            to="/images"
-            className="bg-white rounded-lg shadow-md p-6 hover:shadow-lg transition-shadow border-2 border-transparent hover:border-green-500"
+          <button
+            onClick={exportCsv}
+            disabled={!stats}
+            className="ml-auto flex items-center gap-2 px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg shadow-sm hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
           >
-            <div className="flex items-center">
-              <div className="flex-shrink-0">
-                <div className="w-12 h-12 bg-green-100 rounded-lg flex items-center justify-center">
-                  <ImageIcon className="w-6 h-6 text-green-600" />
-                </div>
-              </div>
-              <div className="ml-4">
-                <h2 className="text-lg font-semibold text-gray-900">View All Images</h2>
-                <p className="text-sm text-gray-600">Browse your complete collection</p>
-              </div>
-            </div>
-          </Link>
+            <FileDown className="w-4 h-4" />
+            Export CSV
+          </button>
         </div>
 
-        <div className="bg-white rounded-lg shadow-md p-6">
-          <h2 className="text-xl font-bold text-gray-900 mb-6">Recent Uploads</h2>
-
-          {loading ? (
-            <div className="flex justify-center items-center py-12">
-              <Loader2 className="w-8 h-8 text-blue-600 animate-spin" />
-            </div>
-          ) : error ? (
-            <div className="flex items-center justify-center py-12">
-              <div className="text-center">
-                <AlertCircle className="w-12 h-12 text-red-500 mx-auto mb-4" />
-                <p className="text-red-600">{error}</p>
-              </div>
-            </div>
-          ) : images.length === 0 ? (
-            <div className="text-center py-12">
-              <ImageIcon className="w-16 h-16 text-gray-300 mx-auto mb-4" />
-              <p className="text-gray-500 text-lg">No images uploaded yet</p>
-              <Link
-                to="/upload"
-                className="inline-block mt-4 px-6 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+        {statsQuery.isLoading && !stats ? (
+          <div className="bg-white rounded-lg shadow-md flex justify-center items-center py-20">
+            <Loader2 className="w-8 h-8 text-blue-600 animate-spin" />
+          </div>
+        ) : error || !stats ? (
+          <div className="bg-white rounded-lg shadow-md flex items-center justify-center py-20">
+            <div className="text-center">
+              <AlertCircle className="w-12 h-12 text-red-500 mx-auto mb-4" />
+              <p className="text-red-600 text-lg mb-4">{error || 'Failed to load statistics'}</p>
+              <button
+                onClick={() => statsQuery.refetch()}
+                className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700"
               >
-                Upload Your First Image
-              </Link>
+                Retry
+              </button>
             </div>
-          ) : (
-            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6">
-              {images.map((image) => (
-                <div
-                  key={image._id}
-                  className="group relative overflow-hidden rounded-lg shadow-md hover:shadow-xl transition-shadow"
-                >
-                  <img
-                    src={image.imageUrl}
-                    alt={image.title}
-                    className="w-full h-48 object-cover group-hover:scale-105 transition-transform duration-300"
-                  />
-                  <div className="p-4 bg-white">
-                    <h3 className="font-semibold text-gray-900 truncate">{image.title}</h3>
-                    <span className="inline-block mt-2 px-3 py-1 bg-blue-100 text-blue-800 text-xs font-medium rounded-full">
-                      {image.category?.name}
-                    </span>
+          </div>
+        ) : (
+          <>
+            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-6 mb-6">
+              {cards.map((card) => (
+                <div key={card.label} className="bg-white rounded-lg shadow-md p-5 flex items-center gap-4">
+                  <div className={`w-12 h-12 rounded-lg flex items-center justify-center flex-shrink-0 ${card.className}`}>
+                    <card.icon className="w-6 h-6" />
+                  </div>
+                  <div className="min-w-0">
+                    <p className="text-sm text-gray-600">{card.label}</p>
+                    <p className="text-2xl font-bold text-gray-900">{card.value}</p>
+                    <p className="text-xs text-gray-500 truncate">{card.note}</p>
                   </div>
                 </div>
               ))}
             </div>
-          )}
-        </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 mb-6">
+              <div className="bg-white rounded-lg shadow-md p-6 lg:col-span-2">
+                <div className="flex items-center justify-between mb-4">
+                  <h2 className="text-lg font-bold text-gray-900">Uploads</h2>
+                  <div className="inline-flex p-1 bg-gray-100 rounded-lg">
+                    <button
+                      onClick={() => setStatsInterval('day')}
+                      disabled={!dailyAllowed}
+                      title={dailyAllowed ? undefined : `Daily view covers at most ${MAX_DAILY_RANGE} days`}
+                      className={segmentClass(params.interval === 'day')}
+                    >
+                      Daily
+                    </button>
+                    <button onClick={() => setStatsInterval('week')} className={segmentClass(params.interval === 'week')}>
+                      Weekly
+                    </button>
+                  </div>
+                </div>
+                <BarChart
+                  label={params.interval === 'day' ? 'Uploads per day' : 'Uploads per week'}
+                  data={uploads.map((bucket) => ({
+                    label: formatDay(bucket.date),
+                    value: bucket.count,
+                    title: `${params.interval === 'day' ? '' : 'Week of '}${formatDay(bucket.date)}: ${bucket.count} uploads (${formatBytes(bucket.bytes)})`,
+                  }))}
+                />
+              </div>
+
+              <div className="bg-white rounded-lg shadow-md p-6">
+                <h2 className="text-lg font-bold text-gray-900 mb-4">Categories</h2>
+                {categorisedTotal === 0 ? (
+                  <p className="py-8 text-center text-sm text-gray-500">No uploads in this period</p>
+                ) : (
+                  <>
+                    <div className="w-40 mx-auto mb-4">
+                      <DonutChart
+                        slices={categorySlices}
+                        label="Uploads per category"
+                        centerLabel={categorisedTotal.toLocaleString()}
+                      />
+                    </div>
+                    <ul className="space-y-1.5 text-sm">
+                      {categorySlices.map((slice, index) => (
+                        <li key={`${slice.label}-${index}`} className="flex items-center gap-2">
+                          <span className="w-3 h-3 rounded-sm flex-shrink-0" style={{ backgroundColor: slice.color }} />
+                          {slice.id ? (
+                            <Link
+                              to={galleryLink(slice.id)}
+                              className="flex-1 truncate text-gray-700 hover:text-blue-600 hover:underline"
+                            >
+                              {slice.label}
+                            </Link>
+                          ) : (
+                            <span className="flex-1 truncate text-gray-700">{slice.label}</span>
+                          )}
+                          <span className="text-gray-500 tabular-nums">
+                            {slice.value.toLocaleString()} · {Math.round((slice.value / categorisedTotal) * 100)}%
+                          </span>
+                        </li>
+                      ))}
+                    </ul>
+                  </>
+                )}
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+              <div className="bg-white rounded-lg shadow-md p-6">
+                <h2 className="text-lg font-bold text-gray-900 mb-4">Most Downloaded</h2>
+                <PopularImageList
+                  images={stats.topDownloaded}
+                  metric="downloads"
+                  emptyMessage="No downloads in this period"
+                />
+              </div>
+              <div className="bg-white rounded-lg shadow-md p-6">
+                <h2 className="text-lg font-bold text-gray-900 mb-4">Most Viewed</h2>
+                <PopularImageList images={stats.topViewed} metric="views" emptyMessage="No views in this period" />
+              </div>
+              <div className="bg-white rounded-lg shadow-md p-6">
+                <h2 className="text-lg font-bold text-gray-900 mb-4">Recent Activity</h2>
+                <ActivityFeed entries={stats.activity} />
+              </div>
+            </div>
+          </>
+        )}
       </div>
     </div>
   );
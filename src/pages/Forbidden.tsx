@@ -0,0 +1,30 @@
+import { Link } from 'react-router-dom';
+import Navigation from '../components/Navigation';
+import { ShieldAlert } from 'lucide-react';
+
+export default function Forbidden() {
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Navigation />
+
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-16">
+        <div className="bg-white rounded-lg shadow-md p-12 text-center max-w-lg mx-auto">
+          <div className="inline-flex items-center justify-center w-16 h-16 bg-red-100 rounded-full mb-4">
+            <ShieldAlert className="w-8 h-8 text-red-600" />
+          </div>
+          <p className="text-sm font-medium text-red-600">403</p>
+          <h1 className="text-2xl font-bold text-gray-900 mt-1">You don't have access to this page</h1>
+          <p className="text-gray-600 mt-2">
+            Your account's role doesn't allow this. If you need it, ask an administrator to change your role.
+          </p>
+          <Link
+            to="/dashboard"
+            className="inline-block mt-6 px-6 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+          >
+            Back to Dashboard
+          </Link>
+        </div>
+      </div>
+    </div>
+  );
+}
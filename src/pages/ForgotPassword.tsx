@@ -0,0 +1,114 @@
+import { useState, FormEvent } from 'react';
+import { Link } from 'react-router-dom';
+import { requestPasswordReset } from '../api/auth';
+import { formatCountdown, useCountdown } from '../hooks/useCountdown';
+import { getErrorMessage, isRateLimited } from '../lib/errors';
+import { KeyRound, Mail, AlertCircle, CheckCircle, ArrowLeft } from 'lucide-react';
+
+export default function ForgotPassword() {
+  const [email, setEmail] = useState('');
+  const [sent, setSent] = useState(false);
+  const [error, setError] = useState('');
+  const [loading, setLoading] = useState(false);
+  const cooldown = useCountdown();
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setLoading(true);
+
+    try {
+      await requestPasswordReset(email.trim());
+      setSent(true);
+    } catch (err: unknown) {
+      if (isRateLimited(err) && err.retryAfter) cooldown.start(err.retryAfter);
+      setError(getErrorMessage(err, 'Could not send the reset email. Please try again.'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const waiting = cooldown.remaining > 0;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-blue-100 flex items-center justify-center p-4">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-md p-8">
+        <div className="text-center mb-8">
+          <div className="inline-flex items-center justify-center w-16 h-16 bg-blue-100 rounded-full mb-4">
+            <KeyRound className="w-8 h-8 text-blue-600" />
+          </div>
+          <h1 className="text-3xl font-bold text-gray-900">Forgot Password</h1>
+          <p className="text-gray-600 mt-2">We'll email you a link to choose a new one</p>
+        </div>
+
+        {sent ? (
+          <div className="mb-6 p-4 bg-green-50 border border-green-200 rounded-lg flex items-start">
+            <CheckCircle className="w-5 h-5 text-green-600 mt-0.5 mr-3 flex-shrink-0" />
+            <p className="text-sm text-green-800">
+              If <strong>{email.trim()}</strong> has an account, a reset link is on its way. Check your inbox and spam
+              folder.
+            </p>
+          </div>
+        ) : (
+          <>
+            {error && (
+              <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg flex items-start">
+                <AlertCircle className="w-5 h-5 text-red-600 mt-0.5 mr-3 flex-shrink-0" />
+                <p className="text-sm text-red-800">
+                  {error}
+                  {waiting && (
+                    <>
+                      {' '}
+                      You can try again in{' '}
+                      <span className="font-mono font-medium">{formatCountdown(cooldown.remaining)}</span>.
+                    </>
+                  )}
+                </p>
+              </div>
+            )}
+
+            <form onSubmit={handleSubmit} className="space-y-6">
+              <div>
+                <label htmlFor="email" className="block text-sm font-medium text-gray-700 mb-2">
+                  Email Address
+                </label>
+                <div className="relative">
+                  <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                    <Mail className="h-5 w-5 text-gray-400" />
+                  </div>
+                  <input
+                    id="email"
+                    type="email"
+                    required
+                    autoComplete="username"
+                    value={email}
+                    onChange={(e) => setEmail(e.target.value)}
+                    className="block w-full pl-10 pr-3 py-2.5 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
+                    placeholder="you@example.com"
+                    autoFocus
+                  />
+                </div>
+              </div>
+
+              <button
+                type="submit"
+                disabled={loading || waiting}
+                className="w-full flex items-center justify-center px-4 py-2.5 border border-transparent rounded-lg shadow-sm text-base font-medium text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {loading ? <span>Sending...</span> : 'Send Reset Link'}
+              </button>
+            </form>
+          </>
+        )}
+
+        <Link
+          to="/login"
+          className="mt-6 flex items-center justify-center gap-1 text-sm text-gray-600 hover:text-gray-900"
+        >
+          <ArrowLeft className="w-4 h-4" />
+          Back to sign in
+        </Link>
+      </div>
+    </div>
+  );
+}
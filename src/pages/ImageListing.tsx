@@ -1,146 +1,448 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef, useMemo, useCallback } from 'react';
+import { useSearchParams, useParams, useNavigate, useLocation } from 'react-router-dom';
 import Navigation from '../components/Navigation';
-import axiosInstance from '../lib/axios';
-import { Loader2, AlertCircle, Image as ImageIcon, Trash2, ChevronLeft, ChevronRight } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import {
+  ImageListParams,
+  imageKeys,
+  listImages,
+  getImage,
+  updateImage as patchImage,
+  deleteImage,
+  recordImageEvent,
+} from '../api/images';
+import { categoryKeys, listCategories } from '../api/categories';
+import { fetchQuery, getQueryState, isQueryStale, onWindowFocus, prefetchQuery } from '../api/queryCache';
+import { Category, Image, Page, Pagination } from '../api/types';
+import { useQuery } from '../hooks/useQuery';
+import { getErrorMessage } from '../lib/errors';
+import { buildCategoryTree, flattenCategoryTree, withDescendants } from '../lib/categoryTree';
+import { Loader2, AlertCircle, Image as ImageIcon, Trash2, ChevronLeft, ChevronRight, Crop, Copy, Pencil, X, CheckSquare, Search, LayoutGrid, LayoutDashboard, List } from 'lucide-react';
+import ImageEditor from '../components/ImageEditor';
+import DuplicateFinder from '../components/DuplicateFinder';
+import ImageEditDrawer, { ImageChanges } from '../components/ImageEditDrawer';
+import BulkActionBar, { BulkBusyState } from '../components/BulkActionBar';
+import BulkResultReport from '../components/BulkResultReport';
+import Lightbox from '../components/Lightbox';
+import ColorFilter from '../components/ColorFilter';
+import PaletteSwatches from '../components/PaletteSwatches';
+import MasonryGrid from '../components/MasonryGrid';
+import ResponsiveImage from '../components/ResponsiveImage';
+import { useSelection } from '../hooks/useSelection';
+import { useScrollRestoration } from '../hooks/useScrollRestoration';
+import { BulkResult, runBulk } from '../lib/bulkActions';
+import { createZip, uniqueFileName } from '../lib/zip';
+import { fetchImageFile, saveBlob } from '../lib/download';
+import { formatBytes } from '../lib/uploadValidation';
+import { buildCloudinaryUrl, coverSizes, parseCloudinaryUrl } from '../lib/cloudinary';
+import { paletteOf } from '../lib/paletteWorker';
+import {
+  GalleryQuery,
+  SortOption,
+  ViewMode,
+  VIEW_MODES,
+  VIEW_STORAGE_KEY,
+  SORT_OPTIONS,
+  PAGE_SIZE_OPTIONS,
+  SEARCH_DEBOUNCE_MS,
+  DEFAULT_GALLERY_QUERY,
+  parseGalleryQuery,
+  toGalleryParams,
+} from '../lib/galleryFilters';
+import { Orientation, RESOLUTION_TIERS, getResolutionTier } from '../lib/wallpaperProfiles';
+import {
+  ImageEdits,
+  editsFromMetadata,
+  metadataFromEdits,
+  focalObjectPosition,
+} from '../lib/imageEdits';
 
 // ---------------------------
 // Interfaces
 // ---------------------------
-interface Image {
-  _id: string;
-  title: string;
-  category: {
-    _id: string;
-    name: string;
-  };
-  imageUrl: string;
-  publicId: string;
-  createdAt?: string;
+interface LightboxLocationState {
+  // Opened from a card, so closing can simply go back
+  backOnClose?: boolean;
 }
 
-interface Category {
-  _id: string;
-  name: string;
-}
+// Page size used when resolving "select all matching" into concrete images
+const SELECT_ALL_PAGE_SIZE = 100;
 
-interface Pagination {
-  currentPage: number;
-  totalPages: number;
-  totalRecords: number;
-  limit: number;
-  hasNextPage: boolean;
-  hasPrevPage: boolean;
-  nextPage: number | null;
-  prevPage: number | null;
-}
+const NO_CATEGORIES: Category[] = [];
+
+// Width of the copy fetched to extract a palette from
+const PALETTE_SOURCE_WIDTH = 256;
+
+// Caption height under each masonry tile; the layout needs it up front
+const MASONRY_FOOTER_HEIGHT = 88;
+
+const viewModeLabels: Record<ViewMode, { label: string; icon: typeof LayoutGrid }> = {
+  grid: { label: 'Grid', icon: LayoutGrid },
+  masonry: { label: 'Masonry', icon: LayoutDashboard },
+  table: { label: 'Table', icon: List },
+};
+
+// Widest a grid card gets at each breakpoint, for `sizes`
+const GRID_SLOTS: [string | null, number][] = [
+  ['(min-width: 1280px)', 280],
+  ['(min-width: 1024px)', 380],
+  ['(min-width: 640px)', 480],
+  [null, 640],
+];
+const MASONRY_SIZES = '(min-width: 640px) 480px, 100vw';
+
+const getAspectRatio = (image: { width?: number; height?: number }) =>
+  image.width && image.height ? image.width / image.height : 1;
+
+// Keeps the counters consistent when an image is added to or removed from
+// the current view without refetching.
+const adjustPagination = (pagination: Pagination, delta: number): Pagination => {
+  const totalRecords = Math.max(0, pagination.totalRecords + delta);
+  const totalPages = Math.max(1, Math.ceil(totalRecords / pagination.limit));
+  const hasNextPage = pagination.currentPage < totalPages;
+  return {
+    ...pagination,
+    totalRecords,
+    totalPages,
+    hasNextPage,
+    nextPage: hasNextPage ? pagination.currentPage + 1 : null,
+  };
+};
 
 export default function ImageListing() {
+  const { can } = useAuth();
+  const canEdit = can('images:edit');
+  const canDelete = can('images:delete');
   const [images, setImages] = useState<Image[]>([]);
-  const [categories, setCategories] = useState<Category[]>([]);
+  const categoriesQuery = useQuery(categoryKeys.all, listCategories);
+  // Don't surface errors for categories - they're not critical
+  const categories = categoriesQuery.data ?? NO_CATEGORIES;
+  const categoriesLoaded = categoriesQuery.data !== undefined;
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState('');
-  const [selectedCategory, setSelectedCategory] = useState<string>('All');
   const [deletingId, setDeletingId] = useState<string | null>(null);
   const [showDeleteModal, setShowDeleteModal] = useState(false);
   const [imageToDelete, setImageToDelete] = useState<Image | null>(null);
-  
-  // Pagination states
-  const [currentPage, setCurrentPage] = useState(1);
+  const [imageToEdit, setImageToEdit] = useState<Image | null>(null);
+  const [showDuplicates, setShowDuplicates] = useState(false);
+  const [imageToUpdate, setImageToUpdate] = useState<Image | null>(null);
+  const [editingTitleId, setEditingTitleId] = useState<string | null>(null);
+  const [titleDraft, setTitleDraft] = useState('');
+  const titleEditCancelled = useRef(false);
+  const [actionError, setActionError] = useState('');
+  const [selectionMode, setSelectionMode] = useState(false);
+  const [bulkBusy, setBulkBusy] = useState<BulkBusyState | null>(null);
+  const [bulkResult, setBulkResult] = useState<BulkResult<Image> | null>(null);
+  const selection = useSelection<Image>();
+  const clearSelection = selection.clear;
+  const latestRequest = useRef(0);
   const [pagination, setPagination] = useState<Pagination | null>(null);
-  const limit = 10;
+  // URL the images on screen were fetched for; gates scroll restoration
+  const [loadedFor, setLoadedFor] = useState<string | null>(null);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const loadingMoreRef = useRef(false);
+  // Infinite scroll pauses after a failed page until the user retries
+  const [loadMoreFailed, setLoadMoreFailed] = useState(false);
 
   // ---------------------------
-  // Fetch Categories on Page Load
+  // View State (kept in the URL)
   // ---------------------------
+  const [searchParams, setSearchParams] = useSearchParams();
+  const query = useMemo(() => parseGalleryQuery(searchParams), [searchParams]);
+  const {
+    categories: selectedCategories, // empty means all categories
+    tags: selectedTags,
+    color,
+    search,
+    sort,
+    from: dateFrom,
+    to: dateTo,
+    orientation,
+    minResolution,
+    pageSize,
+    page: currentPage,
+    view,
+  } = query;
+  const [searchInput, setSearchInput] = useState(search);
+  // Picking Nature also matches Mountains and everything else below it
+  const matchingCategories = useMemo(
+    () => withDescendants(categories, selectedCategories),
+    [categories, selectedCategories]
+  );
+  const categoryTree = useMemo(() => buildCategoryTree(categories), [categories]);
+
+  // Filter changes push a history entry so back/forward walks through them;
+  // corrections and search keystrokes replace the current one instead.
+  const updateQuery = useCallback(
+    (changes: Partial<GalleryQuery>, replace = false) => {
+      setSearchParams(
+        (prev) => toGalleryParams({ ...parseGalleryQuery(prev), ...changes }),
+        { replace }
+      );
+    },
+    [setSearchParams]
+  );
+
+  const setCurrentPage = (page: number, replace = false) => updateQuery({ page }, replace);
+
+  useScrollRestoration(!loading && loadedFor === searchParams.toString());
+
+  // Anything that changes which images match invalidates the selection,
+  // including back/forward navigation
+  const filterKey = toGalleryParams({ ...query, page: 1, view: 'grid' }).toString();
   useEffect(() => {
-    fetchCategories();
-  }, []);
+    clearSelection();
+  }, [filterKey, clearSelection]);
 
-  const fetchCategories = async () => {
-    try {
-      const res = await axiosInstance.get('/categories');
-      console.log('Categories Response:', res.data);
-      
-      if (res.data?.data) {
-        setCategories(res.data.data);
-      } else if (Array.isArray(res.data)) {
-        setCategories(res.data);
-      }
-    } catch (err: any) {
-      console.error('Categories error:', err);
-      // Don't set error for categories - it's not critical
+  // ---------------------------
+  // Lightbox State (/images/:id)
+  // ---------------------------
+  const { id: lightboxId } = useParams();
+  const navigate = useNavigate();
+  const location = useLocation();
+  const [lightboxImage, setLightboxImage] = useState<Image | null>(null);
+  // Which end of the next page to show once the lightbox has paged past an edge
+  const pendingLightboxEdge = useRef<'first' | 'last' | null>(null);
+
+  // A URL without a view falls back to the one picked last time
+  useEffect(() => {
+    if (searchParams.has('view')) return;
+    const stored = localStorage.getItem(VIEW_STORAGE_KEY) as ViewMode | null;
+    if (stored && stored !== view && VIEW_MODES.includes(stored)) {
+      updateQuery({ view: stored }, true);
     }
+  }, [searchParams, view, updateQuery]);
+
+  const handleViewChange = (next: ViewMode) => {
+    localStorage.setItem(VIEW_STORAGE_KEY, next);
+    updateQuery({ view: next, page: 1 });
   };
 
+  // Shared links may name categories that were since deleted
+  useEffect(() => {
+    if (!categoriesLoaded || selectedCategories.length === 0) return;
+    const known = selectedCategories.filter((id) => categories.some((cat) => cat._id === id));
+    if (known.length !== selectedCategories.length) {
+      updateQuery({ categories: known, page: 1 }, true);
+    }
+  }, [categoriesLoaded, categories, selectedCategories, updateQuery]);
+
+  // ---------------------------
+  // Debounced Search
+  // ---------------------------
+  // Back/forward can change the search under the input
+  useEffect(() => {
+    setSearchInput((input) => (input.trim() === search ? input : search));
+  }, [search]);
+
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      const term = searchInput.trim();
+      if (term !== search) {
+        updateQuery({ search: term, page: 1 }, true);
+      }
+    }, SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [searchInput, search, updateQuery]);
+
   // ---------------------------
-  // Fetch Images when category or page changes
+  // Fetch Images whenever the URL state changes
   // ---------------------------
+  // Also once categories arrive, since a category filter covers its sub-categories
   useEffect(() => {
     fetchImages();
-  }, [selectedCategory, currentPage]);
+  }, [searchParams, categoriesLoaded]);
 
-  const fetchImages = async () => {
-    setLoading(true);
-    setError('');
+  // Query parameters for the active filters, without paging
+  const buildFilterParams = (): ImageListParams => {
+    const sortDefinition = SORT_OPTIONS.find((option) => option.id === sort) ?? SORT_OPTIONS[0];
+    const tier = RESOLUTION_TIERS.find((t) => t.id === minResolution);
+    return {
+      sortBy: sortDefinition.sortBy,
+      order: sortDefinition.order,
+      category: matchingCategories,
+      tags: selectedTags,
+      color: color ? color.slice(1) : undefined,
+      search,
+      from: dateFrom,
+      to: dateTo,
+      orientation: orientation || undefined,
+      minLongEdge: tier?.longEdge,
+      minShortEdge: tier?.shortEdge,
+    };
+  };
 
-    try {
-      // Build query parameters
-      const params: Record<string, string> = {
-        page: currentPage.toString(),
-        limit: limit.toString(),
-      };
-
-      if (selectedCategory !== 'All') {
-        params.category = selectedCategory;
+  const currentListParams = (): ImageListParams => ({
+    ...buildFilterParams(),
+    page: currentPage,
+    limit: pageSize,
+  });
+
+  const showPage = ({ items: loaded, pagination: loadedPagination }: Page<Image>, fetchedFor: string) => {
+    setImages(loaded);
+
+    const edge = pendingLightboxEdge.current;
+    if (edge && loaded.length > 0) {
+      pendingLightboxEdge.current = null;
+      const target = edge === 'first' ? loaded[0] : loaded[loaded.length - 1];
+      navigate(
+        { pathname: `/images/${target._id}`, search: fetchedFor },
+        { replace: true, state: location.state }
+      );
+    }
+
+    if (loadedPagination) {
+      setPagination(loadedPagination);
+
+      // Shared links, deletes and moves can leave us past the last page
+      const { totalPages } = loadedPagination;
+      if (loaded.length === 0 && totalPages > 0 && currentPage > totalPages) {
+        setCurrentPage(totalPages, true);
       }
+    }
+    setLoadedFor(fetchedFor);
+    setLoadMoreFailed(false);
+  };
 
-      const queryString = new URLSearchParams(params).toString();
-      const url = `/images?${queryString}`;
-      
-      console.log('Fetching:', url);
-      
-      const response = await axiosInstance.get(url);
-      
-      console.log('Full Response:', response);
-      console.log('Response Data:', response.data);
-      
-      // Check if response has the expected structure
-      if (response.data && response.data.success) {
-        // Set images
-        if (Array.isArray(response.data.data)) {
-          setImages(response.data.data);
-          console.log('Images set:', response.data.data.length);
-        } else {
-          console.error('Data is not an array:', response.data.data);
-          setImages([]);
-        }
-        
-        // Set pagination
-        if (response.data.pagination) {
-          setPagination(response.data.pagination);
-          console.log('Pagination set:', response.data.pagination);
-        }
-      } else {
-        console.error('Unexpected response structure:', response.data);
-        setError('Unexpected response from server');
+  // `silent` refreshes after a write without a spinner, and without flashing
+  // the pre-write copy the cache still holds
+  const fetchImages = async (silent = false) => {
+    // Typing and filter changes can overlap requests; only the latest one may land
+    const requestId = ++latestRequest.current;
+    const fetchedFor = searchParams.toString();
+    const params = currentListParams();
+    const key = imageKeys.list(params);
+    setError('');
+
+    // Stale-while-revalidate: a page seen before shows at once while it refreshes
+    const cached = silent ? undefined : getQueryState<Page<Image>>(key).data;
+    if (cached) {
+      showPage(cached, fetchedFor);
+      setLoading(false);
+      if (!isQueryStale(key)) {
+        prefetchNextPage(params, cached.pagination);
+        return;
       }
-    } catch (err: any) {
+    } else if (!silent) {
+      setLoading(true);
+    }
+
+    try {
+      const page = await fetchQuery(key, () => listImages(params));
+      if (requestId !== latestRequest.current) return;
+      if (page !== cached) showPage(page, fetchedFor);
+      prefetchNextPage(params, page.pagination);
+    } catch (err: unknown) {
+      if (requestId !== latestRequest.current) return;
       console.error('Fetch Images Error:', err);
-      console.error('Error Response:', err.response);
-      
-      const errorMessage = err.response?.data?.message || err.message || 'Failed to fetch images';
-      setError(errorMessage);
+      // Keep showing the cached copy if there is one
+      if (!cached) setError(getErrorMessage(err, 'Failed to fetch images'));
     } finally {
-      setLoading(false);
+      if (requestId === latestRequest.current) setLoading(false);
     }
   };
 
+  // Paging forward, and masonry's infinite scroll, then come straight from the cache
+  const prefetchNextPage = (params: ImageListParams, pageInfo: Pagination | null) => {
+    if (!pageInfo?.nextPage) return;
+    const next = { ...params, page: pageInfo.nextPage };
+    prefetchQuery(imageKeys.list(next), () => listImages(next));
+  };
+
+  // Coming back to the tab refreshes the page if it has gone stale. Masonry
+  // is left alone: a refetch would drop every page appended since.
+  useEffect(
+    () =>
+      onWindowFocus(() => {
+        if (view !== 'masonry' && isQueryStale(imageKeys.list(currentListParams()))) {
+          fetchImages(true);
+        }
+      }),
+  );
+
   // ---------------------------
-  // Handle Category Change
+  // Filter, Sort & Page Size Changes
   // ---------------------------
+  // Any change to what matches starts over on page 1.
+  // 'All' shows every category; anything else toggles that category in or out
   const handleCategoryChange = (categoryId: string) => {
-    setSelectedCategory(categoryId);
-    setCurrentPage(1);
+    const next =
+      categoryId === 'All'
+        ? []
+        : selectedCategories.includes(categoryId)
+        ? selectedCategories.filter((id) => id !== categoryId)
+        : [...selectedCategories, categoryId];
+    updateQuery({ categories: next, page: 1 });
+  };
+
+  // Tag chips on cards add their tag to the filter; the active ones take it back out
+  const handleTagToggle = (tag: string) => {
+    const next = selectedTags.includes(tag) ? selectedTags.filter((t) => t !== tag) : [...selectedTags, tag];
+    updateQuery({ tags: next, page: 1 });
+  };
+
+  const handleColorChange = (value: string) => {
+    updateQuery({ color: value, page: 1 });
+  };
+
+  const handleOrientationChange = (value: Orientation | '') => {
+    updateQuery({ orientation: value, page: 1 });
+  };
+
+  const handleMinResolutionChange = (value: string) => {
+    updateQuery({ minResolution: value, page: 1 });
+  };
+
+  const handleDateChange = (from: string, to: string) => {
+    updateQuery({ from, to, page: 1 });
+  };
+
+  const handleSortChange = (value: SortOption) => {
+    updateQuery({ sort: value, page: 1 });
+  };
+
+  const handlePageSizeChange = (value: number) => {
+    updateQuery({ pageSize: value, page: 1 });
+  };
+
+  // Sort order, page size and view are preferences, not filters, so they stay
+  const clearFilters = () => {
+    setSearchInput('');
+    updateQuery({ ...DEFAULT_GALLERY_QUERY, sort, pageSize, view });
+  };
+
+  // Which kinds of filter are in play, for the empty-state message
+  const activeFilters = [
+    selectedCategories.length > 0 && 'categories',
+    selectedTags.length > 0 && 'tags',
+    search !== '' && 'search',
+    (dateFrom !== '' || dateTo !== '') && 'dates',
+    orientation !== '' && 'orientation',
+    minResolution !== '' && 'resolution',
+    color !== '' && 'color',
+  ].filter(Boolean);
+  const hasActiveFilters = activeFilters.length > 0;
+
+  const emptyMessage = () => {
+    if (!hasActiveFilters) return 'No images found';
+    if (search) {
+      return `No images match "${search}"${activeFilters.length > 1 ? ' with the current filters' : ''}`;
+    }
+    if (activeFilters.length > 1) return 'No images match these filters';
+    switch (activeFilters[0]) {
+      case 'categories':
+        return selectedCategories.length === 1
+          ? 'No images found in this category'
+          : 'No images found in these categories';
+      case 'tags':
+        return `No images are tagged ${selectedTags.map((tag) => `#${tag}`).join(' and ')}`;
+      case 'dates':
+        return 'No images were uploaded in this date range';
+      case 'color':
+        return 'No images have a colour close to this one';
+      default:
+        return 'No images match these filters';
+    }
   };
 
   // ---------------------------
@@ -156,6 +458,144 @@ export default function ImageListing() {
   const goToNextPage = () => pagination?.nextPage && handlePageChange(pagination.nextPage);
   const goToPrevPage = () => pagination?.prevPage && handlePageChange(pagination.prevPage);
 
+  // ---------------------------
+  // Infinite Scroll (masonry view)
+  // ---------------------------
+  // Appends the next page; resolves with the images it added
+  const loadMore = async (): Promise<Image[]> => {
+    const nextPage = pagination?.nextPage;
+    if (!nextPage || loadingMoreRef.current) return [];
+
+    const requestId = latestRequest.current;
+    loadingMoreRef.current = true;
+    setLoadingMore(true);
+    setLoadMoreFailed(false);
+    try {
+      const params = { ...buildFilterParams(), page: nextPage, limit: pageSize };
+      const { items: loaded, pagination: loadedPagination } = await fetchQuery(imageKeys.list(params), () =>
+        listImages(params)
+      );
+      // A filter change since started a fresh list
+      if (requestId !== latestRequest.current) return [];
+
+      // Deletes since the last page shift records back, so a page can overlap
+      const seen = new Set(images.map((img) => img._id));
+      const added = loaded.filter((img) => !seen.has(img._id));
+      setImages((prev) => {
+        const current = new Set(prev.map((img) => img._id));
+        return [...prev, ...loaded.filter((img) => !current.has(img._id))];
+      });
+      if (loadedPagination) {
+        setPagination(loadedPagination);
+        prefetchNextPage(params, loadedPagination);
+      }
+      return added;
+    } catch (err: unknown) {
+      setActionError(getErrorMessage(err, 'Failed to load more images'));
+      if (requestId === latestRequest.current) setLoadMoreFailed(true);
+      return [];
+    } finally {
+      loadingMoreRef.current = false;
+      setLoadingMore(false);
+    }
+  };
+
+  // ---------------------------
+  // Lightbox Handlers
+  // ---------------------------
+  useEffect(() => {
+    if (!lightboxId) {
+      setLightboxImage(null);
+      return;
+    }
+
+    const found = images.find((img) => img._id === lightboxId);
+    if (found) {
+      setLightboxImage(found);
+      return;
+    }
+    if (loading || pendingLightboxEdge.current) return;
+
+    // Deep links can point at an image that isn't on the current page
+    let cancelled = false;
+    fetchQuery(imageKeys.detail(lightboxId), () => getImage(lightboxId))
+      .then((image) => {
+        if (!cancelled) setLightboxImage(image);
+      })
+      .catch((err: unknown) => {
+        if (cancelled) return;
+        setActionError(getErrorMessage(err, 'That image could not be found'));
+        navigate({ pathname: '/images', search: searchParams.toString() }, { replace: true });
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [lightboxId, images, loading, navigate, searchParams]);
+
+  // Once per opened image, however it was reached
+  useEffect(() => {
+    if (lightboxId) recordImageEvent(lightboxId, 'view');
+  }, [lightboxId]);
+
+  const lightboxIndex = images.findIndex((img) => img._id === lightboxId);
+
+  const openLightbox = (image: Image) => {
+    const state: LightboxLocationState = { backOnClose: true };
+    navigate({ pathname: `/images/${image._id}`, search: searchParams.toString() }, { state });
+  };
+
+  // Browsing replaces the entry so Back leaves the lightbox in one step
+  const showInLightbox = (id: string) => {
+    navigate(
+      { pathname: `/images/${id}`, search: searchParams.toString() },
+      { replace: true, state: location.state }
+    );
+  };
+
+  const closeLightbox = () => {
+    if ((location.state as LightboxLocationState | null)?.backOnClose) {
+      navigate(-1);
+    } else {
+      navigate({ pathname: '/images', search: searchParams.toString() }, { replace: true });
+    }
+  };
+
+  // Steps within the page, or loads the neighbouring page at either edge
+  const stepLightbox = (direction: 1 | -1) => {
+    if (lightboxIndex === -1) return;
+    const neighbour = images[lightboxIndex + direction];
+    if (neighbour) {
+      showInLightbox(neighbour._id);
+      return;
+    }
+
+    if (view === 'masonry') {
+      if (direction === 1) {
+        loadMore().then((more) => more[0] && showInLightbox(more[0]._id));
+      }
+      return;
+    }
+
+    const page = direction === 1 ? pagination?.nextPage : pagination?.prevPage;
+    if (!page) return;
+    pendingLightboxEdge.current = direction === 1 ? 'first' : 'last';
+    navigate(
+      { pathname: location.pathname, search: toGalleryParams({ ...query, page }).toString() },
+      { replace: true, state: location.state }
+    );
+  };
+
+  const downloadImage = async (image: Image) => {
+    setActionError('');
+    try {
+      const { data, extension } = await fetchImageFile(image.imageUrl);
+      saveBlob(new Blob([data]), uniqueFileName(image.title, extension, new Set()));
+      recordImageEvent(image._id, 'download');
+    } catch (err: unknown) {
+      setActionError(err instanceof Error ? err.message : 'Failed to download image');
+    }
+  };
+
   // ---------------------------
   // Delete Image Handler
   // ---------------------------
@@ -169,16 +609,33 @@ export default function ImageListing() {
 
     setDeletingId(imageToDelete._id);
     try {
-      await axiosInstance.delete(`/images/${imageToDelete._id}`);
+      await deleteImage(imageToDelete._id);
+
+      // Deleting from the lightbox moves on to a neighbour; an image from
+      // another page has none here, so the lightbox just closes
+      if (lightboxId === imageToDelete._id) {
+        const neighbour = lightboxIndex === -1 ? undefined : images[lightboxIndex + 1] ?? images[lightboxIndex - 1];
+        if (neighbour) showInLightbox(neighbour._id);
+        else closeLightbox();
+      }
       
-      // Refresh the current page after deletion
-      await fetchImages();
+      // Drop the card at once; grid and table then backfill the page in the
+      // background, masonry keeps what's loaded
+      setImages((prev) => prev.filter((img) => img._id !== imageToDelete._id));
+      setPagination((prev) => prev && adjustPagination(prev, -1));
+      if (view !== 'masonry') {
+        if (images.length === 1 && currentPage > 1) {
+          setCurrentPage(currentPage - 1, true);
+        } else {
+          fetchImages(true);
+        }
+      }
       
       setShowDeleteModal(false);
       setImageToDelete(null);
-    } catch (err: any) {
+    } catch (err: unknown) {
       console.error('Delete error:', err);
-      setError(err.response?.data?.message || 'Failed to delete image');
+      setError(getErrorMessage(err, 'Failed to delete image'));
       setShowDeleteModal(false);
       setImageToDelete(null);
     } finally {
@@ -191,6 +648,223 @@ export default function ImageListing() {
     setImageToDelete(null);
   };
 
+  // ---------------------------
+  // Crop / Focal Point Handler
+  // ---------------------------
+  const saveEdits = async (edits: ImageEdits) => {
+    if (!imageToEdit) return;
+
+    const metadata = metadataFromEdits(edits);
+    try {
+      await patchImage(imageToEdit._id, metadata);
+    } catch (err: unknown) {
+      throw new Error(getErrorMessage(err, 'Failed to save edits'));
+    }
+
+    setImages((prev) =>
+      prev.map((img) => (img._id === imageToEdit._id ? { ...img, ...metadata } : img))
+    );
+    setImageToEdit(null);
+  };
+
+  // ---------------------------
+  // Metadata Update Handler (optimistic)
+  // ---------------------------
+  const updateImage = async (image: Image, changes: Partial<ImageChanges>) => {
+    const updated: Image = { ...image, ...changes, category: image.category };
+    if (changes.category !== undefined && changes.category !== image.category?._id) {
+      const category = categories.find((cat) => cat._id === changes.category);
+      if (category) updated.category = category;
+    }
+
+    // A deep-linked image from another page only lives in the lightbox
+    const index = images.findIndex((img) => img._id === image._id);
+    if (index === -1) {
+      setActionError('');
+      setLightboxImage((current) => (current?._id === image._id ? updated : current));
+      try {
+        await patchImage(image._id, changes);
+      } catch (err: unknown) {
+        setLightboxImage((current) => (current?._id === image._id ? image : current));
+        setActionError(getErrorMessage(err, `Failed to update "${image.title}"`));
+      }
+      return;
+    }
+
+    // A card whose category no longer matches the active filter leaves the view
+    const leavesView =
+      (selectedCategories.length > 0 && !matchingCategories.includes(updated.category?._id ?? '')) ||
+      selectedTags.some((tag) => !(updated.tags ?? []).includes(tag));
+
+    setActionError('');
+    if (leavesView) {
+      setImages((prev) => prev.filter((img) => img._id !== image._id));
+      setPagination((prev) => prev && adjustPagination(prev, -1));
+    } else {
+      setImages((prev) => prev.map((img) => (img._id === image._id ? updated : img)));
+    }
+
+    try {
+      await patchImage(image._id, changes);
+    } catch (err: unknown) {
+      if (leavesView) {
+        setImages((prev) => {
+          const next = [...prev];
+          next.splice(Math.min(index, next.length), 0, image);
+          return next;
+        });
+        setPagination((prev) => prev && adjustPagination(prev, 1));
+      } else {
+        setImages((prev) => prev.map((img) => (img._id === image._id ? image : img)));
+      }
+      setActionError(getErrorMessage(err, `Failed to update "${image.title}"`));
+      return;
+    }
+
+    // Masonry backfills through infinite scroll instead
+    if (leavesView && view !== 'masonry') {
+      // Backfill the gap from the next page, or step back if this page is now empty
+      if (images.length === 1 && currentPage > 1) {
+        setCurrentPage(currentPage - 1, true);
+      } else {
+        fetchImages(true);
+      }
+    }
+  };
+
+  const startTitleEdit = (image: Image) => {
+    if (!canEdit) return;
+    titleEditCancelled.current = false;
+    setEditingTitleId(image._id);
+    setTitleDraft(image.title);
+  };
+
+  const commitTitleEdit = (image: Image) => {
+    const title = titleDraft.trim();
+    setEditingTitleId(null);
+    if (titleEditCancelled.current) return;
+    if (title && title !== image.title) {
+      updateImage(image, { title });
+    }
+  };
+
+  // ---------------------------
+  // Bulk Selection & Actions
+  // ---------------------------
+  const toggleSelectionMode = () => {
+    setSelectionMode((on) => !on);
+    selection.clear();
+    setBulkResult(null);
+  };
+
+  // "All matching" may span pages that were never loaded, so fetch them all
+  const resolveSelection = async (): Promise<Image[]> => {
+    if (!selection.allMatching) {
+      return Array.from(selection.selected.values());
+    }
+
+    const matching: Image[] = [];
+    for (let page = 1; ; page++) {
+      const { items, pagination: pageInfo } = await listImages({
+        ...buildFilterParams(),
+        page,
+        limit: SELECT_ALL_PAGE_SIZE,
+      });
+      matching.push(...items);
+      if (!pageInfo?.hasNextPage) break;
+    }
+    return matching;
+  };
+
+  const runBulkAction = async (
+    label: string,
+    action: string,
+    task: (image: Image) => Promise<void>,
+    refresh = true
+  ) => {
+    setBulkResult(null);
+    setActionError('');
+    setBulkBusy({ label: 'Preparing', done: 0, total: 0 });
+
+    let targets: Image[];
+    try {
+      targets = await resolveSelection();
+    } catch (err: unknown) {
+      setActionError(getErrorMessage(err, 'Failed to load the selected images'));
+      setBulkBusy(null);
+      return null;
+    }
+
+    setBulkBusy({ label, done: 0, total: targets.length });
+    const result = await runBulk(action, targets, task, {
+      onProgress: (progress) => setBulkBusy({ label, ...progress }),
+    });
+    setBulkBusy(null);
+    setBulkResult(result);
+
+    // Keep the failures selected so they can be retried in one click
+    if (result.failed.length > 0) {
+      selection.replace(result.failed.map((failure) => failure.item));
+    } else {
+      selection.clear();
+    }
+
+    if (refresh && result.succeeded.length > 0) {
+      fetchImages(true);
+    }
+    return result;
+  };
+
+  const bulkDelete = () =>
+    runBulkAction('Deleting', 'Deleted', async (image) => {
+      await deleteImage(image._id);
+    });
+
+  const bulkMove = (categoryId: string) =>
+    runBulkAction('Moving', 'Moved', async (image) => {
+      await patchImage(image._id, { category: categoryId });
+    });
+
+  const bulkTags = (add: string[], remove: string[]) =>
+    runBulkAction('Tagging', 'Updated tags on', async (image) => {
+      const current = image.tags ?? [];
+      const tags = [...current.filter((tag) => !remove.includes(tag)), ...add.filter((tag) => !current.includes(tag))];
+      await patchImage(image._id, { tags });
+    });
+
+  // A small copy is plenty for dominant colours and much quicker to fetch.
+  // Images uploaded before palettes existed are backfilled this way.
+  const bulkPalette = () =>
+    runBulkAction('Extracting colours', 'Extracted colours for', async (image) => {
+      const asset = parseCloudinaryUrl(image.imageUrl, image.publicId);
+      const url = asset ? buildCloudinaryUrl(asset, { width: PALETTE_SOURCE_WIDTH, format: 'jpg' }) : image.imageUrl;
+      const { data } = await fetchImageFile(url);
+      const palette = await paletteOf(new Blob([data]));
+      await patchImage(image._id, { palette });
+    });
+
+  const bulkDownload = async () => {
+    const entries: { name: string; data: Uint8Array }[] = [];
+    const usedNames = new Set<string>();
+
+    const result = await runBulkAction(
+      'Downloading',
+      'Downloaded',
+      async (image) => {
+        const { data, extension } = await fetchImageFile(image.imageUrl);
+        entries.push({ name: uniqueFileName(image.title, extension, usedNames), data });
+        recordImageEvent(image._id, 'download');
+      },
+      false
+    );
+
+    if (!result || entries.length === 0) return;
+
+    saveBlob(createZip(entries), `wallpapers-${new Date().toISOString().slice(0, 10)}.zip`);
+  };
+
+  const pageSelected = images.length > 0 && images.every((image) => selection.isSelected(image._id));
+
   // ---------------------------
   // Generate Page Numbers
   // ---------------------------
@@ -228,16 +902,379 @@ export default function ImageListing() {
     return pages;
   };
 
+  // ---------------------------
+  // Image Card (grid and masonry)
+  // ---------------------------
+  const renderImageCard = (image: Image, masonry = false) => (
+    <div
+      key={image._id}
+      className={`group relative overflow-hidden rounded-lg shadow-md hover:shadow-xl transition-shadow bg-white ${
+        masonry ? 'h-full flex flex-col' : ''
+      } ${selectionMode && selection.isSelected(image._id) ? 'ring-4 ring-blue-500' : ''}`}
+    >
+      <div className={`w-full overflow-hidden relative ${masonry ? 'flex-1 min-h-0' : 'aspect-w-1 aspect-h-1'}`}>
+        <ResponsiveImage
+          src={image.imageUrl}
+          publicId={image.publicId}
+          originalWidth={image.width}
+          sizes={masonry ? MASONRY_SIZES : coverSizes(getAspectRatio(image), 256, GRID_SLOTS)}
+          alt={image.title}
+          onClick={() => openLightbox(image)}
+          className={`w-full ${masonry ? 'h-full' : 'h-64'} object-cover cursor-zoom-in group-hover:scale-110 transition-transform duration-300`}
+          style={{ objectPosition: focalObjectPosition(image.focalPoint) }}
+        />
+
+        {!!image.width && !!image.height && (
+          <span className="absolute bottom-2 left-2 px-2 py-0.5 bg-black bg-opacity-60 text-white text-xs font-medium rounded">
+            {getResolutionTier({ width: image.width, height: image.height })?.label ?? 'SD'} ·{' '}
+            {image.width}×{image.height}
+          </span>
+        )}
+
+        {selectionMode && (
+          <div
+            onClick={(e) => selection.toggle(image, images, e.shiftKey)}
+            className="absolute inset-0 cursor-pointer select-none"
+            title="Click to select, shift-click to select a range"
+          >
+            <input
+              type="checkbox"
+              checked={selection.isSelected(image._id)}
+              readOnly
+              className="absolute top-3 left-3 w-5 h-5 rounded border-gray-300 text-blue-600 pointer-events-none"
+            />
+          </div>
+        )}
+
+        {!selectionMode && (canEdit || canDelete) && (
+          <div className="absolute top-2 right-2 flex gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+            {canEdit && (
+              <>
+                <button
+                  onClick={() => setImageToUpdate(image)}
+                  className="p-2 bg-white text-gray-700 rounded-full hover:bg-gray-100 shadow"
+                  title="Edit details"
+                >
+                  <Pencil className="w-5 h-5" />
+                </button>
+
+                <button
+                  onClick={() => setImageToEdit(image)}
+                  className="p-2 bg-white text-gray-700 rounded-full hover:bg-gray-100 shadow"
+                  title="Crop and focal point"
+                >
+                  <Crop className="w-5 h-5" />
+                </button>
+              </>
+            )}
+
+            {canDelete && (
+              <button
+                onClick={() => handleDeleteClick(image)}
+                disabled={deletingId === image._id}
+                className="p-2 bg-red-600 text-white rounded-full hover:bg-red-700 disabled:bg-gray-400"
+                title="Delete image"
+              >
+                {deletingId === image._id ? (
+                  <Loader2 className="w-5 h-5 animate-spin" />
+                ) : (
+                  <Trash2 className="w-5 h-5" />
+                )}
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+
+      <div className="p-4" style={masonry ? { height: MASONRY_FOOTER_HEIGHT } : undefined}>
+        {editingTitleId === image._id ? (
+          <input
+            type="text"
+            value={titleDraft}
+            onChange={(e) => setTitleDraft(e.target.value)}
+            onBlur={() => commitTitleEdit(image)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') e.currentTarget.blur();
+              if (e.key === 'Escape') {
+                titleEditCancelled.current = true;
+                setEditingTitleId(null);
+              }
+            }}
+            className="w-full mb-2 px-2 py-1 -mx-2 font-semibold text-gray-900 border border-blue-500 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+            autoFocus
+          />
+        ) : (
+          <h3
+            onClick={() => startTitleEdit(image)}
+            className={`font-semibold text-gray-900 truncate mb-2 ${canEdit ? 'cursor-text hover:text-blue-700' : ''}`}
+            title={canEdit ? 'Click to rename' : undefined}
+          >
+            {image.title}
+          </h3>
+        )}
+
+        {!masonry && image.palette && image.palette.length > 0 && (
+          <div className="mb-2">
+            <PaletteSwatches palette={image.palette} match={color || undefined} onSelect={handleColorChange} />
+          </div>
+        )}
+
+        {!masonry && image.tags && image.tags.length > 0 && (
+          <div className="flex flex-wrap gap-1 mb-2">
+            {image.tags.map((tag) => (
+              <button
+                key={tag}
+                onClick={() => handleTagToggle(tag)}
+                className={`text-xs hover:text-blue-600 hover:underline ${
+                  selectedTags.includes(tag) ? 'text-blue-600 font-medium' : 'text-gray-500'
+                }`}
+                title={selectedTags.includes(tag) ? `Stop filtering by #${tag}` : `Show images tagged #${tag}`}
+              >
+                #{tag}
+              </button>
+            ))}
+          </div>
+        )}
+
+        <div className="flex items-center justify-between">
+          <span className="inline-block px-3 py-1 bg-blue-100 text-blue-800 text-xs font-medium rounded-full">
+            {image.category?.name ?? 'Uncategorized'}
+          </span>
+
+          {image.createdAt && (
+            <span className="text-xs text-gray-500">
+              {new Date(image.createdAt).toLocaleDateString()}
+            </span>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+
+  // ---------------------------
+  // Image Table (dense list)
+  // ---------------------------
+  const renderImageTable = () => (
+    <div className="overflow-x-auto mb-6">
+      <table className="min-w-full divide-y divide-gray-200 text-sm">
+        <thead className="bg-gray-50">
+          <tr className="text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+            {selectionMode && <th className="px-3 py-3 w-10" />}
+            <th className="px-3 py-3">Preview</th>
+            <th className="px-3 py-3">Title</th>
+            <th className="px-3 py-3">Category</th>
+            <th className="px-3 py-3">Resolution</th>
+            <th className="px-3 py-3">Colours</th>
+            <th className="px-3 py-3">Size</th>
+            <th className="px-3 py-3">Uploaded</th>
+            <th className="px-3 py-3 text-right">Actions</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-gray-100">
+          {images.map((image) => (
+            <tr
+              key={image._id}
+              className={selectionMode && selection.isSelected(image._id) ? 'bg-blue-50' : 'hover:bg-gray-50'}
+            >
+              {selectionMode && (
+                <td className="px-3 py-2">
+                  <input
+                    type="checkbox"
+                    checked={selection.isSelected(image._id)}
+                    readOnly
+                    onClick={(e) => selection.toggle(image, images, e.shiftKey)}
+                    className="w-4 h-4 rounded border-gray-300 text-blue-600"
+                  />
+                </td>
+              )}
+              <td className="px-3 py-2">
+                <ResponsiveImage
+                  src={image.imageUrl}
+                  publicId={image.publicId}
+                  originalWidth={image.width}
+                  sizes={coverSizes(getAspectRatio(image), 40, [[null, 64]])}
+                  alt={image.title}
+                  onClick={() => openLightbox(image)}
+                  className="w-16 h-10 object-cover rounded cursor-zoom-in"
+                  style={{ objectPosition: focalObjectPosition(image.focalPoint) }}
+                />
+              </td>
+              <td className="px-3 py-2 max-w-xs">
+                {editingTitleId === image._id ? (
+                  <input
+                    type="text"
+                    value={titleDraft}
+                    onChange={(e) => setTitleDraft(e.target.value)}
+                    onBlur={() => commitTitleEdit(image)}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') e.currentTarget.blur();
+                      if (e.key === 'Escape') {
+                        titleEditCancelled.current = true;
+                        setEditingTitleId(null);
+                      }
+                    }}
+                    className="w-full px-2 py-1 font-medium text-gray-900 border border-blue-500 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    autoFocus
+                  />
+                ) : (
+                  <span
+                    onClick={() => startTitleEdit(image)}
+                    className={`block truncate font-medium text-gray-900 ${canEdit ? 'cursor-text hover:text-blue-700' : ''}`}
+                    title={canEdit ? 'Click to rename' : undefined}
+                  >
+                    {image.title}
+                  </span>
+                )}
+              </td>
+              <td className="px-3 py-2 text-gray-700">{image.category?.name ?? 'Uncategorized'}</td>
+              <td className="px-3 py-2 text-gray-700 whitespace-nowrap">
+                {image.width && image.height
+                  ? `${getResolutionTier({ width: image.width, height: image.height })?.label ?? 'SD'} · ${image.width}×${image.height}`
+                  : '—'}
+              </td>
+              <td className="px-3 py-2">
+                {image.palette && image.palette.length > 0 ? (
+                  <PaletteSwatches palette={image.palette} match={color || undefined} onSelect={handleColorChange} />
+                ) : (
+                  <span className="text-gray-400">—</span>
+                )}
+              </td>
+              <td className="px-3 py-2 text-gray-700 whitespace-nowrap">
+                {image.bytes ? formatBytes(image.bytes) : '—'}
+              </td>
+              <td className="px-3 py-2 text-gray-500 whitespace-nowrap">
+                {image.createdAt ? new Date(image.createdAt).toLocaleDateString() : '—'}
+              </td>
+              <td className="px-3 py-2">
+                <div className="flex justify-end gap-1">
+                  {canEdit && (
+                    <>
+                      <button
+                        onClick={() => setImageToUpdate(image)}
+                        className="p-1.5 text-gray-500 rounded hover:bg-gray-100 hover:text-gray-700"
+                        title="Edit details"
+                      >
+                        <Pencil className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() => setImageToEdit(image)}
+                        className="p-1.5 text-gray-500 rounded hover:bg-gray-100 hover:text-gray-700"
+                        title="Crop and focal point"
+                      >
+                        <Crop className="w-4 h-4" />
+                      </button>
+                    </>
+                  )}
+                  {canDelete && (
+                    <button
+                      onClick={() => handleDeleteClick(image)}
+                      disabled={deletingId === image._id}
+                      className="p-1.5 text-red-500 rounded hover:bg-red-50 hover:text-red-700 disabled:opacity-50"
+                      title="Delete image"
+                    >
+                      {deletingId === image._id ? (
+                        <Loader2 className="w-4 h-4 animate-spin" />
+                      ) : (
+                        <Trash2 className="w-4 h-4" />
+                      )}
+                    </button>
+                  )}
+                </div>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+
   return (
     <div className="min-h-screen bg-gray-50">
       <Navigation />
 
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
-        <div className="mb-8">
-          <h1 className="text-3xl font-bold text-gray-900">Image Gallery</h1>
-          <p className="text-gray-600 mt-2">
-            Browse and filter your image collection
-          </p>
+        <div className="mb-8 flex items-start justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900">Image Gallery</h1>
+            <p className="text-gray-600 mt-2">
+              Browse and filter your image collection
+            </p>
+          </div>
+          <div className="flex gap-3">
+            <button
+              onClick={toggleSelectionMode}
+              disabled={bulkBusy !== null}
+              className={`flex items-center gap-2 px-4 py-2.5 rounded-lg shadow-sm transition-colors font-medium disabled:opacity-50 ${
+                selectionMode ? 'bg-blue-600 text-white hover:bg-blue-700' : 'bg-white text-gray-700 hover:bg-gray-100'
+              }`}
+            >
+              <CheckSquare className="w-5 h-5" />
+              {selectionMode ? 'Done' : 'Select'}
+            </button>
+            <button
+              onClick={() => setShowDuplicates(true)}
+              className="flex items-center gap-2 px-4 py-2.5 bg-white text-gray-700 rounded-lg shadow-sm hover:bg-gray-100 transition-colors font-medium"
+            >
+              <Copy className="w-5 h-5" />
+              Find duplicates
+            </button>
+          </div>
+        </div>
+
+        {/* SEARCH & SORT */}
+        <div className="mb-6 flex flex-wrap items-center gap-3">
+          <div className="relative flex-1 min-w-[16rem]">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-5 h-5 text-gray-400" />
+            <input
+              type="search"
+              value={searchInput}
+              onChange={(e) => setSearchInput(e.target.value)}
+              placeholder="Search by title or tag"
+              className="block w-full pl-10 pr-3 py-2.5 border border-gray-300 rounded-lg bg-white shadow-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            />
+          </div>
+
+          <select
+            value={sort}
+            onChange={(e) => handleSortChange(e.target.value as SortOption)}
+            className="px-3 py-2.5 text-sm border border-gray-300 rounded-lg bg-white shadow-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+          >
+            {SORT_OPTIONS.map((option) => (
+              <option key={option.id} value={option.id}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+
+          <div className="inline-flex rounded-lg bg-white shadow-sm overflow-hidden">
+            {VIEW_MODES.map((mode) => {
+              const { label, icon: Icon } = viewModeLabels[mode];
+              return (
+                <button
+                  key={mode}
+                  onClick={() => handleViewChange(mode)}
+                  className={`p-2.5 transition-colors ${
+                    view === mode ? 'bg-blue-600 text-white' : 'text-gray-700 hover:bg-gray-100'
+                  }`}
+                  title={`${label} view`}
+                >
+                  <Icon className="w-5 h-5" />
+                </button>
+              );
+            })}
+          </div>
+
+          <select
+            value={pageSize}
+            onChange={(e) => handlePageSizeChange(Number(e.target.value))}
+            className="px-3 py-2.5 text-sm border border-gray-300 rounded-lg bg-white shadow-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+          >
+            {PAGE_SIZE_OPTIONS.map((size) => (
+              <option key={size} value={size}>
+                {size} per page
+              </option>
+            ))}
+          </select>
         </div>
 
         {/* CATEGORY FILTERS */}
@@ -246,7 +1283,7 @@ export default function ImageListing() {
             <button
               onClick={() => handleCategoryChange('All')}
               className={`px-6 py-2.5 rounded-lg font-medium transition-all ${
-                selectedCategory === 'All'
+                selectedCategories.length === 0
                   ? 'bg-blue-600 text-white shadow-md'
                   : 'bg-white text-gray-700 hover:bg-gray-100 shadow-sm'
               }`}
@@ -254,12 +1291,12 @@ export default function ImageListing() {
               All
             </button>
 
-            {categories.map((cat) => (
+            {categoryTree.map(({ category: cat }) => (
               <button
                 key={cat._id}
                 onClick={() => handleCategoryChange(cat._id)}
                 className={`px-6 py-2.5 rounded-lg font-medium transition-all ${
-                  selectedCategory === cat._id
+                  selectedCategories.includes(cat._id)
                     ? 'bg-blue-600 text-white shadow-md'
                     : 'bg-white text-gray-700 hover:bg-gray-100 shadow-sm'
                 }`}
@@ -268,8 +1305,166 @@ export default function ImageListing() {
               </button>
             ))}
           </div>
+
+          {/* Sub-categories of each top-level category in play, to narrow it down */}
+          {categoryTree
+            .filter(
+              (root) =>
+                root.children.length > 0 &&
+                flattenCategoryTree([root]).some((node) => selectedCategories.includes(node.category._id))
+            )
+            .map((root) => (
+              <div key={root.category._id} className="mt-3 flex flex-wrap items-center gap-2">
+                <span className="text-sm font-medium text-gray-500 mr-1">{root.category.name}:</span>
+                {flattenCategoryTree(root.children).map(({ category: cat, depth }) => (
+                  <button
+                    key={cat._id}
+                    onClick={() => handleCategoryChange(cat._id)}
+                    className={`px-3 py-1 rounded-full text-sm font-medium transition-all ${
+                      selectedCategories.includes(cat._id)
+                        ? 'bg-blue-600 text-white shadow-md'
+                        : 'bg-white text-gray-700 hover:bg-gray-100 shadow-sm'
+                    }`}
+                  >
+                    {depth > 1 && <span className="opacity-60">{'› '.repeat(depth - 1)}</span>}
+                    {cat.name}
+                  </button>
+                ))}
+              </div>
+            ))}
+
+          {selectedTags.length > 0 && (
+            <div className="mt-3 flex flex-wrap items-center gap-2">
+              <span className="text-sm font-medium text-gray-500 mr-1">Tagged:</span>
+              {selectedTags.map((tag) => (
+                <span
+                  key={tag}
+                  className="inline-flex items-center gap-1 px-3 py-1 bg-blue-600 text-white text-sm font-medium rounded-full shadow-md"
+                >
+                  #{tag}
+                  <button
+                    onClick={() => handleTagToggle(tag)}
+                    className="text-blue-100 hover:text-white"
+                    title={`Stop filtering by #${tag}`}
+                  >
+                    <X className="w-3.5 h-3.5" />
+                  </button>
+                </span>
+              ))}
+            </div>
+          )}
+
+          <div className="mt-4 flex flex-wrap items-center gap-3">
+            <div className="inline-flex rounded-lg bg-white shadow-sm overflow-hidden">
+              {(['', 'landscape', 'portrait', 'square'] as const).map((value) => (
+                <button
+                  key={value || 'any'}
+                  onClick={() => handleOrientationChange(value)}
+                  className={`px-4 py-2 text-sm font-medium capitalize transition-colors ${
+                    orientation === value
+                      ? 'bg-blue-600 text-white'
+                      : 'text-gray-700 hover:bg-gray-100'
+                  }`}
+                >
+                  {value || 'Any orientation'}
+                </button>
+              ))}
+            </div>
+
+            <select
+              value={minResolution}
+              onChange={(e) => handleMinResolutionChange(e.target.value)}
+              className="px-3 py-2 text-sm border border-gray-300 rounded-lg bg-white shadow-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            >
+              <option value="">Any resolution</option>
+              {RESOLUTION_TIERS.map((tier) => (
+                <option key={tier.id} value={tier.id}>
+                  {tier.label} and above
+                </option>
+              ))}
+            </select>
+
+            <ColorFilter value={color} onChange={handleColorChange} />
+
+            <div className="flex items-center gap-2 text-sm text-gray-600">
+              <label htmlFor="date-from">From</label>
+              <input
+                id="date-from"
+                type="date"
+                value={dateFrom}
+                max={dateTo || undefined}
+                onChange={(e) => handleDateChange(e.target.value, dateTo)}
+                className="px-3 py-2 text-sm border border-gray-300 rounded-lg bg-white shadow-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              />
+              <label htmlFor="date-to">to</label>
+              <input
+                id="date-to"
+                type="date"
+                value={dateTo}
+                min={dateFrom || undefined}
+                onChange={(e) => handleDateChange(dateFrom, e.target.value)}
+                className="px-3 py-2 text-sm border border-gray-300 rounded-lg bg-white shadow-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              />
+            </div>
+
+            {hasActiveFilters && (
+              <button
+                onClick={clearFilters}
+                className="text-sm text-blue-600 hover:text-blue-500 hover:underline"
+              >
+                Clear filters
+              </button>
+            )}
+          </div>
         </div>
 
+        {actionError && (
+          <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg flex items-start gap-2">
+            <AlertCircle className="w-5 h-5 text-red-600 flex-shrink-0 mt-0.5" />
+            <p className="text-sm text-red-600 flex-1">{actionError}</p>
+            <button
+              onClick={() => setActionError('')}
+              className="text-red-400 hover:text-red-600"
+              title="Dismiss"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+        )}
+
+        {/* BULK ACTIONS */}
+        {selectionMode && (
+          <BulkActionBar
+            selectedCount={selection.selected.size}
+            pageCount={images.length}
+            pageSelected={pageSelected}
+            totalMatching={pagination?.totalRecords ?? images.length}
+            allMatching={selection.allMatching}
+            categories={categories}
+            busy={bulkBusy}
+            onSelectPage={() => selection.selectPage(images)}
+            onDeselectPage={() => selection.deselectPage(images)}
+            onSelectAllMatching={selection.selectAllMatching}
+            onClear={selection.clear}
+            onDelete={canDelete ? bulkDelete : undefined}
+            onMove={canEdit ? bulkMove : undefined}
+            onTags={canEdit ? bulkTags : undefined}
+            onPalette={canEdit ? bulkPalette : undefined}
+            onDownload={bulkDownload}
+          />
+        )}
+
+        {bulkResult && (
+          <BulkResultReport
+            result={bulkResult}
+            onSelectFailed={(items) => {
+              setSelectionMode(true);
+              selection.replace(items);
+            }}
+            onDismiss={() => setBulkResult(null)}
+          />
+        )}
+
         {/* IMAGES LISTING CONTAINER */}
         <div className="bg-white rounded-lg shadow-md p-6">
           {loading ? (
@@ -295,19 +1490,28 @@ export default function ImageListing() {
           ) : images.length === 0 ? (
             <div className="text-center py-20">
               <ImageIcon className="w-16 h-16 text-gray-300 mx-auto mb-4" />
-              <p className="text-gray-500 text-lg">
-                {selectedCategory === 'All'
-                  ? 'No images found'
-                  : 'No images found in this category'}
-              </p>
+              <p className="text-gray-500 text-lg">{emptyMessage()}</p>
+              {hasActiveFilters && (
+                <button
+                  onClick={clearFilters}
+                  className="mt-4 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700"
+                >
+                  Clear filters
+                </button>
+              )}
             </div>
           ) : (
             <>
               {/* PAGINATION INFO */}
-              {pagination && (
+              {pagination && view === 'masonry' && (
+                <div className="mb-4 text-sm text-gray-600">
+                  Showing {images.length} of {pagination.totalRecords} images
+                </div>
+              )}
+              {pagination && view !== 'masonry' && (
                 <div className="mb-4 flex items-center justify-between">
                   <div className="text-sm text-gray-600">
-                    Showing {((currentPage - 1) * limit) + 1} to {Math.min(currentPage * limit, pagination.totalRecords)} of {pagination.totalRecords} images
+                    Showing {((currentPage - 1) * pageSize) + 1} to {Math.min(currentPage * pageSize, pagination.totalRecords)} of {pagination.totalRecords} images
                   </div>
                   <div className="text-sm text-gray-600">
                     Page {currentPage} of {pagination.totalPages}
@@ -315,57 +1519,29 @@ export default function ImageListing() {
                 </div>
               )}
 
-              {/* IMAGES GRID */}
-              <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6 mb-6">
-                {images.map((image) => (
-                  <div
-                    key={image._id}
-                    className="group relative overflow-hidden rounded-lg shadow-md hover:shadow-xl transition-shadow bg-white"
-                  >
-                    <div className="aspect-w-1 aspect-h-1 w-full overflow-hidden relative">
-                      <img
-                        src={image.imageUrl}
-                        alt={image.title}
-                        className="w-full h-64 object-cover group-hover:scale-110 transition-transform duration-300"
-                      />
-                      
-                      <button
-                        onClick={() => handleDeleteClick(image)}
-                        disabled={deletingId === image._id}
-                        className="absolute top-2 right-2 p-2 bg-red-600 text-white rounded-full opacity-0 group-hover:opacity-100 transition-opacity hover:bg-red-700 disabled:bg-gray-400"
-                        title="Delete image"
-                      >
-                        {deletingId === image._id ? (
-                          <Loader2 className="w-5 h-5 animate-spin" />
-                        ) : (
-                          <Trash2 className="w-5 h-5" />
-                        )}
-                      </button>
-                    </div>
-
-                    <div className="p-4">
-                      <h3 className="font-semibold text-gray-900 truncate mb-2">
-                        {image.title}
-                      </h3>
-
-                      <div className="flex items-center justify-between">
-                        <span className="inline-block px-3 py-1 bg-blue-100 text-blue-800 text-xs font-medium rounded-full">
-                          {image.category?.name}
-                        </span>
-
-                        {image.createdAt && (
-                          <span className="text-xs text-gray-500">
-                            {new Date(image.createdAt).toLocaleDateString()}
-                          </span>
-                        )}
-                      </div>
-                    </div>
-                  </div>
-                ))}
-              </div>
+              {/* IMAGES */}
+              {view === 'masonry' ? (
+                <MasonryGrid
+                  items={images}
+                  getKey={(image) => image._id}
+                  getAspectRatio={getAspectRatio}
+                  renderItem={(image) => renderImageCard(image, true)}
+                  footerHeight={MASONRY_FOOTER_HEIGHT}
+                  hasMore={!!pagination?.hasNextPage}
+                  loadingMore={loadingMore}
+                  loadFailed={loadMoreFailed}
+                  onEndReached={loadMore}
+                />
+              ) : view === 'table' ? (
+                renderImageTable()
+              ) : (
+                <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6 mb-6">
+                  {images.map((image) => renderImageCard(image))}
+                </div>
+              )}
 
               {/* PAGINATION CONTROLS */}
-              {pagination && pagination.totalPages > 1 && (
+              {view !== 'masonry' && pagination && pagination.totalPages > 1 && (
                 <div className="flex items-center justify-center gap-2 mt-6">
                   <button
                     onClick={goToPrevPage}
@@ -408,6 +1584,71 @@ export default function ImageListing() {
         </div>
       </div>
 
+      {/* DUPLICATE FINDER */}
+      {showDuplicates && (
+        <DuplicateFinder
+          onClose={() => {
+            setShowDuplicates(false);
+            fetchImages(true);
+          }}
+          onDeleted={(id) => setImages((prev) => prev.filter((img) => img._id !== id))}
+        />
+      )}
+
+      {/* LIGHTBOX */}
+      {lightboxId && lightboxImage && (
+        <Lightbox
+          image={lightboxImage}
+          position={
+            lightboxIndex !== -1 && pagination
+              ? { index: (currentPage - 1) * pageSize + lightboxIndex + 1, total: pagination.totalRecords }
+              : undefined
+          }
+          hasPrev={
+            lightboxIndex > 0 ||
+            (lightboxIndex === 0 && view !== 'masonry' && !!pagination?.hasPrevPage)
+          }
+          hasNext={
+            lightboxIndex !== -1 &&
+            (lightboxIndex < images.length - 1 || !!pagination?.hasNextPage)
+          }
+          loadingNeighbour={loading}
+          keyboardEnabled={!imageToUpdate && !showDeleteModal}
+          onPrev={() => stepLightbox(-1)}
+          onNext={() => stepLightbox(1)}
+          onClose={closeLightbox}
+          onDownload={() => downloadImage(lightboxImage)}
+          onEdit={canEdit ? () => setImageToUpdate(lightboxImage) : undefined}
+          onDelete={canDelete ? () => handleDeleteClick(lightboxImage) : undefined}
+          error={actionError}
+          onDismissError={() => setActionError('')}
+        />
+      )}
+
+      {/* METADATA EDIT DRAWER */}
+      {imageToUpdate && (
+        <ImageEditDrawer
+          image={imageToUpdate}
+          categories={categories}
+          onSave={(changes) => {
+            updateImage(imageToUpdate, changes);
+            setImageToUpdate(null);
+          }}
+          onClose={() => setImageToUpdate(null)}
+        />
+      )}
+
+      {/* CROP / FOCAL POINT EDITOR */}
+      {imageToEdit && (
+        <ImageEditor
+          src={imageToEdit.imageUrl}
+          title={imageToEdit.title}
+          initialEdits={editsFromMetadata(imageToEdit)}
+          onSave={saveEdits}
+          onClose={() => setImageToEdit(null)}
+        />
+      )}
+
       {/* DELETE CONFIRMATION MODAL */}
       {showDeleteModal && imageToDelete && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
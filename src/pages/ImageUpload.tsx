@@ -1,228 +1,379 @@
-import { useState, FormEvent, ChangeEvent, useEffect } from 'react';
+import { useState, useEffect, useCallback, useMemo } from 'react';
 import { useNavigate } from 'react-router-dom';
 import Navigation from '../components/Navigation';
-import axiosInstance from '../lib/axios';
-import { Upload, Image as ImageIcon, CheckCircle, AlertCircle } from 'lucide-react';
+import UploadDropZone from '../components/UploadDropZone';
+import UploadQueueItem from '../components/UploadQueueItem';
+import UploadProcessingSettings from '../components/UploadProcessingSettings';
+import UploadResolutionSettings from '../components/UploadResolutionSettings';
+import ImageEditor from '../components/ImageEditor';
+import CategoryOptions from '../components/CategoryOptions';
+import { DuplicateCandidate } from '../components/DuplicateWarning';
+import { uploadImage, listImageHashes, imageKeys } from '../api/images';
+import { categoryKeys, listCategories } from '../api/categories';
+import { fetchQuery } from '../api/queryCache';
+import { Category } from '../api/types';
+import { useQuery } from '../hooks/useQuery';
+import { getErrorMessage } from '../lib/errors';
+import { DEFAULT_PROCESSING_OPTIONS, ProcessingOptions } from '../lib/imageProcessing';
+import { EditMode, ImageEdits, appendEditFields } from '../lib/imageEdits';
+import { DuplicateMatch, HashedImage, findDuplicates } from '../lib/imageHashing';
+import {
+  DEFAULT_RESOLUTION_RULES,
+  ResolutionRules,
+  checkResolution,
+  classifyWallpaper,
+} from '../lib/wallpaperProfiles';
+import { useUploadQueue, isItemReady, UploadItem, UploadControls } from '../hooks/useUploadQueue';
+import { Upload, CheckCircle, AlertCircle, Layers, Trash2, Ban } from 'lucide-react';
 
+const MAX_CONCURRENT_UPLOADS = 3;
+const NO_CATEGORIES: Category[] = [];
 
 export default function ImageUpload() {
-  const [title, setTitle] = useState('');
-  const [category, setCategory] = useState('');
-  const [image, setImage] = useState<File | null>(null);
-  const [preview, setPreview] = useState<string>('');
-  const [loading, setLoading] = useState(false);
   const [error, setError] = useState('');
-  const [success, setSuccess] = useState(false);
+  const [bulkCategory, setBulkCategory] = useState('');
+  const [hasStarted, setHasStarted] = useState(false);
+  const categoriesQuery = useQuery(categoryKeys.all, listCategories);
+  const categories = categoriesQuery.data ?? NO_CATEGORIES;
+  const [processingEnabled, setProcessingEnabled] = useState(false);
+  const [processingOptions, setProcessingOptions] = useState<ProcessingOptions>(DEFAULT_PROCESSING_OPTIONS);
+  const [resolutionRules, setResolutionRules] = useState<ResolutionRules>(DEFAULT_RESOLUTION_RULES);
+  const [existingHashes, setExistingHashes] = useState<HashedImage[]>([]);
+  const [editing, setEditing] = useState<{ item: UploadItem; src: string } | null>(null);
   const navigate = useNavigate();
-  const [categories, setCategories] = useState([]);
-
-
-  const handleImageChange = (e: ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (file) {
-      if (file.size > 10 * 1024 * 1024) {
-        setError('File size must be less than 10MB');
-        return;
-      }
-      setImage(file);
-      const reader = new FileReader();
-      reader.onloadend = () => {
-        setPreview(reader.result as string);
-      };
-      reader.readAsDataURL(file);
-      setError('');
+
+  const uploadItem = useCallback(async (item: UploadItem, controls: UploadControls) => {
+    const formData = new FormData();
+    formData.append('title', item.title.trim());
+    formData.append('category', item.category);
+    if (item.tags.length > 0) formData.append('tags', item.tags.join(','));
+    if (item.palette && item.palette.length > 0) formData.append('palette', JSON.stringify(item.palette));
+    formData.append('image', item.file);
+
+    if (item.hashes) {
+      formData.append('contentHash', item.hashes.contentHash);
+      formData.append('perceptualHash', item.hashes.perceptualHash);
     }
-  };
 
-  const handleSubmit = async (e: FormEvent) => {
-    e.preventDefault();
+    if (item.duplicateResolution?.action === 'replace') {
+      formData.append('replaceImageId', item.duplicateResolution.imageId);
+    }
 
-    if (!image) {
-      setError('Please select an image');
-      return;
+    if (item.edits) {
+      appendEditFields(formData, item.edits, item.editMode);
     }
 
-    setLoading(true);
-    setError('');
-    setSuccess(false);
+    if (item.dimensions) {
+      const classification = classifyWallpaper(item.dimensions);
+      formData.append('width', String(item.dimensions.width));
+      formData.append('height', String(item.dimensions.height));
+      formData.append('orientation', classification.orientation);
+      formData.append('aspectRatio', classification.aspectRatio);
+      formData.append('deviceTargets', classification.profiles.map((p) => p.id).join(','));
+    }
 
-    const formData = new FormData();
-    formData.append('title', title);
-    formData.append('category', category);
-    formData.append('image', image);
-
-    try {
-      await axiosInstance.post('/images/upload', formData, {
-        headers: {
-          'Content-Type': 'multipart/form-data',
-        },
+    await uploadImage(formData, controls);
+  }, []);
+
+  const {
+    items,
+    counts,
+    addFiles,
+    processItem,
+    applyEdits,
+    restoreOriginal,
+    updateItem,
+    removeItem,
+    applyCategoryToAll,
+    startAll,
+    retry,
+    cancel,
+    cancelAll,
+    clear,
+  } = useUploadQueue({
+    concurrency: MAX_CONCURRENT_UPLOADS,
+    upload: uploadItem,
+  });
+
+  // Likely duplicates per queue item: existing gallery images plus files
+  // earlier in this same batch.
+  const duplicatesById = useMemo(() => {
+    const result = new Map<string, DuplicateMatch<DuplicateCandidate>[]>();
+    const earlier: DuplicateCandidate[] = [];
+
+    items.forEach((item) => {
+      if (!item.hashes) return;
+      const matches = findDuplicates<DuplicateCandidate>(item.hashes, [...existingHashes, ...earlier]);
+      if (matches.length > 0) result.set(item.id, matches);
+      earlier.push({
+        _id: item.id,
+        title: item.title || item.file.name,
+        imageUrl: item.preview,
+        ...item.hashes,
+        fromQueue: true,
       });
+    });
+
+    return result;
+  }, [items, existingHashes]);
 
-      setSuccess(true);
-      setTitle('');
-      setCategory('');
-      setImage(null);
-      setPreview('');
-
-      setTimeout(() => {
-        navigate('/dashboard');
-      }, 2000);
-    } catch (err: any) {
-      setError(
-        err.response?.data?.message ||
-        'Failed to upload image. Please try again.'
-      );
-    } finally {
-      setLoading(false);
+  const isBlocked = useCallback(
+    (item: UploadItem) =>
+      (item.dimensions !== null && checkResolution(item.dimensions, resolutionRules).level === 'block') ||
+      (duplicatesById.has(item.id) && !item.duplicateResolution),
+    [resolutionRules, duplicatesById]
+  );
+
+  const readyCount = items.filter(
+    (item) => item.status === 'pending' && isItemReady(item) && !isBlocked(item)
+  ).length;
+  const isFinished = hasStarted && counts.active === 0;
+
+  const editableItems = items.filter((item) => item.status === 'pending');
+
+  const handleFiles = (files: File[]) => {
+    const added = addFiles(files);
+    if (processingEnabled) {
+      added.forEach((item) => processItem(item, processingOptions, true));
     }
   };
 
-  useEffect(() => {
-    fetchCategories();
-  }, []);
+  const handleProcessingToggle = (enabled: boolean) => {
+    setProcessingEnabled(enabled);
+    if (enabled) {
+      editableItems.forEach((item) => processItem(item, processingOptions, true));
+    } else {
+      editableItems.forEach((item) => restoreOriginal(item.id));
+    }
+  };
+
+  const openEditor = (item: UploadItem) => {
+    setEditing({ item, src: URL.createObjectURL(item.sourceFile) });
+  };
+
+  const closeEditor = () => {
+    if (editing) URL.revokeObjectURL(editing.src);
+    setEditing(null);
+  };
+
+  const handleSaveEdits = async (edits: ImageEdits, mode: EditMode) => {
+    if (!editing) return;
+    const updated = await applyEdits(editing.item, edits, mode);
+    if (processingEnabled) {
+      processItem(updated, processingOptions, true);
+    }
+    closeEditor();
+  };
 
-  const fetchCategories = async () => {
-    try {
-      const res = await axiosInstance.get('/categories');
-      setCategories(res.data.data); // backend returns { data: [...] }
-    } catch (err) {
-      console.error(err);
-      setError("Failed to load categories");
+  const handleStart = () => {
+    if (readyCount === 0) {
+      setError('Add at least one valid image with a title that meets the minimum resolution');
+      return;
     }
+    setError('');
+    setHasStarted(true);
+    startAll((item) => !isBlocked(item));
+  };
+
+  const handleReset = () => {
+    clear();
+    setHasStarted(false);
+    setBulkCategory('');
+    setError('');
   };
 
+  // Read once rather than watched: each finished upload invalidates the
+  // fingerprints, and a refetch would flag it as a duplicate of itself
+  useEffect(() => {
+    fetchQuery(imageKeys.hashes, listImageHashes)
+      .then(setExistingHashes)
+      .catch((err: unknown) => {
+        // Duplicate detection is a nice-to-have; uploads still work without it
+        console.error('Image hashes error:', err);
+      });
+  }, []);
+
+  const shownError =
+    error || (categoriesQuery.error ? getErrorMessage(categoriesQuery.error, 'Failed to load categories') : '');
+
   return (
     <div className="min-h-screen bg-gray-50">
       <Navigation />
 
-      <div className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
         <div className="mb-8">
-          <h1 className="text-3xl font-bold text-gray-900">Upload Image</h1>
-          <p className="text-gray-600 mt-2">Add a new image to your collection</p>
+          <h1 className="text-3xl font-bold text-gray-900">Upload Images</h1>
+          <p className="text-gray-600 mt-2">Add one or more images to your collection</p>
         </div>
 
-        <div className="bg-white rounded-lg shadow-md p-6">
-          {success && (
-            <div className="mb-6 p-4 bg-green-50 border border-green-200 rounded-lg flex items-center">
-              <CheckCircle className="w-5 h-5 text-green-600 mr-3 flex-shrink-0" />
-              <p className="text-sm text-green-800">Image uploaded successfully! Redirecting...</p>
+        <div className="bg-white rounded-lg shadow-md p-6 space-y-6">
+          {isFinished && (
+            <div
+              className={`p-4 border rounded-lg flex items-start ${
+                counts.error > 0
+                  ? 'bg-yellow-50 border-yellow-200'
+                  : 'bg-green-50 border-green-200'
+              }`}
+            >
+              <CheckCircle
+                className={`w-5 h-5 mt-0.5 mr-3 flex-shrink-0 ${
+                  counts.error > 0 ? 'text-yellow-600' : 'text-green-600'
+                }`}
+              />
+              <div className="flex-1">
+                <p className="text-sm font-medium text-gray-900">
+                  {counts.success} of {counts.total} image{counts.total === 1 ? '' : 's'} uploaded
+                </p>
+                <p className="text-sm text-gray-600 mt-1">
+                  {counts.error} failed · {counts.cancelled} cancelled · {counts.pending} not uploaded
+                </p>
+                <div className="flex gap-3 mt-3">
+                  <button
+                    type="button"
+                    onClick={() => navigate('/images')}
+                    className="px-4 py-2 bg-blue-600 text-white text-sm rounded-lg hover:bg-blue-700 transition-colors"
+                  >
+                    View Gallery
+                  </button>
+                  <button
+                    type="button"
+                    onClick={handleReset}
+                    className="px-4 py-2 bg-white border border-gray-300 text-gray-700 text-sm rounded-lg hover:bg-gray-50 transition-colors"
+                  >
+                    Upload More
+                  </button>
+                </div>
+              </div>
             </div>
           )}
 
-          {error && (
-            <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg flex items-start">
+          {shownError && (
+            <div className="p-4 bg-red-50 border border-red-200 rounded-lg flex items-start">
               <AlertCircle className="w-5 h-5 text-red-600 mt-0.5 mr-3 flex-shrink-0" />
-              <p className="text-sm text-red-800">{error}</p>
+              <p className="text-sm text-red-800">{shownError}</p>
             </div>
           )}
 
-          <form onSubmit={handleSubmit} className="space-y-6">
-            <div>
-              <label htmlFor="title" className="block text-sm font-medium text-gray-700 mb-2">
-                Image Title
-              </label>
-              <input
-                id="title"
-                type="text"
-                required
-                value={title}
-                onChange={(e) => setTitle(e.target.value)}
-                className="block w-full px-3 py-2.5 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
-                placeholder="Enter image title"
-              />
-            </div>
+          <UploadDropZone onFiles={handleFiles} />
+
+          <UploadProcessingSettings
+            enabled={processingEnabled}
+            options={processingOptions}
+            onToggle={handleProcessingToggle}
+            onChange={setProcessingOptions}
+            onApply={() => editableItems.forEach((item) => processItem(item, processingOptions, true))}
+            canApply={editableItems.length > 0}
+          />
+
+          <UploadResolutionSettings rules={resolutionRules} onChange={setResolutionRules} />
 
-            <div>
-              <label htmlFor="category" className="block text-sm font-medium text-gray-700 mb-2">
-                Category
-              </label>
-              <select
-                id="category"
-                value={category}
-                onChange={(e) => setCategory(e.target.value)}
-                className="block w-full px-3 py-2.5 border border-gray-300 rounded-lg 
-             focus:ring-2 focus:ring-blue-500 focus:border-blue-500 bg-white"
-              >
-                <option value="">Select Category</option>
-
-                {categories.length > 0 ? (
-                  categories.map((cat: any) => (
-                    <option key={cat._id} value={cat._id}>
-                      {cat.name}
-                    </option>
-                  ))
+          {items.length > 0 && (
+            <>
+              {/* BULK ACTIONS */}
+              <div className="flex flex-col sm:flex-row sm:items-center gap-3 p-4 bg-gray-50 rounded-lg">
+                <div className="flex items-center gap-2 flex-1">
+                  <Layers className="w-5 h-5 text-gray-500 flex-shrink-0" />
+                  <select
+                    value={bulkCategory}
+                    onChange={(e) => setBulkCategory(e.target.value)}
+                    className="flex-1 px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 bg-white"
+                  >
+                    <option value="">Select Category</option>
+                    <CategoryOptions categories={categories} />
+                  </select>
+                  <button
+                    type="button"
+                    onClick={() => applyCategoryToAll(bulkCategory)}
+                    disabled={!bulkCategory}
+                    className="px-4 py-2 text-sm font-medium text-blue-700 bg-blue-100 rounded-lg hover:bg-blue-200 disabled:opacity-50 disabled:cursor-not-allowed transition-colors whitespace-nowrap"
+                  >
+                    Apply to all
+                  </button>
+                </div>
+                {counts.active > 0 ? (
+                  <button
+                    type="button"
+                    onClick={cancelAll}
+                    className="inline-flex items-center justify-center gap-2 px-4 py-2 text-sm font-medium text-orange-700 bg-white border border-orange-300 rounded-lg hover:bg-orange-50 transition-colors"
+                  >
+                    <Ban className="w-4 h-4" />
+                    Cancel uploads
+                  </button>
                 ) : (
-                  <option disabled>Loading...</option>
+                  <button
+                    type="button"
+                    onClick={handleReset}
+                    className="inline-flex items-center justify-center gap-2 px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                    Clear queue
+                  </button>
                 )}
-              </select>
-
-            </div>
+              </div>
 
-            <div>
-              <label className="block text-sm font-medium text-gray-700 mb-2">
-                Select Image
-              </label>
-              <div className="mt-2">
-                <label
-                  htmlFor="image"
-                  className="flex justify-center px-6 py-8 border-2 border-gray-300 border-dashed rounded-lg cursor-pointer hover:border-blue-400 transition-colors bg-gray-50 hover:bg-gray-100"
-                >
-                  <div className="text-center">
-                    {preview ? (
-                      <img
-                        src={preview}
-                        alt="Preview"
-                        className="mx-auto h-48 w-auto rounded-lg mb-4"
-                      />
-                    ) : (
-                      <ImageIcon className="mx-auto h-12 w-12 text-gray-400 mb-4" />
-                    )}
-                    <div className="flex text-sm text-gray-600">
-                      <span className="relative font-medium text-blue-600 hover:text-blue-500">
-                        {preview ? 'Change image' : 'Upload a file'}
-                      </span>
-                      <p className="pl-1">or drag and drop</p>
-                    </div>
-                    <p className="text-xs text-gray-500 mt-1">PNG, JPG, GIF up to 10MB</p>
-                  </div>
-                  <input
-                    id="image"
-                    type="file"
-                    accept="image/*"
-                    onChange={handleImageChange}
-                    className="sr-only"
-                    required
+              {/* QUEUE */}
+              <div className="space-y-3">
+                {items.map((item) => (
+                  <UploadQueueItem
+                    key={item.id}
+                    item={item}
+                    duplicates={duplicatesById.get(item.id) ?? []}
+                    resolutionCheck={
+                      item.dimensions ? checkResolution(item.dimensions, resolutionRules) : null
+                    }
+                    categories={categories}
+                    onChange={updateItem}
+                    retryBlocked={isBlocked(item)}
+                    onRetry={(id) => retry(id, (current) => !isBlocked(current))}
+                    onCancel={cancel}
+                    onRemove={removeItem}
+                    onCompress={(item) => processItem(item, processingOptions, true)}
+                    onRestore={restoreOriginal}
+                    onEdit={openEditor}
                   />
-                </label>
+                ))}
               </div>
-            </div>
+            </>
+          )}
 
-            <div className="flex items-center space-x-4">
-              <button
-                type="submit"
-                disabled={loading || !image}
-                className="flex-1 flex items-center justify-center px-6 py-3 border border-transparent rounded-lg shadow-sm text-base font-medium text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
-              >
-                {loading ? (
-                  <span>Uploading...</span>
-                ) : (
-                  <>
-                    <Upload className="w-5 h-5 mr-2" />
-                    Upload Image
-                  </>
-                )}
-              </button>
-              <button
-                type="button"
-                onClick={() => navigate('/dashboard')}
-                className="px-6 py-3 border border-gray-300 rounded-lg shadow-sm text-base font-medium text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 transition-colors"
-              >
-                Cancel
-              </button>
-            </div>
-          </form>
+          <div className="flex items-center space-x-4">
+            <button
+              type="button"
+              onClick={handleStart}
+              disabled={readyCount === 0}
+              className="flex-1 flex items-center justify-center px-6 py-3 border border-transparent rounded-lg shadow-sm text-base font-medium text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {counts.active > 0 ? (
+                <span>Uploading {counts.active} image{counts.active === 1 ? '' : 's'}...</span>
+              ) : (
+                <>
+                  <Upload className="w-5 h-5 mr-2" />
+                  Upload {readyCount > 0 ? `${readyCount} ` : ''}Image{readyCount === 1 ? '' : 's'}
+                </>
+              )}
+            </button>
+            <button
+              type="button"
+              onClick={() => navigate('/dashboard')}
+              className="px-6 py-3 border border-gray-300 rounded-lg shadow-sm text-base font-medium text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 transition-colors"
+            >
+              Cancel
+            </button>
+          </div>
         </div>
       </div>
+
+      {editing && (
+        <ImageEditor
+          src={editing.src}
+          title={editing.item.title || editing.item.file.name}
+          initialEdits={editing.item.edits}
+          initialMode={editing.item.editMode}
+          allowBake
+          onSave={handleSaveEdits}
+          onClose={closeEditor}
+        />
+      )}
     </div>
   );
 }
@@ -1,16 +1,48 @@
 import { useState, FormEvent } from 'react';
-import { useNavigate } from 'react-router-dom';
+import { Link, Navigate, useLocation } from 'react-router-dom';
 import { useAuth } from '../contexts/AuthContext';
-import axiosInstance from '../lib/axios';
-import { LogIn, Mail, Lock, AlertCircle } from 'lucide-react';
+import { LoginRedirectState } from '../components/ProtectedRoute';
+import PasswordInput from '../components/PasswordInput';
+import { AuthTokens, login as requestLogin, verifyMfa } from '../api/auth';
+import { formatCountdown, useCountdown } from '../hooks/useCountdown';
+import { getErrorMessage, isRateLimited } from '../lib/errors';
+import { LogIn, Mail, AlertCircle, Clock, CheckCircle, ShieldCheck } from 'lucide-react';
 
 export default function Login() {
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
+  const [remember, setRemember] = useState(false);
+  // Set once the password is accepted and a second factor is needed
+  const [mfaToken, setMfaToken] = useState<string | null>(null);
+  const [code, setCode] = useState('');
   const [error, setError] = useState('');
   const [loading, setLoading] = useState(false);
-  const navigate = useNavigate();
-  const { login } = useAuth();
+  const cooldown = useCountdown();
+  const location = useLocation();
+  const { isAuthenticated, login } = useAuth();
+  const { from, reason, passwordReset } = (location.state as LoginRedirectState | null) ?? {};
+
+  // Back to wherever the session ran out, if anywhere
+  const destination =
+    from && from.pathname !== '/login'
+      ? { pathname: from.pathname, search: from.search, hash: from.hash }
+      : '/dashboard';
+
+  // Covers signing in here and in another tab alike
+  if (isAuthenticated) {
+    return <Navigate to={destination} replace />;
+  }
+
+  const showError = (err: unknown, fallback: string) => {
+    if (isRateLimited(err)) {
+      if (err.retryAfter) cooldown.start(err.retryAfter);
+      setError(err.fromServer ? err.message : 'Too many sign-in attempts.');
+      return;
+    }
+    setError(getErrorMessage(err, fallback));
+  };
+
+  const finish = ({ token, refreshToken }: AuthTokens) => login(token, refreshToken, remember);
 
   const handleSubmit = async (e: FormEvent) => {
     e.preventDefault();
@@ -18,103 +50,184 @@ export default function Login() {
     setLoading(true);
 
     try {
-      const response = await axiosInstance.post('/auth/login', {
-        email,
-        password,
-      });
-
-      const token = response.data.access_token || response.data.token;
-
-      if (token) {
-        login(token);
-        navigate('/dashboard');
+      const result = await requestLogin({ email, password, rememberMe: remember });
+      if (result.mfaRequired) {
+        setMfaToken(result.mfaToken);
+        setCode('');
       } else {
-        setError('Invalid response from server');
+        finish(result);
       }
-    } catch (err: any) {
-      setError(
-        err.response?.data?.message ||
-        'Login failed. Please check your credentials.'
-      );
+    } catch (err: unknown) {
+      showError(err, 'Login failed. Please check your credentials.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleVerify = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!mfaToken) return;
+    setError('');
+    setLoading(true);
+
+    try {
+      finish(await verifyMfa(mfaToken, code.replace(/\s/g, '')));
+    } catch (err: unknown) {
+      showError(err, "That code didn't work. Check your authenticator app and try again.");
     } finally {
       setLoading(false);
     }
   };
 
+  const backToPassword = () => {
+    setMfaToken(null);
+    setCode('');
+    setPassword('');
+    setError('');
+  };
+
+  const waiting = cooldown.remaining > 0;
+  const submitClass =
+    'w-full flex items-center justify-center px-4 py-2.5 border border-transparent rounded-lg shadow-sm text-base font-medium text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 transition-colors disabled:opacity-50 disabled:cursor-not-allowed';
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-blue-50 to-blue-100 flex items-center justify-center p-4">
       <div className="bg-white rounded-lg shadow-xl w-full max-w-md p-8">
         <div className="text-center mb-8">
           <div className="inline-flex items-center justify-center w-16 h-16 bg-blue-100 rounded-full mb-4">
-            <LogIn className="w-8 h-8 text-blue-600" />
+            {mfaToken ? <ShieldCheck className="w-8 h-8 text-blue-600" /> : <LogIn className="w-8 h-8 text-blue-600" />}
           </div>
-          <h1 className="text-3xl font-bold text-gray-900">Welcome Back</h1>
-          <p className="text-gray-600 mt-2">Sign in to your account</p>
+          <h1 className="text-3xl font-bold text-gray-900">{mfaToken ? 'Two-Step Verification' : 'Welcome Back'}</h1>
+          <p className="text-gray-600 mt-2">
+            {mfaToken ? 'Enter the code from your authenticator app' : 'Sign in to your account'}
+          </p>
         </div>
 
+        {passwordReset && !error && !mfaToken && (
+          <div className="mb-6 p-4 bg-green-50 border border-green-200 rounded-lg flex items-start">
+            <CheckCircle className="w-5 h-5 text-green-600 mt-0.5 mr-3 flex-shrink-0" />
+            <p className="text-sm text-green-800">Your password has been changed. Sign in with the new one.</p>
+          </div>
+        )}
+
+        {reason === 'expired' && !error && !mfaToken && (
+          <div className="mb-6 p-4 bg-yellow-50 border border-yellow-200 rounded-lg flex items-start">
+            <Clock className="w-5 h-5 text-yellow-600 mt-0.5 mr-3 flex-shrink-0" />
+            <p className="text-sm text-yellow-800">Your session expired. Sign in again to pick up where you left off.</p>
+          </div>
+        )}
+
         {error && (
           <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg flex items-start">
             <AlertCircle className="w-5 h-5 text-red-600 mt-0.5 mr-3 flex-shrink-0" />
-            <p className="text-sm text-red-800">{error}</p>
+            <p className="text-sm text-red-800">
+              {error}
+              {waiting && (
+                <>
+                  {' '}
+                  You can try again in <span className="font-mono font-medium">{formatCountdown(cooldown.remaining)}</span>.
+                </>
+              )}
+            </p>
           </div>
         )}
 
-        <form onSubmit={handleSubmit} className="space-y-6">
-          <div>
-            <label htmlFor="email" className="block text-sm font-medium text-gray-700 mb-2">
-              Email Address
-            </label>
-            <div className="relative">
-              <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
-                <Mail className="h-5 w-5 text-gray-400" />
-              </div>
+        {mfaToken ? (
+          <form onSubmit={handleVerify} className="space-y-6">
+            <div>
+              <label htmlFor="code" className="block text-sm font-medium text-gray-700 mb-2">
+                Verification Code
+              </label>
               <input
-                id="email"
-                type="email"
+                id="code"
+                type="text"
+                inputMode="numeric"
+                autoComplete="one-time-code"
                 required
-                value={email}
-                onChange={(e) => setEmail(e.target.value)}
-                className="block w-full pl-10 pr-3 py-2.5 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
-                placeholder="you@example.com"
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+                className="block w-full px-3 py-2.5 text-center text-2xl tracking-[0.5em] font-mono border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
+                placeholder="123456"
+                maxLength={8}
+                autoFocus
               />
             </div>
-          </div>
 
-          <div>
-            <label htmlFor="password" className="block text-sm font-medium text-gray-700 mb-2">
-              Password
-            </label>
-            <div className="relative">
-              <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
-                <Lock className="h-5 w-5 text-gray-400" />
+            <button type="submit" disabled={loading || waiting || !code.trim()} className={submitClass}>
+              {loading ? <span>Verifying...</span> : 'Verify'}
+            </button>
+
+            <button
+              type="button"
+              onClick={backToPassword}
+              className="w-full text-sm text-gray-600 hover:text-gray-900"
+            >
+              Use a different account
+            </button>
+          </form>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-6">
+            <div>
+              <label htmlFor="email" className="block text-sm font-medium text-gray-700 mb-2">
+                Email Address
+              </label>
+              <div className="relative">
+                <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                  <Mail className="h-5 w-5 text-gray-400" />
+                </div>
+                <input
+                  id="email"
+                  type="email"
+                  required
+                  autoComplete="username"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  className="block w-full pl-10 pr-3 py-2.5 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
+                  placeholder="you@example.com"
+                />
               </div>
-              <input
+            </div>
+
+            <div>
+              <div className="flex items-center justify-between mb-2">
+                <label htmlFor="password" className="block text-sm font-medium text-gray-700">
+                  Password
+                </label>
+                <Link to="/forgot-password" className="text-sm text-blue-600 hover:text-blue-500">
+                  Forgot password?
+                </Link>
+              </div>
+              <PasswordInput
                 id="password"
-                type="password"
-                required
                 value={password}
-                onChange={(e) => setPassword(e.target.value)}
-                className="block w-full pl-10 pr-3 py-2.5 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
+                onChange={setPassword}
+                autoComplete="current-password"
                 placeholder="Enter your password"
               />
             </div>
-          </div>
 
-          <button
-            type="submit"
-            disabled={loading}
-            className="w-full flex items-center justify-center px-4 py-2.5 border border-transparent rounded-lg shadow-sm text-base font-medium text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
-          >
-            {loading ? (
-              <span>Signing in...</span>
-            ) : (
-              <>
-                <LogIn className="w-5 h-5 mr-2" />
-                Sign In
-              </>
-            )}
-          </button>
-        </form>
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={remember}
+                onChange={(e) => setRemember(e.target.checked)}
+                className="w-4 h-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+              />
+              Keep me signed in on this device
+            </label>
+
+            <button type="submit" disabled={loading || waiting} className={submitClass}>
+              {loading ? (
+                <span>Signing in...</span>
+              ) : (
+                <>
+                  <LogIn className="w-5 h-5 mr-2" />
+                  Sign In
+                </>
+              )}
+            </button>
+          </form>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,119 @@
+import { useState, FormEvent } from 'react';
+import { Link, useNavigate, useSearchParams } from 'react-router-dom';
+import PasswordInput from '../components/PasswordInput';
+import { LoginRedirectState } from '../components/ProtectedRoute';
+import { MIN_PASSWORD_LENGTH, resetPassword } from '../api/auth';
+import { getErrorMessage } from '../lib/errors';
+import { KeyRound, AlertCircle, ArrowLeft } from 'lucide-react';
+
+export default function ResetPassword() {
+  const [searchParams] = useSearchParams();
+  // Emailed and admin-issued links both carry the token in the query string
+  const token = searchParams.get('token');
+  const [password, setPassword] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [error, setError] = useState('');
+  const [loading, setLoading] = useState(false);
+  const navigate = useNavigate();
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!token) return;
+    if (password.length < MIN_PASSWORD_LENGTH) {
+      setError(`Password must be at least ${MIN_PASSWORD_LENGTH} characters`);
+      return;
+    }
+    if (password !== confirmation) {
+      setError("The passwords don't match");
+      return;
+    }
+
+    setError('');
+    setLoading(true);
+    try {
+      await resetPassword(token, password);
+      const state: LoginRedirectState = { passwordReset: true };
+      navigate('/login', { replace: true, state });
+    } catch (err: unknown) {
+      setError(getErrorMessage(err, 'This reset link is invalid or has expired. Request a new one.'));
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-blue-100 flex items-center justify-center p-4">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-md p-8">
+        <div className="text-center mb-8">
+          <div className="inline-flex items-center justify-center w-16 h-16 bg-blue-100 rounded-full mb-4">
+            <KeyRound className="w-8 h-8 text-blue-600" />
+          </div>
+          <h1 className="text-3xl font-bold text-gray-900">Choose a New Password</h1>
+          <p className="text-gray-600 mt-2">At least {MIN_PASSWORD_LENGTH} characters</p>
+        </div>
+
+        {(error || !token) && (
+          <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg flex items-start">
+            <AlertCircle className="w-5 h-5 text-red-600 mt-0.5 mr-3 flex-shrink-0" />
+            <p className="text-sm text-red-800">
+              {token ? error : 'This reset link is incomplete. Open it straight from the email, or request a new one.'}
+            </p>
+          </div>
+        )}
+
+        {token ? (
+          <form onSubmit={handleSubmit} className="space-y-6">
+            <div>
+              <label htmlFor="password" className="block text-sm font-medium text-gray-700 mb-2">
+                New Password
+              </label>
+              <PasswordInput
+                id="password"
+                value={password}
+                onChange={setPassword}
+                autoComplete="new-password"
+                disabled={loading}
+                autoFocus
+              />
+            </div>
+
+            <div>
+              <label htmlFor="confirmation" className="block text-sm font-medium text-gray-700 mb-2">
+                Confirm Password
+              </label>
+              <PasswordInput
+                id="confirmation"
+                value={confirmation}
+                onChange={setConfirmation}
+                autoComplete="new-password"
+                disabled={loading}
+              />
+            </div>
+
+            <button
+              type="submit"
+              disabled={loading}
+              className="w-full flex items-center justify-center px-4 py-2.5 border border-transparent rounded-lg shadow-sm text-base font-medium text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {loading ? <span>Saving...</span> : 'Change Password'}
+            </button>
+          </form>
+        ) : (
+          <Link
+            to="/forgot-password"
+            className="block w-full text-center px-4 py-2.5 rounded-lg text-base font-medium text-white bg-blue-600 hover:bg-blue-700 transition-colors"
+          >
+            Request a New Link
+          </Link>
+        )}
+
+        <Link
+          to="/login"
+          className="mt-6 flex items-center justify-center gap-1 text-sm text-gray-600 hover:text-gray-900"
+        >
+          <ArrowLeft className="w-4 h-4" />
+          Back to sign in
+        </Link>
+      </div>
+    </div>
+  );
+}
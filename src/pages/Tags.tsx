@@ -0,0 +1,486 @@
+import { useState, useMemo, FormEvent } from 'react';
+import { Link } from 'react-router-dom';
+import { Loader2, Tag, Edit2, Trash2, Merge, Search, Check, X, AlertCircle } from 'lucide-react';
+
+import Navigation from '../components/Navigation';
+import { useAuth } from '../contexts/AuthContext';
+import { deleteTag, listTags, mergeTags, renameTag, tagKeys } from '../api/tags';
+import { TagUsage } from '../api/types';
+import { useQuery } from '../hooks/useQuery';
+import { getErrorMessage } from '../lib/errors';
+import { normalizeTag } from '../lib/tags';
+
+const NO_TAGS: TagUsage[] = [];
+
+const imageCount = (count: number) => `${count} ${count === 1 ? 'image' : 'images'}`;
+
+export default function TagManagement() {
+  const { can } = useAuth();
+  const canManage = can('tags:manage');
+  const tagsQuery = useQuery(tagKeys.all, listTags);
+  const tags = tagsQuery.data ?? NO_TAGS;
+  const loading = tagsQuery.isLoading;
+  const [actionError, setActionError] = useState('');
+  // Only a failed fetch takes over the page; failed writes show as a banner over the table
+  const error = tagsQuery.error ? getErrorMessage(tagsQuery.error, 'Failed to fetch tags') : '';
+  const [filter, setFilter] = useState('');
+  const [selected, setSelected] = useState<Set<string>>(() => new Set());
+
+  // Inline rename
+  const [renaming, setRenaming] = useState<string | null>(null);
+  const [renameDraft, setRenameDraft] = useState('');
+  const [renameLoading, setRenameLoading] = useState(false);
+
+  // Merge Modal
+  const [showMergeModal, setShowMergeModal] = useState(false);
+  const [mergeTarget, setMergeTarget] = useState('');
+  const [mergeLoading, setMergeLoading] = useState(false);
+  const [mergeError, setMergeError] = useState('');
+
+  // Delete Modal
+  const [tagToDelete, setTagToDelete] = useState<TagUsage | null>(null);
+  const [deleteLoading, setDeleteLoading] = useState(false);
+
+  const visibleTags = useMemo(() => {
+    const needle = normalizeTag(filter);
+    return needle ? tags.filter((tag) => tag.name.includes(needle)) : tags;
+  }, [tags, filter]);
+  const countOf = (name: string) => tags.find((tag) => tag.name === name)?.count ?? 0;
+
+  // The list refreshes itself: every tag write invalidates the cached copy
+  const retryFetch = () => {
+    setActionError('');
+    tagsQuery.refetch().catch((err: unknown) => console.error('Fetch tags error:', err));
+  };
+
+  const toggleSelected = (name: string) =>
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(name)) next.delete(name);
+      else next.add(name);
+      return next;
+    });
+
+  // ---------------------------
+  // Rename
+  // ---------------------------
+  const startRename = (tag: TagUsage) => {
+    setRenaming(tag.name);
+    setRenameDraft(tag.name);
+  };
+
+  const cancelRename = () => {
+    setRenaming(null);
+    setRenameDraft('');
+  };
+
+  const renameTarget = normalizeTag(renameDraft);
+  // Renaming onto an existing tag merges them, which is worth saying up front
+  const renameMerges = renaming !== null && renameTarget !== renaming && countOf(renameTarget) > 0;
+
+  const saveRename = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!renaming) return;
+    if (!renameTarget || renameTarget === renaming) {
+      cancelRename();
+      return;
+    }
+
+    setRenameLoading(true);
+    setActionError('');
+    try {
+      await renameTag(renaming, renameTarget);
+      setSelected((prev) => {
+        const next = new Set(prev);
+        next.delete(renaming);
+        return next;
+      });
+      cancelRename();
+    } catch (err: unknown) {
+      console.error('Rename tag error:', err);
+      setActionError(getErrorMessage(err, 'Failed to rename tag'));
+    } finally {
+      setRenameLoading(false);
+    }
+  };
+
+  // ---------------------------
+  // Merge
+  // ---------------------------
+  const selectedTags = tags.filter((tag) => selected.has(tag.name));
+
+  // Defaults to the most used of the selected tags, so the fewest images change
+  const openMergeModal = () => {
+    setMergeTarget(selectedTags[0]?.name ?? '');
+    setMergeError('');
+    setShowMergeModal(true);
+  };
+
+  const closeMergeModal = () => {
+    setShowMergeModal(false);
+    setMergeError('');
+  };
+
+  const confirmMerge = async () => {
+    const into = normalizeTag(mergeTarget);
+    if (!into) {
+      setMergeError('Choose the tag to merge into');
+      return;
+    }
+
+    setMergeLoading(true);
+    setMergeError('');
+    try {
+      await mergeTags(
+        selectedTags.map((tag) => tag.name).filter((name) => name !== into),
+        into
+      );
+      setSelected(new Set());
+      closeMergeModal();
+    } catch (err: unknown) {
+      console.error('Merge tags error:', err);
+      setMergeError(getErrorMessage(err, 'Failed to merge tags'));
+    } finally {
+      setMergeLoading(false);
+    }
+  };
+
+  // ---------------------------
+  // Delete
+  // ---------------------------
+  const confirmDelete = async () => {
+    if (!tagToDelete) return;
+
+    setDeleteLoading(true);
+    setActionError('');
+    try {
+      await deleteTag(tagToDelete.name);
+      setSelected((prev) => {
+        const next = new Set(prev);
+        next.delete(tagToDelete.name);
+        return next;
+      });
+    } catch (err: unknown) {
+      console.error('Delete tag error:', err);
+      setActionError(getErrorMessage(err, 'Failed to delete tag'));
+    } finally {
+      setDeleteLoading(false);
+      setTagToDelete(null);
+    }
+  };
+
+  const mergeImages = selectedTags.reduce((sum, tag) => sum + tag.count, 0);
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Navigation />
+
+      {/* Header */}
+      <div className="bg-white shadow-sm border-b">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
+          <div className="flex items-center justify-between">
+            <div>
+              <h1 className="text-3xl font-bold text-gray-900">Tags</h1>
+              <p className="text-gray-600 mt-1">
+                {canManage ? 'Rename, merge and delete the tags on your images' : 'Browse images by tag'}
+              </p>
+            </div>
+            {canManage && selectedTags.length >= 2 && (
+              <button
+                onClick={openMergeModal}
+                className="flex items-center gap-2 px-5 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors shadow-sm font-medium"
+              >
+                <Merge className="w-5 h-5" />
+                Merge {selectedTags.length} Tags
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+
+      {/* Main Content */}
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {actionError && (
+          <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg flex items-start gap-2">
+            <AlertCircle className="w-5 h-5 text-red-600 flex-shrink-0 mt-0.5" />
+            <p className="text-sm text-red-600 flex-1">{actionError}</p>
+            <button
+              onClick={() => setActionError('')}
+              className="text-red-400 hover:text-red-600"
+              title="Dismiss"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+        )}
+
+        <div className="bg-white rounded-lg shadow-md">
+          {loading ? (
+            <div className="flex justify-center items-center py-20">
+              <Loader2 className="w-10 h-10 text-blue-600 animate-spin" />
+            </div>
+          ) : error ? (
+            <div className="flex items-center justify-center py-20">
+              <div className="text-center">
+                <AlertCircle className="w-12 h-12 text-red-500 mx-auto mb-4" />
+                <p className="text-red-600 text-lg mb-4">{error}</p>
+                <button
+                  onClick={retryFetch}
+                  className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700"
+                >
+                  Retry
+                </button>
+              </div>
+            </div>
+          ) : tags.length === 0 ? (
+            <div className="text-center py-20">
+              <Tag className="w-16 h-16 text-gray-300 mx-auto mb-4" />
+              <p className="text-gray-500 text-lg mb-2">No tags yet</p>
+              <p className="text-gray-400 text-sm">Tags added to images when uploading or editing show up here</p>
+            </div>
+          ) : (
+            <div className="p-6">
+              <div className="mb-4 flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+                <h2 className="text-lg font-semibold text-gray-900">All Tags ({tags.length})</h2>
+                <div className="relative sm:w-64">
+                  <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-400" />
+                  <input
+                    type="search"
+                    value={filter}
+                    onChange={(e) => setFilter(e.target.value)}
+                    placeholder="Filter tags"
+                    className="w-full pl-9 pr-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                  />
+                </div>
+              </div>
+
+              {visibleTags.length === 0 ? (
+                <p className="py-10 text-center text-gray-500">No tags match "{filter}"</p>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="min-w-full text-sm">
+                    <thead>
+                      <tr className="text-left text-gray-500 border-b">
+                        {canManage && <th className="px-3 py-2 w-8" />}
+                        <th className="px-3 py-2 font-medium">Tag</th>
+                        <th className="px-3 py-2 font-medium">Used on</th>
+                        <th className="px-3 py-2" />
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {visibleTags.map((tag) => (
+                        <tr key={tag.name} className="border-b last:border-0 hover:bg-gray-50">
+                          {canManage && (
+                            <td className="px-3 py-3">
+                              <input
+                                type="checkbox"
+                                checked={selected.has(tag.name)}
+                                onChange={() => toggleSelected(tag.name)}
+                                className="w-4 h-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                                aria-label={`Select #${tag.name}`}
+                              />
+                            </td>
+                          )}
+                          <td className="px-3 py-3">
+                            {renaming === tag.name ? (
+                              <form onSubmit={saveRename} className="flex items-center gap-2">
+                                <input
+                                  type="text"
+                                  value={renameDraft}
+                                  onChange={(e) => setRenameDraft(e.target.value)}
+                                  onKeyDown={(e) => e.key === 'Escape' && cancelRename()}
+                                  disabled={renameLoading}
+                                  className="px-2 py-1 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                                  autoFocus
+                                />
+                                <button
+                                  type="submit"
+                                  disabled={renameLoading}
+                                  className="p-1.5 text-green-600 hover:bg-green-50 rounded-lg disabled:opacity-50"
+                                  title="Save"
+                                >
+                                  {renameLoading ? <Loader2 className="w-4 h-4 animate-spin" /> : <Check className="w-4 h-4" />}
+                                </button>
+                                <button
+                                  type="button"
+                                  onClick={cancelRename}
+                                  disabled={renameLoading}
+                                  className="p-1.5 text-gray-500 hover:bg-gray-100 rounded-lg disabled:opacity-50"
+                                  title="Cancel"
+                                >
+                                  <X className="w-4 h-4" />
+                                </button>
+                                {renameMerges && (
+                                  <span className="text-xs text-yellow-700">Merges into the existing #{renameTarget}</span>
+                                )}
+                              </form>
+                            ) : (
+                              <Link
+                                to={`/images?tags=${encodeURIComponent(tag.name)}`}
+                                className="font-medium text-blue-700 hover:underline"
+                                title={`Show images tagged #${tag.name}`}
+                              >
+                                #{tag.name}
+                              </Link>
+                            )}
+                          </td>
+                          <td className="px-3 py-3 text-gray-700 whitespace-nowrap">{imageCount(tag.count)}</td>
+                          <td className="px-3 py-3">
+                            {canManage && (
+                              <div className="flex justify-end gap-1">
+                                <button
+                                  onClick={() => startRename(tag)}
+                                  className="p-2 text-blue-600 hover:bg-blue-50 rounded-lg transition-colors"
+                                  title="Rename tag"
+                                >
+                                  <Edit2 className="w-4 h-4" />
+                                </button>
+                                <button
+                                  onClick={() => setTagToDelete(tag)}
+                                  className="p-2 text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                                  title="Delete tag"
+                                >
+                                  <Trash2 className="w-4 h-4" />
+                                </button>
+                              </div>
+                            )}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* Merge Modal */}
+      {showMergeModal && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-lg shadow-xl max-w-md w-full p-6">
+            <div className="flex items-center justify-between mb-4">
+              <h2 className="text-xl font-bold text-gray-900">Merge Tags</h2>
+              <button
+                onClick={closeMergeModal}
+                disabled={mergeLoading}
+                className="p-1 text-gray-400 hover:text-gray-600 transition-colors disabled:opacity-50"
+              >
+                <X className="w-6 h-6" />
+              </button>
+            </div>
+
+            {mergeError && (
+              <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg flex items-start gap-2">
+                <AlertCircle className="w-5 h-5 text-red-600 flex-shrink-0 mt-0.5" />
+                <p className="text-sm text-red-600">{mergeError}</p>
+              </div>
+            )}
+
+            <p className="text-gray-600 mb-3">Replace these tags with one, on every image that has them:</p>
+            <div className="flex flex-wrap gap-1.5 mb-4">
+              {selectedTags.map((tag) => (
+                <button
+                  key={tag.name}
+                  type="button"
+                  onClick={() => setMergeTarget(tag.name)}
+                  className={`px-2.5 py-1 text-xs font-medium rounded-full transition-colors ${
+                    normalizeTag(mergeTarget) === tag.name
+                      ? 'bg-blue-600 text-white'
+                      : 'bg-blue-100 text-blue-800 hover:bg-blue-200'
+                  }`}
+                >
+                  #{tag.name} · {tag.count}
+                </button>
+              ))}
+            </div>
+
+            <label htmlFor="merge-into" className="block text-sm font-medium text-gray-700 mb-2">
+              Merge into
+            </label>
+            <input
+              id="merge-into"
+              type="text"
+              value={mergeTarget}
+              onChange={(e) => setMergeTarget(e.target.value)}
+              disabled={mergeLoading}
+              className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+            <p className="text-xs text-gray-500 mt-1">
+              Pick one of the tags above or type a new name. Up to {imageCount(mergeImages)} will be updated.
+            </p>
+
+            <div className="flex gap-3 justify-end mt-6">
+              <button
+                onClick={closeMergeModal}
+                disabled={mergeLoading}
+                className="px-5 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 disabled:opacity-50 transition-colors font-medium"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={confirmMerge}
+                disabled={mergeLoading || !normalizeTag(mergeTarget)}
+                className="px-5 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center gap-2 font-medium"
+              >
+                {mergeLoading ? (
+                  <>
+                    <Loader2 className="w-4 h-4 animate-spin" />
+                    Merging...
+                  </>
+                ) : (
+                  'Merge'
+                )}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Delete Confirmation Modal */}
+      {tagToDelete && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-lg shadow-xl max-w-md w-full p-6">
+            <div className="flex items-start mb-4">
+              <div className="w-12 h-12 bg-red-100 rounded-full flex items-center justify-center mr-4 flex-shrink-0">
+                <Trash2 className="w-6 h-6 text-red-600" />
+              </div>
+              <div>
+                <h2 className="text-xl font-bold text-gray-900 mb-2">Delete Tag</h2>
+                <p className="text-gray-600">
+                  Remove <strong className="text-gray-900">#{tagToDelete.name}</strong> from{' '}
+                  {imageCount(tagToDelete.count)}? The images themselves are kept.
+                </p>
+              </div>
+            </div>
+
+            <div className="flex gap-3 justify-end mt-6">
+              <button
+                onClick={() => setTagToDelete(null)}
+                disabled={deleteLoading}
+                className="px-5 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 disabled:opacity-50 transition-colors font-medium"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={confirmDelete}
+                disabled={deleteLoading}
+                className="px-5 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 disabled:opacity-50 transition-colors flex items-center gap-2 font-medium"
+              >
+                {deleteLoading ? (
+                  <>
+                    <Loader2 className="w-4 h-4 animate-spin" />
+                    Deleting...
+                  </>
+                ) : (
+                  'Delete'
+                )}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,650 @@
+import { useState } from 'react';
+import {
+  Loader2,
+  UserPlus,
+  Edit2,
+  UserX,
+  UserCheck,
+  KeyRound,
+  Copy,
+  Check,
+  X,
+  Users as UsersIcon,
+  AlertCircle,
+} from 'lucide-react';
+
+import Navigation from '../components/Navigation';
+import { useAuth } from '../contexts/AuthContext';
+import {
+  PasswordResetLink,
+  changeUserRole,
+  createPasswordResetLink,
+  inviteUser,
+  listUsers,
+  setUserStatus,
+  userKeys,
+} from '../api/users';
+import { MIN_PASSWORD_LENGTH } from '../api/auth';
+import { Role, User, UserStatus } from '../api/types';
+import { useQuery } from '../hooks/useQuery';
+import { getErrorMessage } from '../lib/errors';
+import { ROLES } from '../lib/permissions';
+
+const NO_USERS: User[] = [];
+
+const roleDescriptions: Record<Role, string> = {
+  viewer: 'Can browse images and categories',
+  editor: 'Can also upload and edit images, categories and tags',
+  admin: 'Can also delete content and manage users',
+};
+
+const statusStyles: Record<UserStatus, string> = {
+  active: 'bg-green-100 text-green-800',
+  invited: 'bg-yellow-100 text-yellow-800',
+  disabled: 'bg-gray-200 text-gray-600',
+};
+
+// A user's highest role; the form edits a single one
+const primaryRole = (user: User): Role =>
+  [...ROLES].reverse().find((role) => user.roles.includes(role)) ?? 'viewer';
+
+const formatDate = (value: string | null | undefined) => (value ? new Date(value).toLocaleString() : '—');
+
+export default function UserManagement() {
+  const { user: currentUser } = useAuth();
+  const usersQuery = useQuery(userKeys.all, listUsers);
+  const users = usersQuery.data ?? NO_USERS;
+  const loading = usersQuery.isLoading;
+  const [actionError, setActionError] = useState('');
+  // Only a failed fetch takes over the page; failed writes show as a banner over the table
+  const error = usersQuery.error ? getErrorMessage(usersQuery.error, 'Failed to fetch users') : '';
+
+  // Modal States
+  const [showModal, setShowModal] = useState(false);
+  const [modalMode, setModalMode] = useState<'invite' | 'edit'>('invite');
+  const [editingUser, setEditingUser] = useState<User | null>(null);
+  const [email, setEmail] = useState('');
+  const [name, setName] = useState('');
+  const [role, setRole] = useState<Role>('viewer');
+  const [sendInvite, setSendInvite] = useState(true);
+  const [password, setPassword] = useState('');
+  const [modalLoading, setModalLoading] = useState(false);
+  const [modalError, setModalError] = useState('');
+
+  // Disable Modal States
+  const [userToDisable, setUserToDisable] = useState<User | null>(null);
+  const [statusLoadingId, setStatusLoadingId] = useState<string | null>(null);
+
+  // Reset Link Modal States
+  const [userToReset, setUserToReset] = useState<User | null>(null);
+  const [resetLink, setResetLink] = useState<PasswordResetLink | null>(null);
+  const [resetLoading, setResetLoading] = useState(false);
+  const [resetError, setResetError] = useState('');
+  const [copied, setCopied] = useState(false);
+
+  const retryFetch = () => {
+    setActionError('');
+    usersQuery.refetch().catch((err: unknown) => console.error('Fetch users error:', err));
+  };
+
+  // Open Invite Modal
+  const openInviteModal = () => {
+    setModalMode('invite');
+    setEditingUser(null);
+    setEmail('');
+    setName('');
+    setRole('viewer');
+    setSendInvite(true);
+    setPassword('');
+    setModalError('');
+    setShowModal(true);
+  };
+
+  // Open Edit Modal
+  const openEditModal = (user: User) => {
+    setModalMode('edit');
+    setEditingUser(user);
+    setEmail(user.email);
+    setName(user.name ?? '');
+    setRole(primaryRole(user));
+    setModalError('');
+    setShowModal(true);
+  };
+
+  // Close Modal
+  const closeModal = () => {
+    setShowModal(false);
+    setEditingUser(null);
+    setPassword('');
+    setModalError('');
+  };
+
+  // Handle Save (Invite/Edit)
+  const handleSave = async () => {
+    if (modalMode === 'invite') {
+      if (!email.trim()) {
+        setModalError('Email is required');
+        return;
+      }
+      if (!sendInvite && password.length < MIN_PASSWORD_LENGTH) {
+        setModalError(`Password must be at least ${MIN_PASSWORD_LENGTH} characters`);
+        return;
+      }
+    }
+
+    setModalLoading(true);
+    setModalError('');
+
+    try {
+      if (modalMode === 'invite') {
+        await inviteUser({
+          email: email.trim(),
+          name: name.trim() || undefined,
+          role,
+          password: sendInvite ? undefined : password,
+        });
+      } else if (editingUser) {
+        await changeUserRole(editingUser._id, role);
+      }
+
+      closeModal();
+    } catch (err: unknown) {
+      console.error('Save user error:', err);
+      setModalError(getErrorMessage(err, modalMode === 'invite' ? 'Failed to invite user' : 'Failed to change role'));
+    } finally {
+      setModalLoading(false);
+    }
+  };
+
+  // Enabling needs no confirmation; disabling locks someone out
+  const updateStatus = async (user: User, status: 'active' | 'disabled') => {
+    setStatusLoadingId(user._id);
+    setActionError('');
+    try {
+      await setUserStatus(user._id, status);
+      setUserToDisable(null);
+    } catch (err: unknown) {
+      console.error('Update user status error:', err);
+      setActionError(getErrorMessage(err, `Failed to ${status === 'disabled' ? 'disable' : 'enable'} user`));
+      setUserToDisable(null);
+    } finally {
+      setStatusLoadingId(null);
+    }
+  };
+
+  // Open Reset Link Modal
+  const openResetModal = (user: User) => {
+    setUserToReset(user);
+    setResetLink(null);
+    setResetError('');
+    setCopied(false);
+  };
+
+  const closeResetModal = () => {
+    setUserToReset(null);
+    setResetLink(null);
+  };
+
+  const generateResetLink = async () => {
+    if (!userToReset) return;
+
+    setResetLoading(true);
+    setResetError('');
+    try {
+      setResetLink(await createPasswordResetLink(userToReset._id));
+    } catch (err: unknown) {
+      console.error('Password reset link error:', err);
+      setResetError(getErrorMessage(err, 'Failed to create a reset link'));
+    } finally {
+      setResetLoading(false);
+    }
+  };
+
+  const copyResetLink = async () => {
+    if (!resetLink) return;
+    try {
+      await navigator.clipboard.writeText(resetLink.url);
+      setCopied(true);
+    } catch {
+      setResetError('Could not copy automatically. Select the link and copy it instead.');
+    }
+  };
+
+  const isSelf = (user: User) => user._id === currentUser?.id;
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Navigation />
+
+      {/* Header */}
+      <div className="bg-white shadow-sm border-b">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
+          <div className="flex items-center justify-between">
+            <div>
+              <h1 className="text-3xl font-bold text-gray-900">User Management</h1>
+              <p className="text-gray-600 mt-1">Manage who can sign in and what they can do</p>
+            </div>
+            <button
+              onClick={openInviteModal}
+              className="flex items-center gap-2 px-5 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors shadow-sm font-medium"
+            >
+              <UserPlus className="w-5 h-5" />
+              Invite User
+            </button>
+          </div>
+        </div>
+      </div>
+
+      {/* Main Content */}
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {actionError && (
+          <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg flex items-start gap-2">
+            <AlertCircle className="w-5 h-5 text-red-600 flex-shrink-0 mt-0.5" />
+            <p className="text-sm text-red-600 flex-1">{actionError}</p>
+            <button
+              onClick={() => setActionError('')}
+              className="text-red-400 hover:text-red-600"
+              title="Dismiss"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+        )}
+
+        <div className="bg-white rounded-lg shadow-md">
+          {loading ? (
+            <div className="flex justify-center items-center py-20">
+              <Loader2 className="w-10 h-10 text-blue-600 animate-spin" />
+            </div>
+          ) : error ? (
+            <div className="flex items-center justify-center py-20">
+              <div className="text-center">
+                <AlertCircle className="w-12 h-12 text-red-500 mx-auto mb-4" />
+                <p className="text-red-600 text-lg mb-4">{error}</p>
+                <button
+                  onClick={retryFetch}
+                  className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700"
+                >
+                  Retry
+                </button>
+              </div>
+            </div>
+          ) : users.length === 0 ? (
+            <div className="text-center py-20">
+              <UsersIcon className="w-16 h-16 text-gray-300 mx-auto mb-4" />
+              <p className="text-gray-500 text-lg mb-2">No users yet</p>
+              <p className="text-gray-400 text-sm">Invite someone to get started</p>
+            </div>
+          ) : (
+            <div className="p-6">
+              <div className="mb-4 flex items-center justify-between">
+                <h2 className="text-lg font-semibold text-gray-900">All Users ({users.length})</h2>
+              </div>
+
+              <div className="overflow-x-auto">
+                <table className="min-w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-gray-500 border-b">
+                      <th className="px-3 py-2 font-medium">User</th>
+                      <th className="px-3 py-2 font-medium">Role</th>
+                      <th className="px-3 py-2 font-medium">Status</th>
+                      <th className="px-3 py-2 font-medium">Created</th>
+                      <th className="px-3 py-2 font-medium">Last login</th>
+                      <th className="px-3 py-2" />
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {users.map((user) => (
+                      <tr key={user._id} className="border-b last:border-0 hover:bg-gray-50">
+                        <td className="px-3 py-3">
+                          <p className="font-medium text-gray-900">
+                            {user.name || user.email}
+                            {isSelf(user) && <span className="ml-2 text-xs text-gray-500">(you)</span>}
+                          </p>
+                          {user.name && <p className="text-gray-500">{user.email}</p>}
+                        </td>
+                        <td className="px-3 py-3 text-gray-700 capitalize">{primaryRole(user)}</td>
+                        <td className="px-3 py-3">
+                          <span
+                            className={`inline-block px-2.5 py-0.5 text-xs font-medium rounded-full capitalize ${statusStyles[user.status]}`}
+                          >
+                            {user.status}
+                          </span>
+                        </td>
+                        <td className="px-3 py-3 text-gray-500 whitespace-nowrap">{formatDate(user.createdAt)}</td>
+                        <td className="px-3 py-3 text-gray-500 whitespace-nowrap">
+                          {user.lastLoginAt ? formatDate(user.lastLoginAt) : 'Never'}
+                        </td>
+                        <td className="px-3 py-3">
+                          <div className="flex justify-end gap-1">
+                            <button
+                              onClick={() => openEditModal(user)}
+                              disabled={isSelf(user)}
+                              className="p-2 text-blue-600 hover:bg-blue-50 rounded-lg transition-colors disabled:opacity-40 disabled:hover:bg-transparent"
+                              title={isSelf(user) ? "You can't change your own role" : 'Change role'}
+                            >
+                              <Edit2 className="w-4 h-4" />
+                            </button>
+                            <button
+                              onClick={() => openResetModal(user)}
+                              className="p-2 text-gray-600 hover:bg-gray-100 rounded-lg transition-colors"
+                              title="Password reset link"
+                            >
+                              <KeyRound className="w-4 h-4" />
+                            </button>
+                            {user.status === 'disabled' ? (
+                              <button
+                                onClick={() => updateStatus(user, 'active')}
+                                disabled={statusLoadingId === user._id}
+                                className="p-2 text-green-600 hover:bg-green-50 rounded-lg transition-colors disabled:opacity-50"
+                                title="Enable user"
+                              >
+                                {statusLoadingId === user._id ? (
+                                  <Loader2 className="w-4 h-4 animate-spin" />
+                                ) : (
+                                  <UserCheck className="w-4 h-4" />
+                                )}
+                              </button>
+                            ) : (
+                              <button
+                                onClick={() => setUserToDisable(user)}
+                                disabled={isSelf(user)}
+                                className="p-2 text-red-600 hover:bg-red-50 rounded-lg transition-colors disabled:opacity-40 disabled:hover:bg-transparent"
+                                title={isSelf(user) ? "You can't disable yourself" : 'Disable user'}
+                              >
+                                <UserX className="w-4 h-4" />
+                              </button>
+                            )}
+                          </div>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* Invite/Edit Modal */}
+      {showModal && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-lg shadow-xl max-w-md w-full p-6">
+            <div className="flex items-center justify-between mb-6">
+              <h2 className="text-xl font-bold text-gray-900">
+                {modalMode === 'invite' ? 'Invite User' : 'Change Role'}
+              </h2>
+              <button
+                onClick={closeModal}
+                disabled={modalLoading}
+                className="p-1 text-gray-400 hover:text-gray-600 transition-colors disabled:opacity-50"
+              >
+                <X className="w-6 h-6" />
+              </button>
+            </div>
+
+            {modalError && (
+              <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg flex items-start gap-2">
+                <AlertCircle className="w-5 h-5 text-red-600 flex-shrink-0 mt-0.5" />
+                <p className="text-sm text-red-600">{modalError}</p>
+              </div>
+            )}
+
+            <div className="space-y-4 mb-6">
+              {modalMode === 'invite' ? (
+                <>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      Email <span className="text-red-500">*</span>
+                    </label>
+                    <input
+                      type="email"
+                      value={email}
+                      onChange={(e) => setEmail(e.target.value)}
+                      placeholder="someone@example.com"
+                      className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-shadow"
+                      disabled={modalLoading}
+                      autoFocus
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">Name</label>
+                    <input
+                      type="text"
+                      value={name}
+                      onChange={(e) => setName(e.target.value)}
+                      placeholder="Optional"
+                      className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-shadow"
+                      disabled={modalLoading}
+                    />
+                  </div>
+                </>
+              ) : (
+                <p className="text-gray-600">
+                  Choose what <strong className="text-gray-900">{editingUser?.name || email}</strong> can do.
+                </p>
+              )}
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Role</label>
+                <div className="space-y-2">
+                  {ROLES.map((option) => (
+                    <label
+                      key={option}
+                      className={`flex items-start gap-3 p-3 border rounded-lg cursor-pointer transition-colors ${
+                        role === option ? 'border-blue-500 bg-blue-50' : 'border-gray-200 hover:bg-gray-50'
+                      }`}
+                    >
+                      <input
+                        type="radio"
+                        name="role"
+                        checked={role === option}
+                        onChange={() => setRole(option)}
+                        disabled={modalLoading}
+                        className="mt-1 text-blue-600"
+                      />
+                      <span>
+                        <span className="block text-sm font-medium text-gray-900 capitalize">{option}</span>
+                        <span className="block text-xs text-gray-500">{roleDescriptions[option]}</span>
+                      </span>
+                    </label>
+                  ))}
+                </div>
+              </div>
+
+              {modalMode === 'invite' && (
+                <div>
+                  <label className="flex items-center gap-2 text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={sendInvite}
+                      onChange={(e) => setSendInvite(e.target.checked)}
+                      disabled={modalLoading}
+                      className="w-4 h-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                    />
+                    Email an invitation to set their own password
+                  </label>
+                  {!sendInvite && (
+                    <input
+                      type="password"
+                      value={password}
+                      onChange={(e) => setPassword(e.target.value)}
+                      placeholder={`Initial password (at least ${MIN_PASSWORD_LENGTH} characters)`}
+                      className="mt-3 w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-shadow"
+                      disabled={modalLoading}
+                    />
+                  )}
+                </div>
+              )}
+            </div>
+
+            <div className="flex gap-3 justify-end">
+              <button
+                onClick={closeModal}
+                disabled={modalLoading}
+                className="px-5 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 disabled:opacity-50 transition-colors font-medium"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleSave}
+                disabled={modalLoading || (modalMode === 'invite' && !email.trim())}
+                className="px-5 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center gap-2 font-medium"
+              >
+                {modalLoading ? (
+                  <>
+                    <Loader2 className="w-4 h-4 animate-spin" />
+                    Saving...
+                  </>
+                ) : modalMode === 'invite' ? (
+                  sendInvite ? 'Send Invite' : 'Create'
+                ) : (
+                  'Update'
+                )}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Disable Confirmation Modal */}
+      {userToDisable && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-lg shadow-xl max-w-md w-full p-6">
+            <div className="flex items-start mb-4">
+              <div className="w-12 h-12 bg-red-100 rounded-full flex items-center justify-center mr-4 flex-shrink-0">
+                <UserX className="w-6 h-6 text-red-600" />
+              </div>
+              <div>
+                <h2 className="text-xl font-bold text-gray-900 mb-2">Disable User</h2>
+                <p className="text-gray-600">
+                  Disable <strong className="text-gray-900">{userToDisable.name || userToDisable.email}</strong>?
+                </p>
+                <p className="text-sm text-gray-500 mt-2">
+                  They'll be signed out and won't be able to sign in until the account is enabled again. Nothing
+                  they uploaded is removed.
+                </p>
+              </div>
+            </div>
+
+            <div className="flex gap-3 justify-end mt-6">
+              <button
+                onClick={() => setUserToDisable(null)}
+                disabled={statusLoadingId !== null}
+                className="px-5 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 disabled:opacity-50 transition-colors font-medium"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={() => updateStatus(userToDisable, 'disabled')}
+                disabled={statusLoadingId !== null}
+                className="px-5 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 disabled:opacity-50 transition-colors flex items-center gap-2 font-medium"
+              >
+                {statusLoadingId !== null ? (
+                  <>
+                    <Loader2 className="w-4 h-4 animate-spin" />
+                    Disabling...
+                  </>
+                ) : (
+                  'Disable'
+                )}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Password Reset Link Modal */}
+      {userToReset && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-lg shadow-xl max-w-md w-full p-6">
+            <div className="flex items-center justify-between mb-6">
+              <h2 className="text-xl font-bold text-gray-900">Password Reset Link</h2>
+              <button
+                onClick={closeResetModal}
+                disabled={resetLoading}
+                className="p-1 text-gray-400 hover:text-gray-600 transition-colors disabled:opacity-50"
+              >
+                <X className="w-6 h-6" />
+              </button>
+            </div>
+
+            {resetError && (
+              <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg flex items-start gap-2">
+                <AlertCircle className="w-5 h-5 text-red-600 flex-shrink-0 mt-0.5" />
+                <p className="text-sm text-red-600">{resetError}</p>
+              </div>
+            )}
+
+            {resetLink ? (
+              <div className="mb-6">
+                <p className="text-gray-600 mb-3">
+                  Send this link to <strong className="text-gray-900">{userToReset.email}</strong>. It can be used
+                  once{resetLink.expiresAt && <> and expires {formatDate(resetLink.expiresAt)}</>}.
+                </p>
+                <div className="flex gap-2">
+                  <input
+                    type="text"
+                    value={resetLink.url}
+                    readOnly
+                    onFocus={(e) => e.target.select()}
+                    className="flex-1 min-w-0 px-3 py-2 text-sm font-mono border border-gray-300 rounded-lg bg-gray-50"
+                  />
+                  <button
+                    onClick={copyResetLink}
+                    className="flex items-center gap-1 px-3 py-2 text-sm font-medium text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200"
+                  >
+                    {copied ? <Check className="w-4 h-4 text-green-600" /> : <Copy className="w-4 h-4" />}
+                    {copied ? 'Copied' : 'Copy'}
+                  </button>
+                </div>
+              </div>
+            ) : (
+              <p className="text-gray-600 mb-6">
+                Create a one-time link that lets{' '}
+                <strong className="text-gray-900">{userToReset.name || userToReset.email}</strong> choose a new
+                password. Any link created earlier stops working.
+              </p>
+            )}
+
+            <div className="flex gap-3 justify-end">
+              {resetLink ? (
+                <button
+                  onClick={closeResetModal}
+                  className="px-5 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors font-medium"
+                >
+                  Done
+                </button>
+              ) : (
+                <>
+                  <button
+                    onClick={closeResetModal}
+                    disabled={resetLoading}
+                    className="px-5 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 disabled:opacity-50 transition-colors font-medium"
+                  >
+                    Cancel
+                  </button>
+                  <button
+                    onClick={generateResetLink}
+                    disabled={resetLoading}
+                    className="px-5 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 transition-colors flex items-center gap-2 font-medium"
+                  >
+                    {resetLoading ? (
+                      <>
+                        <Loader2 className="w-4 h-4 animate-spin" />
+                        Creating...
+                      </>
+                    ) : (
+                      'Create Link'
+                    )}
+                  </button>
+                </>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1 +1,6 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  // Used to build image URLs from a bare Cloudinary public ID
+  readonly VITE_CLOUDINARY_CLOUD_NAME?: string;
+}
@@ -0,0 +1,17 @@
+import { extractPalette } from '../lib/colorPalette';
+
+export interface PaletteRequest {
+  id: number;
+  file: Blob;
+}
+
+self.onmessage = async (e: MessageEvent<PaletteRequest>) => {
+  const { id, file } = e.data;
+
+  try {
+    const result = await extractPalette(file);
+    self.postMessage({ id, result });
+  } catch (err: unknown) {
+    self.postMessage({ id, error: err instanceof Error ? err.message : 'Failed to extract colours' });
+  }
+};
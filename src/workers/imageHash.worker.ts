@@ -0,0 +1,17 @@
+import { computeImageHashes } from '../lib/imageHashing';
+
+export interface HashRequest {
+  id: number;
+  file: Blob;
+}
+
+self.onmessage = async (e: MessageEvent<HashRequest>) => {
+  const { id, file } = e.data;
+
+  try {
+    const result = await computeImageHashes(file);
+    self.postMessage({ id, result });
+  } catch (err: unknown) {
+    self.postMessage({ id, error: err instanceof Error ? err.message : 'Failed to hash image' });
+  }
+};
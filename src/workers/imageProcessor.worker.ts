@@ -0,0 +1,18 @@
+import { renderProcessedImage, ProcessingOptions } from '../lib/imageProcessing';
+
+export interface ProcessRequest {
+  id: number;
+  file: Blob;
+  options: ProcessingOptions;
+}
+
+self.onmessage = async (e: MessageEvent<ProcessRequest>) => {
+  const { id, file, options } = e.data;
+
+  try {
+    const result = await renderProcessedImage(file, options);
+    self.postMessage({ id, result });
+  } catch (err: unknown) {
+    self.postMessage({ id, error: err instanceof Error ? err.message : 'Failed to process image' });
+  }
+};
@@ -1,10 +1,21 @@
 import { defineConfig } from 'vite';
 import react from '@vitejs/plugin-react';
 
+// Point `/api` at a backend during local development, e.g. the mock server
+// from `npm run mock:api`: API_PROXY_TARGET=http://localhost:8787 npm run dev
+const apiProxyTarget = process.env.API_PROXY_TARGET;
+
 // https://vitejs.dev/config/
 export default defineConfig({
   plugins: [react()],
   optimizeDeps: {
     exclude: ['lucide-react'],
   },
+  server: apiProxyTarget
+    ? {
+        proxy: {
+          '/api': { target: apiProxyTarget, changeOrigin: true },
+        },
+      }
+    : undefined,
 });